@@ -0,0 +1,379 @@
+import { Coordinate, Maze, euclidean_distance, manhattan_distance, chebyshev_distance, octile_distance } from "./maze";
+import {
+    MazeSolvingAlgorithm,
+    GBFS,
+    BFS,
+    DFS,
+    DepthLimitedDFS,
+    IDDFS,
+    UCS,
+    ASTAR,
+    JPS,
+    BidirectionalBFS,
+    BidirectionalASTAR,
+} from "./solving_algorithm";
+import { LPASTAR, DStarLite } from "./incremental_search";
+import { WallFollower, Pledge, Tremaux } from "./maze_agent";
+export {
+    AlgorithmRegistry,
+    AlgorithmDefinition,
+    AlgorithmOption,
+    NumberOption,
+    ChoiceOption,
+    OptionType,
+    OptionValues,
+    algorithm_registry,
+    depth_limit_option,
+    heuristic_option,
+    weight_option,
+};
+
+enum OptionType {
+    /** Set with a text field, and with a slider as well if it asks for one */
+    NUMBER,
+    /** One of a few values picked with a select */
+    CHOICE,
+}
+type NumberOption = {
+    type: OptionType.NUMBER;
+    id: string;
+    label: string;
+    min: number;
+    max: number;
+    /** Granularity of the value, a whole step only allowing whole numbers */
+    step: number;
+    slider: boolean;
+    default_value: number;
+};
+type ChoiceOption = {
+    type: OptionType.CHOICE;
+    id: string;
+    label: string;
+    choices: { value: string; label: string }[];
+    default_value: string;
+};
+/**
+ * A setting an algorithm is tuned with. Algorithms that use the option with the same id share its control and its value
+ */
+type AlgorithmOption = NumberOption | ChoiceOption;
+
+/**
+ * The value each option is set to, the default value of an option that was never set
+ */
+class OptionValues {
+    private readonly values = new Map<string, number | string>();
+
+    public number(option: NumberOption) {
+        const value = this.values.get(option.id);
+        return typeof value === "number" ? value : option.default_value;
+    }
+
+    public choice(option: ChoiceOption) {
+        const value = this.values.get(option.id);
+        return typeof value === "string" ? value : option.default_value;
+    }
+
+    /**
+     * Sets a number option, clamped to its range, returning the value it was set to
+     */
+    public set_number(option: NumberOption, value: number) {
+        if (Number.isNaN(value)) value = option.min;
+        if (Number.isInteger(option.step)) value = Math.floor(value);
+        value = Math.min(Math.max(value, option.min), option.max);
+        this.values.set(option.id, value);
+        return value;
+    }
+
+    /**
+     * Sets a choice option, ignoring values that are not one of its choices, returning the value it is set to
+     */
+    public set_choice(option: ChoiceOption, value: string) {
+        if (option.choices.some((choice) => choice.value === value)) this.values.set(option.id, value);
+        return this.choice(option);
+    }
+}
+
+/**
+ * Everything the page needs to know about an algorithm to offer it, its radio button, race checkbox and option controls being built from this
+ */
+type AlgorithmDefinition = {
+    /** Identifies the algorithm in urls and in the ids of its controls */
+    id: string;
+    name: string;
+    /** Shorter name for the race checkboxes */
+    short_name: string;
+    description: string;
+    options: AlgorithmOption[];
+    /** Whether its race checkbox is ticked when the page loads */
+    raced_by_default: boolean;
+    /** Whether its searches take steps only once something outside the page answered, which races and benchmarks cannot wait for, so it is left out of them */
+    asynchronous?: boolean;
+    create: (maze: Maze, start: Coordinate, end: Coordinate, options: OptionValues) => MazeSolvingAlgorithm;
+};
+
+/**
+ * Every algorithm the page offers, in the order they are listed
+ */
+class AlgorithmRegistry {
+    private readonly definitions: AlgorithmDefinition[] = [];
+
+    /**
+     * Adds an algorithm to the end of the list, or replaces the algorithm registered with the same id where it is listed
+     */
+    public register(definition: AlgorithmDefinition) {
+        const index = this.definitions.findIndex((registered) => registered.id === definition.id);
+        if (index === -1) this.definitions.push(definition);
+        else this.definitions[index] = definition;
+    }
+
+    public get(id: string) {
+        return this.definitions.find((definition) => definition.id === id);
+    }
+
+    public all() {
+        return this.definitions.slice();
+    }
+
+    /**
+     * Every option some algorithm uses, each only once, in the order they are first used
+     */
+    public options() {
+        const options: AlgorithmOption[] = [];
+        for (const definition of this.definitions) {
+            for (const option of definition.options) if (!options.some((added) => added.id === option.id)) options.push(option);
+        }
+        return options;
+    }
+}
+
+const depth_limit_option: NumberOption = {
+    type: OptionType.NUMBER,
+    id: "depth limit",
+    label: "Depth limit",
+    min: 1,
+    max: 10000,
+    step: 1,
+    slider: false,
+    default_value: 20,
+};
+/**
+ * The grid distance is the one the maze's topology measures
+ */
+const heuristic_option: ChoiceOption = {
+    type: OptionType.CHOICE,
+    id: "heuristic",
+    label: "Heuristic",
+    choices: [
+        { value: "grid", label: "Grid distance" },
+        { value: "manhattan", label: "Manhattan" },
+        { value: "euclidean", label: "Euclidean" },
+        { value: "chebyshev", label: "Chebyshev" },
+        { value: "octile", label: "Octile" },
+        { value: "zero", label: "Zero (Dijkstra)" },
+    ],
+    default_value: "grid",
+};
+const weight_option: NumberOption = {
+    type: OptionType.NUMBER,
+    id: "weight",
+    label: "A* weight",
+    min: 1,
+    max: 5,
+    step: 0.1,
+    slider: true,
+    default_value: 1,
+};
+
+function chosen_heuristic(maze: Maze, options: OptionValues): (coord1: Coordinate, coord2: Coordinate) => number {
+    switch (options.choice(heuristic_option)) {
+        case "manhattan":
+            return manhattan_distance;
+        case "euclidean":
+            return euclidean_distance;
+        case "chebyshev":
+            return chebyshev_distance;
+        case "octile":
+            return octile_distance;
+        case "zero":
+            return () => 0;
+        default:
+            return (coord1, coord2) => maze.distance(coord1, coord2);
+    }
+}
+
+/**
+ * The registry the page is built from, holding every built-in algorithm
+ */
+const algorithm_registry = new AlgorithmRegistry();
+algorithm_registry.register({
+    id: "bfs",
+    name: "Breadth First Search",
+    short_name: "BFS",
+    description: "Expands cells in the order they were found, which finds the path with the fewest steps but ignores terrain costs.",
+    options: [],
+    raced_by_default: true,
+    create: (maze, start, end) => new BFS(maze, start, end),
+});
+algorithm_registry.register({
+    id: "dfs",
+    name: "Depth First Search",
+    short_name: "DFS",
+    description: "Follows one corridor as far as it goes before backtracking, which finds a path but rarely the shortest one.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new DFS(maze, start, end),
+});
+algorithm_registry.register({
+    id: "dls",
+    name: "Depth Limited Search",
+    short_name: "DLS",
+    description: "Depth first search that goes no further than the depth limit from start, finding nothing when the end is further away.",
+    options: [depth_limit_option],
+    raced_by_default: false,
+    create: (maze, start, end, options) => new DepthLimitedDFS(maze, start, end, options.number(depth_limit_option)),
+});
+algorithm_registry.register({
+    id: "iddfs",
+    name: "Iterative Deepening Search",
+    short_name: "IDDFS",
+    description:
+        "Repeats depth limited search with a limit one deeper every time, finding the path with the fewest steps with the memory of depth first search.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new IDDFS(maze, start, end),
+});
+algorithm_registry.register({
+    id: "gbfs",
+    name: "Greedy Best First Search",
+    short_name: "GBFS",
+    description: "Always expands the cell the heuristic thinks is closest to the end, which is fast but can lead it down dead ends.",
+    options: [heuristic_option],
+    raced_by_default: true,
+    create: (maze, start, end, options) => {
+        const alg = new GBFS(maze, start, end);
+        alg.heuristic = chosen_heuristic(maze, options);
+        return alg;
+    },
+});
+algorithm_registry.register({
+    id: "ucs",
+    name: "Uniform Cost Search",
+    short_name: "UCS",
+    description: "Dijkstra's algorithm, expands the cheapest cell to reach first and so finds the cheapest path.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new UCS(maze, start, end),
+});
+algorithm_registry.register({
+    id: "a*",
+    name: "A*",
+    short_name: "A*",
+    description:
+        "Expands the cell with the cheapest cost so far plus heuristic estimate first, a weight above 1 trusting the estimate more at the risk of a costlier path.",
+    options: [heuristic_option, weight_option],
+    raced_by_default: true,
+    create: (maze, start, end, options) => {
+        const alg = new ASTAR(maze, start, end);
+        alg.heuristic = chosen_heuristic(maze, options);
+        alg.weight = options.number(weight_option);
+        return alg;
+    },
+});
+algorithm_registry.register({
+    id: "jps",
+    name: "Jump Point Search",
+    short_name: "JPS",
+    description: "A* that scans along straight lines and only expands the jump points where the path has to turn.",
+    options: [heuristic_option],
+    raced_by_default: false,
+    create: (maze, start, end, options) => {
+        const alg = new JPS(maze, start, end);
+        alg.heuristic = chosen_heuristic(maze, options);
+        return alg;
+    },
+});
+algorithm_registry.register({
+    id: "bidirectional bfs",
+    name: "Bidirectional Breadth First Search",
+    short_name: "Bidirectional BFS",
+    description: "Breadth first search from start and from end at once, stopping where the two searches meet.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new BidirectionalBFS(maze, start, end),
+});
+algorithm_registry.register({
+    id: "bidirectional a*",
+    name: "Bidirectional A*",
+    short_name: "Bidirectional A*",
+    description: "A* from start and from end at once, each side guided by the heuristic distance to its own target.",
+    options: [heuristic_option],
+    raced_by_default: false,
+    create: (maze, start, end, options) => {
+        const alg = new BidirectionalASTAR(maze, start, end);
+        alg.heuristic = chosen_heuristic(maze, options);
+        return alg;
+    },
+});
+algorithm_registry.register({
+    id: "lpa*",
+    name: "LPA*",
+    short_name: "LPA*",
+    description: "Lifelong planning A*, repairs its path when walls change instead of searching again from scratch.",
+    options: [heuristic_option],
+    raced_by_default: false,
+    create: (maze, start, end, options) => {
+        const alg = new LPASTAR(maze, start, end);
+        alg.heuristic = chosen_heuristic(maze, options);
+        return alg;
+    },
+});
+algorithm_registry.register({
+    id: "d* lite",
+    name: "D* Lite",
+    short_name: "D* Lite",
+    description: "Searches backwards from the end and repairs its path when walls change or the end moves.",
+    options: [heuristic_option],
+    raced_by_default: false,
+    create: (maze, start, end, options) => {
+        const alg = new DStarLite(maze, start, end);
+        alg.heuristic = chosen_heuristic(maze, options);
+        return alg;
+    },
+});
+algorithm_registry.register({
+    id: "left wall follower",
+    name: "Left Hand Wall Follower",
+    short_name: "Left Hand",
+    description: "An agent that keeps its left hand on the wall, which only reaches the end if it lies along the same wall as start.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new WallFollower(maze, start, end, true),
+});
+algorithm_registry.register({
+    id: "right wall follower",
+    name: "Right Hand Wall Follower",
+    short_name: "Right Hand",
+    description: "An agent that keeps its right hand on the wall, which only reaches the end if it lies along the same wall as start.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new WallFollower(maze, start, end, false),
+});
+algorithm_registry.register({
+    id: "pledge",
+    name: "Pledge",
+    short_name: "Pledge",
+    description:
+        "An agent that walks in a preferred direction and follows walls only until it has turned back to it, which keeps it from circling islands.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new Pledge(maze, start, end),
+});
+algorithm_registry.register({
+    id: "tremaux",
+    name: "Trémaux",
+    short_name: "Trémaux",
+    description: "An agent that marks the passages it walks and never takes a passage marked twice, which solves every maze.",
+    options: [],
+    raced_by_default: false,
+    create: (maze, start, end) => new Tremaux(maze, start, end),
+});
@@ -0,0 +1,181 @@
+import { Coordinate, Maze } from "./maze";
+import { MazeGenerator, generate_maze } from "./maze_generator";
+import { MazeSolvingAlgorithm } from "./solving_algorithm";
+import { RaceContestant } from "./race";
+import { RunStatistics, cheapest_path_cost } from "./statistics";
+import { Topology } from "./topology";
+export { Benchmark, BenchmarkRow, benchmark, benchmark_csv, benchmark_maze_count, max_benchmark_mazes };
+
+/**
+ * How one algorithm did over every maze of a benchmark, averages of the path only count the mazes it found a path in
+ */
+type BenchmarkRow = {
+    name: string;
+    runs: number;
+    paths_found: number;
+    optimal_paths: number;
+    average_nodes_expanded: number;
+    average_peak_frontier: number;
+    average_path_length: number;
+    average_path_cost: number;
+    /** Milliseconds */
+    average_time: number;
+};
+
+/** Most mazes a benchmark runs on */
+const max_benchmark_mazes = 1000;
+
+function average(values: number[]) {
+    return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Benchmarks contestants on maze_count mazes made by the generators create_generator returns, a maze at a time.
+ * It only runs for as long as it is told to at once, so that a page running it in chunks stays responsive even when single runs take long.
+ */
+class Benchmark {
+    readonly contestants: RaceContestant[];
+    readonly maze_count: number;
+    private readonly create_generator: () => MazeGenerator;
+    private readonly topology: Topology;
+    private readonly runs: RunStatistics[][];
+    /** Number of mazes generated so far */
+    private mazes_generated = 0;
+    /** The maze being run on, with the contestants still to run on it, undefined before the next maze is generated */
+    private current: { maze: Maze; start: Coordinate; end: Coordinate; optimal_cost: number | undefined; contestant: number } | undefined =
+        undefined;
+    /** The run in progress, undefined before the next contestant starts */
+    private run: { alg: MazeSolvingAlgorithm; statistics: RunStatistics } | undefined = undefined;
+
+    constructor(contestants: RaceContestant[], create_generator: () => MazeGenerator, maze_count: number, topology: Topology) {
+        this.contestants = contestants;
+        this.create_generator = create_generator;
+        this.maze_count = maze_count;
+        this.topology = topology;
+        this.runs = contestants.map(() => []);
+    }
+
+    public is_finished() {
+        return this.current === undefined && (this.mazes_generated >= this.maze_count || this.contestants.length === 0);
+    }
+
+    /**
+     * Number of runs of a contestant on a maze finished so far, mazes without start or end counting as every contestant having run on them
+     */
+    public runs_done() {
+        const current = this.current;
+        const mazes_done = current === undefined ? this.mazes_generated : this.mazes_generated - 1;
+        return mazes_done * this.contestants.length + (current?.contestant ?? 0);
+    }
+
+    public total_runs() {
+        return this.maze_count * this.contestants.length;
+    }
+
+    /**
+     * Keeps running until the given number of milliseconds passed or the benchmark finished, returning whether it finished
+     */
+    public run_for(milliseconds: number) {
+        const started = performance.now();
+        while (!this.is_finished() && performance.now() - started < milliseconds) this.advance();
+        return this.is_finished();
+    }
+
+    /**
+     * Generates the next maze, starts the next run or takes a step of the run in progress
+     */
+    private advance() {
+        const current = this.current;
+        if (current === undefined) {
+            const maze = generate_maze(this.create_generator());
+            maze.topology = this.topology;
+            this.mazes_generated++;
+            if (maze.start === undefined || maze.end === undefined) return;
+            this.current = {
+                maze: maze,
+                start: maze.start,
+                end: maze.end,
+                optimal_cost: cheapest_path_cost(maze, maze.start, maze.end),
+                contestant: 0,
+            };
+            return;
+        }
+        const run = this.run;
+        if (run === undefined) {
+            this.run = {
+                alg: this.contestants[current.contestant].create(current.maze, current.start, current.end),
+                statistics: new RunStatistics(current.optimal_cost),
+            };
+            return;
+        }
+        run.statistics.step(run.alg);
+        if (!run.statistics.finished) return;
+        this.runs[current.contestant].push(run.statistics);
+        this.run = undefined;
+        current.contestant++;
+        if (current.contestant === this.contestants.length) this.current = undefined;
+    }
+
+    /**
+     * How every contestant did on the mazes run so far
+     */
+    public rows(): BenchmarkRow[] {
+        return this.contestants.map((contestant, index) => {
+            const runs = this.runs[index];
+            const found = runs.filter((statistics) => statistics.path !== undefined);
+            return {
+                name: contestant.name,
+                runs: runs.length,
+                paths_found: found.length,
+                optimal_paths: found.filter((statistics) => statistics.is_optimal()).length,
+                average_nodes_expanded: average(runs.map((statistics) => statistics.nodes_expanded)),
+                average_peak_frontier: average(runs.map((statistics) => statistics.peak_frontier)),
+                average_path_length: average(found.map((statistics) => statistics.path_length() ?? 0)),
+                average_path_cost: average(found.map((statistics) => statistics.path_cost ?? 0)),
+                average_time: average(runs.map((statistics) => statistics.elapsed)),
+            };
+        });
+    }
+}
+
+/**
+ * Runs every contestant to completion without animation on each of maze_count mazes made by the generators create_generator returns
+ */
+function benchmark(
+    contestants: RaceContestant[],
+    create_generator: () => MazeGenerator,
+    maze_count: number,
+    topology: Topology,
+): BenchmarkRow[] {
+    const run = new Benchmark(contestants, create_generator, maze_count, topology);
+    run.run_for(Infinity);
+    return run.rows();
+}
+
+/**
+ * The number of mazes a benchmark is asked to run on as a whole number it can run on, anything that is not a number being 1
+ */
+function benchmark_maze_count(value: number) {
+    return Math.min(Math.max(Math.floor(value) || 1, 1), max_benchmark_mazes);
+}
+
+/**
+ * The rows as comma separated values with a header line, names are quoted since they may contain anything
+ */
+function benchmark_csv(rows: BenchmarkRow[]) {
+    const header = "algorithm,runs,paths found,optimal paths,nodes expanded,peak frontier,path length,path cost,time (ms)";
+    const lines = rows.map((row) =>
+        [
+            '"' + row.name.replace(/"/g, '""') + '"',
+            row.runs,
+            row.paths_found,
+            row.optimal_paths,
+            row.average_nodes_expanded.toFixed(2),
+            row.average_peak_frontier.toFixed(2),
+            row.average_path_length.toFixed(2),
+            row.average_path_cost.toFixed(2),
+            row.average_time.toFixed(3),
+        ].join(","),
+    );
+    return [header, ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,99 @@
+export { BinaryHeap };
+
+type heap_element<T> = {
+    value: T;
+    /** How many values were pushed before this one, which decides between values of equal priority */
+    order: number;
+};
+
+/**
+ * Priority queue that takes out the value that is less than every other one first, values of equal priority in the order they were pushed.
+ * Pushing and popping take logarithmic time, unlike keeping an array sorted.
+ */
+class BinaryHeap<T> {
+    readonly less: (value1: T, value2: T) => boolean;
+    private readonly elements: heap_element<T>[] = [];
+    private pushed = 0;
+
+    constructor(less: (value1: T, value2: T) => boolean) {
+        this.less = less;
+    }
+
+    public size() {
+        return this.elements.length;
+    }
+
+    /**
+     * The value pop would take out, without taking it out
+     */
+    public peek(): T | undefined {
+        return this.elements[0]?.value;
+    }
+
+    public push(value: T) {
+        this.elements.push({ value: value, order: this.pushed++ });
+        this.sift_up(this.elements.length - 1);
+    }
+
+    public pop(): T | undefined {
+        const top = this.elements[0];
+        const last = this.elements.pop();
+        if (top === undefined || last === undefined) return undefined;
+        if (this.elements.length > 0) {
+            this.elements[0] = last;
+            this.sift_down(0);
+        }
+        return top.value;
+    }
+
+    /**
+     * Every value in no particular order
+     */
+    public values() {
+        return this.elements.map((element) => element.value);
+    }
+
+    /**
+     * Drops the values that are no longer wanted and restores the order after the priorities of values were changed in place.
+     * Values keep the order they were pushed in among those of equal priority.
+     */
+    public rebuild(keep: (value: T) => boolean) {
+        const kept = this.elements.filter((element) => keep(element.value));
+        this.elements.length = 0;
+        this.elements.push(...kept);
+        for (let index = Math.floor(this.elements.length / 2) - 1; index >= 0; index--) this.sift_down(index);
+    }
+
+    private precedes(element1: heap_element<T>, element2: heap_element<T>) {
+        if (this.less(element1.value, element2.value)) return true;
+        if (this.less(element2.value, element1.value)) return false;
+        return element1.order < element2.order;
+    }
+
+    private swap(index1: number, index2: number) {
+        const element = this.elements[index1];
+        this.elements[index1] = this.elements[index2];
+        this.elements[index2] = element;
+    }
+
+    private sift_up(index: number) {
+        while (index > 0) {
+            const parent = Math.floor((index - 1) / 2);
+            if (!this.precedes(this.elements[index], this.elements[parent])) return;
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private sift_down(index: number) {
+        while (true) {
+            let first = index;
+            for (const child of [2 * index + 1, 2 * index + 2]) {
+                if (child < this.elements.length && this.precedes(this.elements[child], this.elements[first])) first = child;
+            }
+            if (first === index) return;
+            this.swap(index, first);
+            index = first;
+        }
+    }
+}
@@ -0,0 +1,301 @@
+import { Coordinate, Maze, MazeCell, coordinate_equals } from "./maze";
+export { EditHistory, MazeVersion, UndoResult, brush_cells, line_cells, rectangle_cells, flood_fill_cells };
+
+/**
+ * A maze as a whole together with what it was made from, which is what regenerating or importing a maze replaces
+ */
+type MazeVersion = {
+    maze: Maze;
+    seed: number;
+    /** Whether the maze was changed by hand since it was generated */
+    edited: boolean;
+};
+/**
+ * The maze to show after undoing or redoing an edit, and the cells the edit changed if it was made to the maze in place
+ */
+type UndoResult = {
+    version: MazeVersion;
+    changed: Coordinate[];
+};
+
+type TerrainChange = {
+    coord: Coordinate;
+    before: MazeCell;
+    after: MazeCell;
+};
+/**
+ * Where start, end, the waypoints, the portals and the agents are
+ */
+type MazeMarkers = {
+    start: Coordinate | undefined;
+    end: Coordinate | undefined;
+    waypoints: Coordinate[];
+    portals: Coordinate[];
+    agents: Coordinate[];
+};
+enum EditType {
+    CELLS_EDITED,
+    MAZE_REPLACED,
+}
+type MazeEdit =
+    | {
+          type: EditType.CELLS_EDITED;
+          changes: TerrainChange[];
+          markers_before: MazeMarkers;
+          markers_after: MazeMarkers;
+          edited_before: boolean;
+      }
+    | { type: EditType.MAZE_REPLACED; before: MazeVersion; after: MazeVersion };
+
+function markers_of(maze: Maze): MazeMarkers {
+    return {
+        start: maze.start === undefined ? undefined : { ...maze.start },
+        end: maze.end === undefined ? undefined : { ...maze.end },
+        waypoints: maze.waypoints.map((waypoint) => ({ ...waypoint })),
+        portals: maze.portals.map((portal) => ({ ...portal })),
+        agents: maze.agents.map((agent) => ({ ...agent })),
+    };
+}
+function markers_equal(markers1: MazeMarkers, markers2: MazeMarkers) {
+    return (
+        coordinate_equals(markers1.start, markers2.start) &&
+        coordinate_equals(markers1.end, markers2.end) &&
+        markers1.waypoints.length === markers2.waypoints.length &&
+        markers1.waypoints.every((waypoint, index) => coordinate_equals(waypoint, markers2.waypoints[index])) &&
+        markers1.portals.length === markers2.portals.length &&
+        markers1.portals.every((portal, index) => coordinate_equals(portal, markers2.portals[index])) &&
+        markers1.agents.length === markers2.agents.length &&
+        markers1.agents.every((agent, index) => coordinate_equals(agent, markers2.agents[index]))
+    );
+}
+function set_markers(maze: Maze, markers: MazeMarkers) {
+    maze.start = markers.start === undefined ? undefined : { ...markers.start };
+    maze.end = markers.end === undefined ? undefined : { ...markers.end };
+    maze.waypoints = markers.waypoints.map((waypoint) => ({ ...waypoint }));
+    maze.portals = markers.portals.map((portal) => ({ ...portal }));
+    maze.agents = markers.agents.map((agent) => ({ ...agent }));
+}
+
+/**
+ * The cells a brush of the given size covers around a cell, a square that reaches further right and down when the size is even
+ */
+function brush_cells(maze: Maze, center: Coordinate, size: number) {
+    const cells: Coordinate[] = [];
+    const reach_before = Math.floor((size - 1) / 2);
+    for (let dx = -reach_before; dx < size - reach_before; dx++) {
+        for (let dy = -reach_before; dy < size - reach_before; dy++) {
+            const coord = { x: center.x + dx, y: center.y + dy };
+            if (maze.is_in_bounds(coord)) cells.push(coord);
+        }
+    }
+    return cells;
+}
+
+/**
+ * The cells on the straight line between two cells, both included, without gaps where the line crosses a corner (Bresenham's algorithm)
+ */
+function line_cells(from: Coordinate, to: Coordinate) {
+    const cells: Coordinate[] = [];
+    const dx = Math.abs(to.x - from.x);
+    const dy = -Math.abs(to.y - from.y);
+    const step_x = from.x < to.x ? 1 : -1;
+    const step_y = from.y < to.y ? 1 : -1;
+    let error = dx + dy;
+    for (let current = { ...from }; ;) {
+        cells.push({ ...current });
+        if (coordinate_equals(current, to)) return cells;
+        const doubled_error = 2 * error;
+        if (doubled_error >= dy) {
+            error += dy;
+            current.x += step_x;
+        }
+        if (doubled_error <= dx) {
+            error += dx;
+            current.y += step_y;
+        }
+    }
+}
+
+/**
+ * The cells of the rectangle with two cells as its opposite corners, only those on its border unless it is filled
+ */
+function rectangle_cells(corner1: Coordinate, corner2: Coordinate, filled: boolean) {
+    const cells: Coordinate[] = [];
+    const left = Math.min(corner1.x, corner2.x);
+    const right = Math.max(corner1.x, corner2.x);
+    const top = Math.min(corner1.y, corner2.y);
+    const bottom = Math.max(corner1.y, corner2.y);
+    for (let i = left; i <= right; i++) {
+        for (let j = top; j <= bottom; j++) {
+            if (filled || i === left || i === right || j === top || j === bottom) cells.push({ x: i, y: j });
+        }
+    }
+    return cells;
+}
+
+/**
+ * The cells of the same terrain as a cell that can be reached from it through neighbors of that terrain, which is the region a fill paints.
+ * Only neighbors on the same floor count, whatever way conveyors point, portals leading elsewhere and stairs elsewhere.
+ */
+function flood_fill_cells(maze: Maze, start: Coordinate) {
+    const terrain = maze.get_terrain(start);
+    const filled: boolean[][] = [];
+    for (let i = 0; i < maze.width; i++) filled.push(new Array<boolean>(maze.height).fill(false));
+    filled[start.x][start.y] = true;
+    const cells = [start];
+    for (let index = 0; index < cells.length; index++) {
+        for (const neighbor of maze.get_adjacent_coordinates(cells[index])) {
+            if (filled[neighbor.x][neighbor.y] || maze.get_terrain(neighbor) !== terrain) continue;
+            filled[neighbor.x][neighbor.y] = true;
+            cells.push(neighbor);
+        }
+    }
+    return cells;
+}
+
+/**
+ * Number of cells an edit keeps in memory, every cell of both mazes for a maze that replaced another one
+ */
+function cells_kept(edit: MazeEdit) {
+    if (edit.type === EditType.MAZE_REPLACED)
+        return edit.before.maze.width * edit.before.maze.height + edit.after.maze.width * edit.after.maze.height;
+    return Math.max(edit.changes.length, 1);
+}
+
+/**
+ * Remembers the edits made to a maze so that they can be undone and redone.
+ * An edit made to the maze in place is every change between begin_edit and end_edit, such as a whole brush stroke,
+ * while a maze that replaces another one is remembered as a whole.
+ */
+class EditHistory {
+    /**
+     * Most cells the remembered edits keep in memory together, the oldest edits being forgotten once they keep more.
+     * Counting cells rather than edits bounds the memory whether the edits are strokes on a small maze or regenerations of the largest ones.
+     * The most recent edit is remembered whatever its size.
+     */
+    readonly cell_limit: number;
+    private readonly undo_stack: MazeEdit[] = [];
+    private readonly redo_stack: MazeEdit[] = [];
+    /** Cells kept by the edits of both stacks */
+    private cell_count = 0;
+    /** The edit in progress, undefined between edits */
+    private pending: { changes: TerrainChange[]; markers_before: MazeMarkers; edited_before: boolean } | undefined = undefined;
+
+    constructor(cell_limit: number) {
+        this.cell_limit = cell_limit;
+    }
+
+    public can_undo() {
+        return this.undo_stack.length > 0;
+    }
+
+    public can_redo() {
+        return this.redo_stack.length > 0;
+    }
+
+    /**
+     * Forgets every edit, for when the maze is replaced by one the edits have nothing to do with
+     */
+    public clear() {
+        this.undo_stack.length = 0;
+        this.redo_stack.length = 0;
+        this.cell_count = 0;
+        this.pending = undefined;
+    }
+
+    /**
+     * Starts collecting the changes made to the maze of the current version into a single edit
+     */
+    public begin_edit(current: MazeVersion) {
+        this.end_edit(current.maze);
+        this.pending = { changes: [], markers_before: markers_of(current.maze), edited_before: current.edited };
+    }
+
+    /**
+     * Sets the type of a cell like Maze.set_cell_type does, remembering the change of terrain as part of the edit in progress
+     */
+    public set_cell_type(maze: Maze, coord: Coordinate, cell_type: MazeCell) {
+        const before = maze.get_terrain(coord);
+        maze.set_cell_type(coord, cell_type);
+        const after = maze.get_terrain(coord);
+        if (before !== after) this.pending?.changes.push({ coord: { ...coord }, before: before, after: after });
+    }
+
+    /**
+     * Finishes the edit in progress, returning whether it changed anything worth remembering
+     */
+    public end_edit(maze: Maze) {
+        const pending = this.pending;
+        this.pending = undefined;
+        if (pending === undefined) return false;
+        const markers_after = markers_of(maze);
+        if (pending.changes.length === 0 && markers_equal(pending.markers_before, markers_after)) return false;
+        this.push({ type: EditType.CELLS_EDITED, ...pending, markers_after: markers_after });
+        return true;
+    }
+
+    /**
+     * Remembers that a maze replaced another one, as regenerating or importing a maze does
+     */
+    public maze_replaced(before: MazeVersion, after: MazeVersion) {
+        this.pending = undefined;
+        this.push({ type: EditType.MAZE_REPLACED, before: before, after: after });
+    }
+
+    private push(edit: MazeEdit) {
+        for (const undone of this.redo_stack) this.cell_count -= cells_kept(undone);
+        this.redo_stack.length = 0;
+        this.undo_stack.push(edit);
+        this.cell_count += cells_kept(edit);
+        while (this.cell_count > this.cell_limit && this.undo_stack.length > 1) {
+            const forgotten = this.undo_stack.shift();
+            if (forgotten !== undefined) this.cell_count -= cells_kept(forgotten);
+        }
+    }
+
+    /**
+     * Reverts the most recent edit, undefined if there is none
+     */
+    public undo(current: MazeVersion): UndoResult | undefined {
+        this.end_edit(current.maze);
+        const edit = this.undo_stack.pop();
+        if (edit === undefined) return undefined;
+        this.redo_stack.push(edit);
+        if (edit.type === EditType.MAZE_REPLACED) return { version: edit.before, changed: [] };
+        for (const change of edit.changes.slice().reverse()) current.maze.set_terrain(change.coord, change.before);
+        set_markers(current.maze, edit.markers_before);
+        return {
+            version: { maze: current.maze, seed: current.seed, edited: edit.edited_before },
+            changed: this.changed_cells(edit.changes, edit.markers_before, edit.markers_after),
+        };
+    }
+
+    /**
+     * Makes the most recently undone edit again, undefined if there is none
+     */
+    public redo(current: MazeVersion): UndoResult | undefined {
+        this.end_edit(current.maze);
+        const edit = this.redo_stack.pop();
+        if (edit === undefined) return undefined;
+        this.undo_stack.push(edit);
+        if (edit.type === EditType.MAZE_REPLACED) return { version: edit.after, changed: [] };
+        for (const change of edit.changes) current.maze.set_terrain(change.coord, change.after);
+        set_markers(current.maze, edit.markers_after);
+        return {
+            version: { maze: current.maze, seed: current.seed, edited: true },
+            changed: this.changed_cells(edit.changes, edit.markers_before, edit.markers_after),
+        };
+    }
+
+    /**
+     * Every cell whose terrain changed or that start, end, a waypoint, a portal or an agent moved from or to
+     */
+    private changed_cells(changes: TerrainChange[], markers_before: MazeMarkers, markers_after: MazeMarkers) {
+        const cells = changes.map((change) => change.coord);
+        for (const markers of [markers_before, markers_after]) {
+            for (const coord of [markers.start, markers.end, ...markers.waypoints, ...markers.portals, ...markers.agents])
+                if (coord !== undefined) cells.push(coord);
+        }
+        return cells;
+    }
+}
@@ -0,0 +1,84 @@
+import { Coordinate, Maze } from "./maze";
+import { SolverEventType } from "./solving_algorithm";
+import { Timeline } from "./timeline";
+import { BinaryHeap } from "./binary_heap";
+export { HeatMap, HeatMapType };
+
+enum HeatMapType {
+    /** Cells expanded early are cold and those expanded most recently hot */
+    EXPANSION_ORDER,
+    /** Cells close to start are cold and those the cheapest path from start costs the most to reach hot */
+    DISTANCE_FROM_START,
+}
+
+/**
+ * Cost of the cheapest path from start to every cell, Infinity for the cells that cannot be reached
+ */
+function costs_from(maze: Maze, start: Coordinate) {
+    const costs: number[][] = [];
+    for (let i = 0; i < maze.width; i++) costs.push(new Array<number>(maze.height).fill(Infinity));
+    costs[start.x][start.y] = 0;
+    const frontier = new BinaryHeap<{ coord: Coordinate; cost: number }>((a, b) => a.cost < b.cost);
+    frontier.push({ coord: start, cost: 0 });
+    for (let element = frontier.pop(); element !== undefined; element = frontier.pop()) {
+        if (element.cost > costs[element.coord.x][element.coord.y]) continue;
+        for (const neighbor of maze.get_neighboring_coordinates(element.coord)) {
+            if (!maze.is_passable(neighbor)) continue;
+            const cost = element.cost + maze.move_cost(element.coord, neighbor);
+            if (cost >= costs[neighbor.x][neighbor.y]) continue;
+            costs[neighbor.x][neighbor.y] = cost;
+            frontier.push({ coord: neighbor, cost: cost });
+        }
+    }
+    return costs;
+}
+
+/**
+ * How hot each cell a search expanded is, between 0 for the coldest and 1 for the hottest, so that the shape of the search shows at a glance.
+ * Only cells expanded by the steps of the timeline applied so far have a heat, which follows the timeline as it is stepped back and forth.
+ */
+class HeatMap {
+    readonly timeline: Timeline;
+    readonly type: HeatMapType;
+    /** Step of the timeline each cell was first expanded in, undefined if it has not been */
+    private readonly expanded_step: (number | undefined)[][] = [];
+    /** Number of steps of the timeline already looked through for expanded cells */
+    private steps_read = 0;
+    private readonly costs: number[][];
+    /** Cost of reaching the cell furthest from start, which is the hottest */
+    private readonly largest_cost: number;
+
+    constructor(timeline: Timeline, start: Coordinate, type: HeatMapType) {
+        this.timeline = timeline;
+        this.type = type;
+        const maze = timeline.maze;
+        for (let i = 0; i < maze.width; i++) this.expanded_step.push(new Array<number | undefined>(maze.height).fill(undefined));
+        this.costs = type === HeatMapType.DISTANCE_FROM_START ? costs_from(maze, start) : [];
+        let largest_cost = 0;
+        for (const column of this.costs) for (const cost of column) if (cost !== Infinity) largest_cost = Math.max(largest_cost, cost);
+        this.largest_cost = largest_cost;
+    }
+
+    /**
+     * Heat of a cell, undefined if the search has not expanded it as of the applied step of the timeline
+     */
+    public heat(coord: Coordinate): number | undefined {
+        this.read_new_steps();
+        const step = this.expanded_step[coord.x][coord.y];
+        if (step === undefined || step >= this.timeline.position) return undefined;
+        if (this.type === HeatMapType.EXPANSION_ORDER) return this.timeline.position <= 1 ? 1 : step / (this.timeline.position - 1);
+        const cost = this.costs[coord.x][coord.y];
+        if (cost === Infinity) return undefined;
+        return this.largest_cost === 0 ? 0 : cost / this.largest_cost;
+    }
+
+    private read_new_steps() {
+        for (; this.steps_read < this.timeline.steps.length; this.steps_read++) {
+            for (const event of this.timeline.steps[this.steps_read].events) {
+                if (event.type !== SolverEventType.CELL_EXPLORED) continue;
+                if (this.expanded_step[event.coord.x][event.coord.y] === undefined)
+                    this.expanded_step[event.coord.x][event.coord.y] = this.steps_read;
+            }
+        }
+    }
+}
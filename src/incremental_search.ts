@@ -0,0 +1,249 @@
+import { Coordinate, Maze, coordinate_equals } from "./maze";
+import { CellInspection, MazeSolvingAlgorithm, SolverEvent, SolverEventType } from "./solving_algorithm";
+import { BinaryHeap } from "./binary_heap";
+export { LPASTAR, DStarLite };
+
+/** Compared first by the estimated cost of a path through the cell and then by the cost of reaching it */
+type lpa_key = [number, number];
+type lpa_frontier_element = {
+    coord: Coordinate;
+    key: lpa_key;
+};
+
+/**
+ * Estimates that differ by less than this count as equal. Costs of diagonal moves are not whole numbers,
+ * so the same estimate reached by adding the moves up in another order can be off in its last digit.
+ */
+const key_tolerance = 1e-9;
+
+function key_less(key1: lpa_key, key2: lpa_key) {
+    return key1[0] < key2[0] - key_tolerance || (Math.abs(key1[0] - key2[0]) <= key_tolerance && key1[1] < key2[1]);
+}
+
+/**
+ * Lifelong Planning A*, an A* that keeps what it learnt after finding a path so that it can repair the path when the maze changes.
+ * Every cell has g, the cost from start it was last expanded with, and rhs, the cheapest cost its neighbors' g values allow.
+ * Cells whose two values disagree are inconsistent and wait in the frontier, so a change only puts the cells it affects back in the frontier
+ * and the repair only expands the cells whose cost from start actually changed.
+ */
+class LPASTAR extends MazeSolvingAlgorithm {
+    heuristic: (arg1: Coordinate, arg2: Coordinate) => number = (coord1, coord2) => this.maze.distance(coord1, coord2);
+    /** Cells taken out of the frontier stay in the heap until they come up, only the element in queued is the cell's current one */
+    search_frontier = new BinaryHeap<lpa_frontier_element>((element1, element2) => key_less(element1.key, element2.key));
+
+    protected readonly g: number[][] = [];
+    protected readonly rhs: number[][] = [];
+    /** Cells changed since the last step, whose neighborhood the next step puts back in the frontier */
+    private changed_cells: Coordinate[] = [];
+    /** Where the end was before it was moved, undefined unless it moved since the last step */
+    private previous_end: Coordinate | undefined = undefined;
+    /** The frontier element of each cell that is in the frontier */
+    private readonly queued: (lpa_frontier_element | undefined)[][] = [];
+    private queued_count = 0;
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        for (let i = 0; i < maze.width; i++) {
+            this.g.push(new Array<number>(maze.height).fill(Infinity));
+            this.rhs.push(new Array<number>(maze.height).fill(Infinity));
+            this.queued.push(new Array<lpa_frontier_element | undefined>(maze.height).fill(undefined));
+        }
+        this.rhs[start.x][start.y] = 0;
+        // Both g and rhs of start are known without a heuristic, so its key does not depend on subclasses being initialized yet
+        this.insert({ coord: start, key: [0, 0] });
+    }
+
+    public frontier_size() {
+        return this.queued_count;
+    }
+
+    /**
+     * Tells the search that the terrain of some cells changed, it repairs its path from the next step on
+     */
+    public cells_changed(coords: Coordinate[]) {
+        this.changed_cells.push(...coords);
+        this.search_ended = false;
+        this.final_searched_cell = undefined;
+    }
+
+    /**
+     * Moves the end, which only changes the estimates since the cost of every cell from start stays the same
+     */
+    public move_end(end: Coordinate) {
+        if (coordinate_equals(end, this.end)) return;
+        if (this.previous_end === undefined) this.previous_end = this.end;
+        this.end = end;
+        this.search_ended = false;
+        this.final_searched_cell = undefined;
+    }
+
+    public inspect(coord: Coordinate): CellInspection | undefined {
+        const cost = Math.min(this.g[coord.x][coord.y], this.rhs[coord.x][coord.y]);
+        if (cost === Infinity) return undefined;
+        const h = this.heuristic(this.end, coord);
+        return { g: cost, h: h, f: cost + h, parent: this.cheapest_arrival(coord).from };
+    }
+
+    protected key(coord: Coordinate): lpa_key {
+        const cost = Math.min(this.g[coord.x][coord.y], this.rhs[coord.x][coord.y]);
+        return [cost + this.heuristic(this.end, coord), cost];
+    }
+
+    /**
+     * Brings the frontier up to date with a moved end, every key being estimated towards the old end
+     */
+    protected end_moved(previous_end: Coordinate) {
+        for (const element of this.search_frontier.values()) element.key = this.key(element.coord);
+        this.search_frontier.rebuild((element) => this.is_queued(element));
+    }
+
+    public step(): SolverEvent[] {
+        if (this.changed_cells.length > 0 || this.previous_end !== undefined) return this.replan();
+        if (this.search_ended) return [];
+
+        const end_key = this.key(this.end);
+        while (true) {
+            let top = this.search_frontier.peek();
+            while (top !== undefined && !this.is_queued(top)) {
+                this.search_frontier.pop();
+                top = this.search_frontier.peek();
+            }
+            const end_consistent = this.g[this.end.x][this.end.y] === this.rhs[this.end.x][this.end.y];
+            if ((top === undefined || !key_less(top.key, end_key)) && end_consistent) {
+                const path = this.g[this.end.x][this.end.y] === Infinity ? undefined : this.cheapest_path();
+                return [path === undefined ? this.end_not_found() : this.path_found(path)];
+            }
+            if (top === undefined) return [this.end_not_found()];
+            this.dequeue(top.coord);
+
+            // Keys estimated before the end moved may be too low, such a cell goes back in with its current key instead of being expanded
+            const key = this.key(top.coord);
+            if (key_less(top.key, key)) {
+                this.insert({ coord: top.coord, key: key });
+                continue;
+            }
+            return this.expand(top.coord);
+        }
+    }
+
+    private expand(coord: Coordinate) {
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: coord }];
+        if (this.g[coord.x][coord.y] > this.rhs[coord.x][coord.y]) {
+            this.g[coord.x][coord.y] = this.rhs[coord.x][coord.y];
+        } else {
+            // The cell got more expensive, so it and everything reached through it has to be reconsidered
+            this.g[coord.x][coord.y] = Infinity;
+            this.update_cell(coord, events);
+        }
+        for (const neighbor of this.maze.get_neighboring_coordinates(coord)) this.update_cell(neighbor, events);
+        return events;
+    }
+
+    /**
+     * Starts repairing the path after cells changed or the end moved, putting every cell whose rhs may have changed back in the frontier
+     */
+    private replan(): SolverEvent[] {
+        const events: SolverEvent[] = [{ type: SolverEventType.REPLANNING_STARTED }];
+        if (this.previous_end !== undefined) this.end_moved(this.previous_end);
+        this.previous_end = undefined;
+        for (const changed of this.changed_cells) {
+            for (const coord of this.affected_cells(changed)) this.update_cell(coord, events);
+        }
+        this.changed_cells = [];
+        return events;
+    }
+
+    /**
+     * The cells whose moves from their neighbors a change of a cell can affect: the cell itself, every cell it may have a move to
+     * as a conveyor or stairs, and the cells around it, whose diagonal moves depend on it when corners cannot be cut
+     */
+    private affected_cells(changed: Coordinate) {
+        const cells = this.maze.get_linked_coordinates(changed);
+        cells.push(changed);
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                const coord = { x: changed.x + dx, y: changed.y + dy };
+                if (this.maze.is_in_bounds(coord)) cells.push(coord);
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Recomputes the rhs of a cell and puts it in the frontier if it is inconsistent or takes it out if it is not
+     */
+    private update_cell(coord: Coordinate, events: SolverEvent[]) {
+        if (!coordinate_equals(coord, this.start)) this.rhs[coord.x][coord.y] = this.cheapest_arrival(coord).cost;
+        this.dequeue(coord);
+        if (this.g[coord.x][coord.y] === this.rhs[coord.x][coord.y]) return;
+        this.insert({ coord: coord, key: this.key(coord) });
+        events.push({ type: SolverEventType.CELL_ACTIVE, coord: coord });
+    }
+
+    /**
+     * The cheapest way onto a cell from any of the cells with a move to it according to their g values, and the cell it comes from
+     */
+    private cheapest_arrival(coord: Coordinate) {
+        let cheapest: { cost: number; from: Coordinate | undefined } = { cost: Infinity, from: undefined };
+        if (!this.maze.is_passable(coord)) return cheapest;
+        for (const neighbor of this.maze.get_predecessor_coordinates(coord)) {
+            if (!this.maze.is_passable(neighbor)) continue;
+            const cost = this.g[neighbor.x][neighbor.y] + this.maze.move_cost(neighbor, coord);
+            if (cost < cheapest.cost) cheapest = { cost: cost, from: neighbor };
+        }
+        return cheapest;
+    }
+
+    /**
+     * Walks back from the end to start through the cheapest neighbors, which is the cheapest path once the end is consistent
+     */
+    private cheapest_path() {
+        const path = [this.end];
+        for (let current = this.end; !coordinate_equals(current, this.start);) {
+            const from = this.cheapest_arrival(current).from;
+            if (from === undefined || path.length > this.maze.width * this.maze.height) return undefined;
+            path.push(from);
+            current = from;
+        }
+        return path.reverse();
+    }
+
+    private is_queued(element: lpa_frontier_element) {
+        return this.queued[element.coord.x][element.coord.y] === element;
+    }
+
+    private insert(element: lpa_frontier_element) {
+        this.dequeue(element.coord);
+        this.queued[element.coord.x][element.coord.y] = element;
+        this.queued_count++;
+        this.search_frontier.push(element);
+    }
+
+    /**
+     * Takes a cell out of the frontier, its element being skipped once it comes up in the heap
+     */
+    private dequeue(coord: Coordinate) {
+        if (this.queued[coord.x][coord.y] === undefined) return;
+        this.queued[coord.x][coord.y] = undefined;
+        this.queued_count--;
+    }
+}
+
+/**
+ * D* Lite, which handles a moving end without touching the frontier: rather than estimating every key again towards the new end,
+ * it adds how far the end moved to every key from then on, so that the older keys are merely too low and get corrected when they come up.
+ * It searches from start like LPA*, the end playing the part of the robot that moves in the original algorithm.
+ */
+class DStarLite extends LPASTAR {
+    /** Sum of the distances the end has moved, added to every key */
+    private key_modifier = 0;
+
+    protected key(coord: Coordinate): lpa_key {
+        const [estimate, cost] = super.key(coord);
+        return [estimate + this.key_modifier, cost];
+    }
+
+    protected end_moved(previous_end: Coordinate) {
+        this.key_modifier += this.heuristic(previous_end, this.end);
+    }
+}
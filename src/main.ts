@@ -1,195 +1,662 @@
-import { MazeSolvingAlgorithm, GBFS, BFS, ASTAR } from "./solving_algorithm";
-export { Coordinate, canvas_refresh, config, maze, coordinate_equals, ctx, euclidean_distance, cell_width, cell_height, calculate_delay, coordinate_frequency, normalize_audio, VisualizationConfig, Maze, MazeCell, searched_cell };
+import {
+    Coordinate,
+    MazeConfig,
+    Maze,
+    MazeCell,
+    euclidean_distance,
+    coordinate_equals,
+    default_terrain_costs,
+    conveyor_direction,
+} from "./maze";
+import {
+    MazeSolvingAlgorithm,
+    ASTAR,
+    JPS,
+    DepthLimitedDFS,
+    SolverEvent,
+    SolverEventType,
+    apply_solver_event,
+} from "./solving_algorithm";
+import {
+    MazeGenerator,
+    NoiseGenerator,
+    RecursiveBacktracker,
+    PrimGenerator,
+    KruskalGenerator,
+    WilsonGenerator,
+    EllerGenerator,
+    FloorsGenerator,
+    GeneratorEvent,
+    GeneratorEventType,
+    apply_generator_event,
+    generate_maze,
+} from "./maze_generator";
+import { Timeline } from "./timeline";
+import { HeatMap, HeatMapType } from "./heat_map";
+import { Palette, classic_palette, themes, legend_entries, cell_color, heat_color } from "./palette";
+import { SoundEngine, SoundType, scales } from "./sound";
+import { EditHistory, MazeVersion, UndoResult, brush_cells, line_cells, rectangle_cells, flood_fill_cells } from "./editor";
+import { MazeAgent, AgentPose } from "./maze_agent";
+import { LPASTAR } from "./incremental_search";
+import {
+    AlgorithmDefinition,
+    AlgorithmOption,
+    OptionType,
+    OptionValues,
+    algorithm_registry,
+    depth_limit_option,
+    heuristic_option,
+    weight_option,
+} from "./algorithm_registry";
+import { CustomSolver, create_sandbox_worker, example_step_function } from "./sandbox";
+import { WaypointSearch, visiting_order, route_cost } from "./waypoints";
+import { Race, RaceContestant } from "./race";
+import { RunStatistics, cheapest_path_cost, count_nodes_expanded } from "./statistics";
+import { Benchmark, BenchmarkRow, benchmark_csv, benchmark_maze_count } from "./benchmark";
+import { seeded_random, random_seed } from "./random";
+import { SharedState, encode_state, decode_state, encode_terrain, decode_terrain } from "./share";
+import { Topology, SquareTopology, DiagonalTopology, HexTopology, TorusTopology } from "./topology";
+import {
+    ImportResult,
+    maze_to_ascii,
+    maze_from_ascii,
+    maze_to_json,
+    maze_from_json,
+    maze_from_pixels,
+    ascii_export_warning,
+    topology_name,
+} from "./maze_file";
+import { PathCell, RunReplay, path_cells, stays_visible_under_path, arrow_points, frame_count, run_to_svg } from "./run_export";
+import { ZipEntry, zip_files } from "./zip";
+import { MazeLibrary, SavedMaze, LibraryResult } from "./maze_library";
+import { preset_mazes, preset_maze } from "./preset_mazes";
+import { PlannerType, Conflict, agent_goals, plan_agents, position_at, sum_of_costs, makespan } from "./multi_agent";
 
-enum MazeCell {
-    FLOOR,
-    WALL,
-    ACTIVE,
-    EXPLORED,
-}
-type Coordinate = {
-    x: number;
-    y: number;
-};
-function manhattan_distance(coord1: Coordinate, coord2: Coordinate) {
-    return Math.abs(coord1.x - coord2.x) + Math.abs(coord1.y - coord2.y);
-}
-function euclidean_distance(coord1: Coordinate, coord2: Coordinate) {
-    return Math.sqrt((coord1.x - coord2.x) * (coord1.x - coord2.x) + (coord1.y - coord2.y) * (coord1.y - coord2.y));
-}
-function coordinate_frequency(coord: Coordinate) {
-    return euclidean_distance(coord, { x: maze.width, y: maze.height });
-}
-function coordinate_equals(coord1: Coordinate | undefined, coord2: Coordinate | undefined) {
-    return coord1?.x === coord2?.x && coord1?.y === coord2?.y;
-}
-function coordinate_random(x: number, y: number): Coordinate {
-    return {
-        x: Math.floor(Math.random() * x),
-        y: Math.floor(Math.random() * y),
-    };
-}
-type searched_cell = {
-    coord: Coordinate;
-    prev_cell: searched_cell | undefined;
-};
-class Maze {
-    readonly height: number;
-    readonly width: number;
-    readonly floor_likelihood = 0.6;
-    readonly maze: MazeCell[][] = [];
-    start: Coordinate | undefined;
-    end: Coordinate | undefined;
-
-    constructor(config: MazeConfig) {
-        this.height = config.grid_height;
-        this.width = config.grid_width;
-        this.start = undefined;
-        this.end = undefined;
-        this.regenerate();
-    }
-    public get_cell_type(coordinate: Coordinate) {
-        return this.maze[coordinate.x][coordinate.y];
-    }
-    public set_cell_type(coordinate: Coordinate, cell_type: MazeCell) {
-        if (coordinate_equals(this.start, coordinate) || coordinate_equals(this.end, coordinate)) return;
-        this.maze[coordinate.x][coordinate.y] = cell_type;
-    }
-    public get_neighboring_coordinates(coordinate: Coordinate) {
-        const neighbors = [];
-        if (coordinate.x + 1 <= this.width - 1) neighbors.push({ x: coordinate.x + 1, y: coordinate.y });
-        if (coordinate.y + 1 <= this.width - 1) neighbors.push({ x: coordinate.x, y: coordinate.y + 1 });
-        if (coordinate.x - 1 >= 0) neighbors.push({ x: coordinate.x - 1, y: coordinate.y });
-        if (coordinate.y - 1 >= 0) neighbors.push({ x: coordinate.x, y: coordinate.y - 1 });
-        return neighbors;
-    }
-    public regenerate() {
-        this.start = coordinate_random(this.width, this.height);
-        this.end = coordinate_random(this.width, this.height);
-        this.maze.length = 0;
-        for (let i = 0; i < this.width; i++) {
-            const column: MazeCell[] = [];
-            for (let j = 0; j < this.height; j++) {
-                let cell: MazeCell;
-                if (Math.random() < this.floor_likelihood) {
-                    cell = MazeCell.FLOOR;
-                } else {
-                    cell = MazeCell.WALL;
-                }
-                column.push(cell);
-            }
-            this.maze.push(column);
-        }
-        this.set_cell_type(this.start, MazeCell.EXPLORED);
-        this.set_cell_type(this.end, MazeCell.FLOOR);
-    }
-    public reload() {
-        for (let i = 0; i < this.width; i++) {
-            for (let j = 0; j < this.height; j++) {
-                if (this.maze[i][j] == MazeCell.ACTIVE || this.maze[i][j] == MazeCell.EXPLORED)
-                    this.set_cell_type({ x: i, y: j }, MazeCell.FLOOR);
-            }
-        }
-    }
-}
 type ClickEvent = {
     mouse_down: boolean;
     start_coordinate: Coordinate;
+    /** Position of the mouse on the canvas in pixels */
     current_coordinate: Coordinate;
     current_nearest_coordinate: Coordinate;
     is_dragging_start: boolean;
     is_dragging_end: boolean;
+    /** Index of the waypoint being dragged, undefined if none is */
+    dragged_waypoint: number | undefined;
+    /** Whether the click places a waypoint instead of painting terrain */
+    placing_waypoint: boolean;
+    /** Index of the portal being dragged, undefined if none is */
+    dragged_portal: number | undefined;
+    /** Whether the click places a portal instead of painting terrain */
+    placing_portal: boolean;
+    /** Index of the start or goal of an agent being dragged, which is removed along with the rest of its agent if it is only clicked */
+    dragged_agent: number | undefined;
+    placing_agent: boolean;
     brush_type: MazeCell;
+    /** The editing tool chosen when the pointer went down */
+    tool: string;
+    /** Cell the brush painted at most recently during a stroke */
+    last_painted: Coordinate;
 };
-type MazeConfig = {
-    grid_width: number;
-    grid_height: number;
+/**
+ * Agents moving along the plans a multi-agent planner made, all of them taking a move at every timestep
+ */
+type MultiAgentRun = {
+    plans: Coordinate[][];
+    /** Collisions between the plans, which only the independent planner lets happen */
+    conflicts: Conflict[];
+    /** Timestep the agents are drawn at */
+    time: number;
+    interval_code: number | undefined;
+};
+/**
+ * A benchmark running in chunks, each chunk scheduling the next one until it finishes
+ */
+type BenchmarkRun = {
+    benchmark: Benchmark;
+    timeout_code: number | undefined;
 };
 type VisualizationConfig = {
     is_paused: boolean;
     alg: MazeSolvingAlgorithm | undefined;
+    /** The algorithm of the current search, kept after it ends so that its cells can still be inspected */
+    searched_alg: MazeSolvingAlgorithm | undefined;
+    generator: MazeGenerator | undefined;
+    timeline: Timeline | undefined;
+    /** Heat of the cells the current search expanded, made again whenever the heat map or the search changes */
+    heat_map: HeatMap | undefined;
+    /** Statistics of the most recent search, kept after it ends until the maze is cleared */
+    statistics: RunStatistics | undefined;
+    /** Several algorithms running side by side on their own copies of the maze, kept after finishing to show the ranking */
+    race: Race | undefined;
+    multi_agent: MultiAgentRun | undefined;
+    /** The animation frame requested to take the next steps and draw them, undefined while nothing is animated */
+    frame_request: number | undefined;
+    /** Time of the frame the most recent steps were taken in, in milliseconds */
+    last_step_time: number;
+    /** Number of steps taken together before the canvas is drawn again */
+    steps_per_frame: number;
+    path_interval_code: number | undefined;
+    /** Cells of the found path that have been drawn so far with the color of their leg, redrawn on top of the maze until the search is cleared or stepped back */
+    drawn_path: PathCell[];
+    /** Cells the path or the agent were drawn over, which are drawn again on the next frame in case they no longer are */
+    drawn_over: Coordinate[];
     max_delay: number;
     solve_step_speed: number;
     draw_delay: number;
-    audio_config:
-        | {
-              audio_volume: number;
-              audio_min_frequency: number;
-              audio_range_frequency: number;
-              audio_ctx: AudioContext;
-              gain_node: GainNode;
-          }
-        | undefined;
+    /** Value of every option of the algorithms, shared by the algorithms that use the same option */
+    algorithm_options: OptionValues;
 };
 function calculate_delay(config: VisualizationConfig) {
     return config.max_delay / config.solve_step_speed;
 }
-function calculate_volume(config: VisualizationConfig) {
-    if (config.audio_config === undefined) return 0;
-    return config.audio_config.audio_volume / 100;
-}
-function normalize_audio(frequency: number, config: { audio_min_frequency: number; audio_range_frequency: number }) {
-    if (config == undefined) return 0;
-    frequency /= Math.sqrt(maze.width * maze.width + maze.height * maze.height);
-    frequency *= config.audio_range_frequency;
-    frequency += config.audio_min_frequency;
-    return frequency;
-}
 
+/**
+ * Repaints every cell of the main canvas, for when something that is not a cell of the maze changed, such as where start or end is
+ */
 function canvas_refresh(maze: Maze) {
     if (ctx === null) return;
-    ctx.fillStyle = "black";
-    ctx.fill();
+    maze.take_changed_cells();
+    canvas_draw_maze(ctx, maze, cell_width, cell_height, palette);
+    const heat_map = current_heat_map();
+    if (heat_map !== undefined) canvas_draw_heat_map(ctx, heat_map);
+    canvas_draw_overlay(ctx);
+}
+
+/**
+ * Repaints only the cells of the main canvas that changed since it was last drawn, along with those the path or the agent were drawn over
+ */
+function canvas_draw_changes() {
+    if (ctx === null) return;
+    // The heat of every cell shifts as the search grows
+    if (current_heat_map() !== undefined) {
+        canvas_refresh(maze);
+        return;
+    }
+    canvas_draw_changed_cells(ctx, maze, config.drawn_over, cell_width, cell_height, palette);
+    canvas_draw_overlay(ctx);
+}
+
+/**
+ * The heat map of the current search chosen in the heat map select, undefined if none is chosen or there is no search
+ */
+function current_heat_map() {
+    const type = heat_map_types.get(select_heat_map.value);
+    const timeline = config.timeline;
+    const start = config.searched_alg?.start;
+    if (type === undefined || timeline === undefined || start === undefined) return undefined;
+    if (config.heat_map === undefined || config.heat_map.timeline !== timeline || config.heat_map.type !== type)
+        config.heat_map = new HeatMap(timeline, start, type);
+    return config.heat_map;
+}
+
+/**
+ * Colors the cells the search expanded by their heat instead of their search state
+ */
+function canvas_draw_heat_map(context: CanvasRenderingContext2D, heat_map: HeatMap) {
     for (let i = 0; i < maze.width; i++) {
         for (let j = 0; j < maze.height; j++) {
-            let color = color_floor;
-            if (maze.maze[i][j] === MazeCell.FLOOR) color = color_floor;
-            else if (maze.maze[i][j] === MazeCell.WALL) color = color_wall;
-            else if (maze.maze[i][j] === MazeCell.ACTIVE) color = color_active;
-            else if (maze.maze[i][j] === MazeCell.EXPLORED) color = color_explored;
-            if (maze.start?.x === i && maze.start?.y === j) color = color_start;
-            if (maze.end?.x === i && maze.end?.y === j) color = color_end;
-
-            ctx.fillStyle = color;
-            ctx.fillRect(i * cell_width, j * cell_height, cell_width, cell_height);
+            const search_state = maze.get_search_state({ x: i, y: j });
+            if (search_state !== MazeCell.EXPLORED && search_state !== MazeCell.EXPLORED_FROM_END && search_state !== MazeCell.JUMP_POINT) continue;
+            const heat = heat_map.heat({ x: i, y: j });
+            if (heat === undefined) continue;
+            context.fillStyle = heat_color(palette, heat);
+            canvas_fill_cell(context, maze, { x: i, y: j }, cell_width, cell_height);
         }
     }
 }
 
-function canvas_draw_rect_with_preview(nearest_position: Coordinate, actual_position: Coordinate, color: string) {
+/**
+ * Draws the found path and the agent over the maze
+ */
+function canvas_draw_overlay(context: CanvasRenderingContext2D) {
+    for (const cell of config.drawn_path) canvas_draw_path_cell(cell);
+    canvas_draw_path_jumps(context, maze, config.drawn_path, cell_width, cell_height);
+    config.drawn_over = path_drawn_over(maze, config.drawn_path);
+    if (config.multi_agent !== undefined) config.drawn_over.push(...canvas_draw_multi_agent(context, config.multi_agent));
+    const pose = current_agent_pose();
+    if (pose === undefined) return;
+    canvas_draw_agent(context, maze, pose, cell_width, cell_height);
+    config.drawn_over.push(pose.coord);
+}
+
+/**
+ * Where the agent of the current search stands at the applied step of the timeline, undefined if the search is not run by an agent
+ */
+function current_agent_pose(): AgentPose | undefined {
+    const timeline = config.timeline;
+    const agent = agent_of(config.searched_alg);
+    if (agent === undefined || timeline === undefined) return undefined;
+    for (let i = timeline.position - 1; i >= 0; i--) {
+        const events = timeline.steps[i].events.filter(
+            (event) => event.type === SolverEventType.AGENT_MOVED || event.type === SolverEventType.LEG_STARTED,
+        );
+        const event = events[events.length - 1];
+        if (event?.type === SolverEventType.AGENT_MOVED) return { coord: event.coord, direction: event.direction };
+        // An agent searching a leg between waypoints has not moved yet when the leg starts
+        if (event?.type === SolverEventType.LEG_STARTED) return { coord: event.from, direction: { x: 0, y: 0 } };
+    }
+    return { coord: agent.start, direction: { x: 0, y: 0 } };
+}
+
+/**
+ * The agent an algorithm is or is currently searching a leg with, undefined if it does not search with an agent
+ */
+function agent_of(alg: MazeSolvingAlgorithm | undefined) {
+    const leg_alg = alg instanceof WaypointSearch ? alg.leg_alg : alg;
+    return leg_alg instanceof MazeAgent ? leg_alg : undefined;
+}
+
+/**
+ * Draws an agent as a triangle pointing the way it faces, or as a dot before it has moved
+ */
+function canvas_draw_agent(context: CanvasRenderingContext2D, maze: Maze, pose: AgentPose, cell_width: number, cell_height: number) {
+    const position = maze.topology.cell_position(pose.coord, cell_width, cell_height);
+    const center = { x: position.x + cell_width / 2, y: position.y + cell_height / 2 };
+    const radius = Math.min(cell_width, cell_height) * 0.4;
+    context.fillStyle = palette.agent;
+    context.beginPath();
+    if (pose.direction.x === 0 && pose.direction.y === 0) context.arc(center.x, center.y, radius / 2, 0, 2 * Math.PI);
+    else canvas_trace_polygon(context, arrow_points(center, pose.direction, radius));
+    context.fill();
+}
+
+/**
+ * The color an agent of multi-agent planning, its start and its goal are drawn in
+ */
+function agent_color(agent: number, colors = palette) {
+    return colors.legs[agent % colors.legs.length];
+}
+
+/**
+ * Draws the agents of a multi-agent run where they are at its timestep, as outlined dots numbered like their starts and goals,
+ * and a cross on every cell where two of them collide, returning the cells it drew over
+ */
+function canvas_draw_multi_agent(context: CanvasRenderingContext2D, run: MultiAgentRun) {
+    const drawn_over: Coordinate[] = [];
+    const size = Math.min(cell_width, cell_height);
+    context.strokeStyle = palette.collision;
+    context.lineWidth = Math.max(1, size / 6);
+    for (const conflict of run.conflicts) {
+        const position = maze.topology.cell_position(conflict.coord, cell_width, cell_height);
+        context.beginPath();
+        context.moveTo(position.x, position.y);
+        context.lineTo(position.x + cell_width, position.y + cell_height);
+        context.moveTo(position.x + cell_width, position.y);
+        context.lineTo(position.x, position.y + cell_height);
+        context.stroke();
+        drawn_over.push(conflict.coord);
+    }
+    run.plans.forEach((plan, agent) => {
+        const coord = position_at(plan, run.time);
+        const position = maze.topology.cell_position(coord, cell_width, cell_height);
+        context.fillStyle = agent_color(agent);
+        context.strokeStyle = palette.arrow;
+        context.lineWidth = Math.max(1, size / 10);
+        context.beginPath();
+        context.arc(position.x + cell_width / 2, position.y + cell_height / 2, size * 0.4, 0, 2 * Math.PI);
+        context.fill();
+        context.stroke();
+        canvas_draw_label(context, maze, coord, (agent + 1).toString(), cell_width, cell_height, palette);
+        drawn_over.push(coord);
+    });
+    return drawn_over;
+}
+
+/**
+ * Draws the arrow of a conveyor pointing the way it moves
+ */
+function canvas_draw_conveyor(
+    context: CanvasRenderingContext2D,
+    maze: Maze,
+    coord: Coordinate,
+    direction: Coordinate,
+    cell_width: number,
+    cell_height: number,
+    palette: Palette,
+) {
+    const position = maze.topology.cell_position(coord, cell_width, cell_height);
+    const center = { x: position.x + cell_width / 2, y: position.y + cell_height / 2 };
+    context.fillStyle = palette.arrow;
+    context.beginPath();
+    canvas_trace_polygon(context, arrow_points(center, direction, Math.min(cell_width, cell_height) * 0.3));
+    context.fill();
+}
+
+/**
+ * Draws the steps of stairs as three lines across the cell
+ */
+function canvas_draw_stairs(context: CanvasRenderingContext2D, maze: Maze, coord: Coordinate, cell_width: number, cell_height: number, palette: Palette) {
+    const position = maze.topology.cell_position(coord, cell_width, cell_height);
+    context.fillStyle = palette.arrow;
+    const thickness = Math.max(1, cell_height / 10);
+    for (let step = 1; step <= 3; step++)
+        context.fillRect(position.x + cell_width * 0.2, position.y + (cell_height * step) / 4 - thickness / 2, cell_width * 0.6, thickness);
+}
+
+/**
+ * Draws a line between the floors of a maze with several floors, so that it is clear where one floor ends and the next begins
+ */
+function canvas_draw_floor_borders(context: CanvasRenderingContext2D, maze: Maze, cell_width: number, cell_height: number, palette: Palette) {
+    context.fillStyle = palette.arrow;
+    const thickness = Math.max(1, cell_width / 5);
+    for (let floor = 1; floor < maze.floors; floor++) {
+        const border = maze.topology.cell_position({ x: floor * maze.floor_width, y: 0 }, cell_width, cell_height).x;
+        context.fillRect(border - thickness / 2, 0, thickness, context.canvas.height);
+    }
+}
+
+/**
+ * Draws a dashed line from where a path took a portal or stairs to where it came out, with a dot at the end it came out at
+ */
+function canvas_draw_path_jumps(context: CanvasRenderingContext2D, maze: Maze, cells: PathCell[], cell_width: number, cell_height: number) {
+    const center = (coord: Coordinate) => {
+        const position = maze.topology.cell_position(coord, cell_width, cell_height);
+        return { x: position.x + cell_width / 2, y: position.y + cell_height / 2 };
+    };
+    const size = Math.min(cell_width, cell_height);
+    for (const cell of cells) {
+        if (cell.jump_from === undefined) continue;
+        const from = center(cell.jump_from);
+        const to = center(cell.coord);
+        context.strokeStyle = context.fillStyle = palette.legs[cell.leg % palette.legs.length];
+        context.lineWidth = Math.max(1, size / 4);
+        context.setLineDash([size / 2, size / 4]);
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.lineTo(to.x, to.y);
+        context.stroke();
+        context.setLineDash([]);
+        context.beginPath();
+        context.arc(to.x, to.y, size / 4, 0, 2 * Math.PI);
+        context.fill();
+    }
+}
+
+/**
+ * Writes a short text, such as the number of a waypoint, in the middle of a cell
+ */
+function canvas_draw_label(
+    context: CanvasRenderingContext2D,
+    maze: Maze,
+    coord: Coordinate,
+    text: string,
+    cell_width: number,
+    cell_height: number,
+    palette: Palette,
+) {
+    const position = maze.topology.cell_position(coord, cell_width, cell_height);
+    context.fillStyle = palette.label;
+    context.font = Math.floor(cell_height * 0.8) + "px sans-serif";
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(text, position.x + cell_width / 2, position.y + cell_height / 2, cell_width);
+}
+
+/**
+ * Draws a ring inside a cell
+ */
+function canvas_draw_ring(context: CanvasRenderingContext2D, maze: Maze, coord: Coordinate, cell_width: number, cell_height: number, color: string) {
+    const position = maze.topology.cell_position(coord, cell_width, cell_height);
+    const size = Math.min(cell_width, cell_height);
+    context.strokeStyle = color;
+    context.lineWidth = Math.max(1, size / 10);
+    context.beginPath();
+    context.arc(position.x + cell_width / 2, position.y + cell_height / 2, size * 0.4, 0, 2 * Math.PI);
+    context.stroke();
+}
+
+/**
+ * Draws the Trémaux marks of a cell as one or two dots
+ */
+function canvas_draw_marks(
+    context: CanvasRenderingContext2D,
+    maze: Maze,
+    coord: Coordinate,
+    marks: number,
+    cell_width: number,
+    cell_height: number,
+    palette: Palette,
+) {
+    const position = maze.topology.cell_position(coord, cell_width, cell_height);
+    const radius = Math.min(cell_width, cell_height) / 8;
+    context.fillStyle = palette.marks;
+    for (let mark = 1; mark <= marks; mark++) {
+        context.beginPath();
+        context.arc(position.x + (cell_width * mark) / (marks + 1), position.y + cell_height / 2, radius, 0, 2 * Math.PI);
+        context.fill();
+    }
+}
+
+/**
+ * Draws every cell of a maze onto any canvas, the main one or one of the race canvases
+ */
+function canvas_draw_maze(context: CanvasRenderingContext2D, maze: Maze, cell_width: number, cell_height: number, palette: Palette) {
+    // Hexagons leave the corners of the canvas uncovered
+    context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+    for (let i = 0; i < maze.width; i++) {
+        for (let j = 0; j < maze.height; j++) canvas_draw_cell(context, maze, { x: i, y: j }, cell_width, cell_height, palette);
+    }
+    canvas_draw_floor_borders(context, maze, cell_width, cell_height, palette);
+}
+
+/**
+ * Draws the cells of a maze that changed since it was last drawn and the cells drawn over since, or every cell if the whole maze may have changed
+ */
+function canvas_draw_changed_cells(
+    context: CanvasRenderingContext2D,
+    maze: Maze,
+    drawn_over: Coordinate[],
+    cell_width: number,
+    cell_height: number,
+    palette: Palette,
+) {
+    const changed = maze.take_changed_cells();
+    if (changed === undefined) {
+        canvas_draw_maze(context, maze, cell_width, cell_height, palette);
+        return;
+    }
+    for (const coord of [...changed, ...drawn_over]) canvas_draw_cell(context, maze, coord, cell_width, cell_height, palette);
+    // The cells beside a border were drawn over half of it
+    canvas_draw_floor_borders(context, maze, cell_width, cell_height, palette);
+}
+
+function canvas_draw_cell(context: CanvasRenderingContext2D, maze: Maze, coord: Coordinate, cell_width: number, cell_height: number, palette: Palette) {
+    const cell_type = maze.get_cell_type(coord);
+    let color = cell_color(palette, cell_type);
+    if (coordinate_equals(maze.start, coord)) color = palette.start;
+    if (coordinate_equals(maze.end, coord)) color = palette.end;
+    const waypoint = maze.waypoint_index(coord);
+    if (waypoint !== -1) color = palette.waypoint;
+    const portal = maze.portal_index(coord);
+    if (portal !== -1) color = palette.portal;
+    const agent = maze.agent_index(coord);
+    if (agent !== -1) color = agent_color(Math.floor(agent / 2), palette);
+
+    context.fillStyle = color;
+    canvas_fill_cell(context, maze, coord, cell_width, cell_height);
+    if (waypoint !== -1) canvas_draw_label(context, maze, coord, (waypoint + 1).toString(), cell_width, cell_height, palette);
+    // Both portals of a pair show the number of the pair
+    if (portal !== -1) canvas_draw_label(context, maze, coord, (Math.floor(portal / 2) + 1).toString(), cell_width, cell_height, palette);
+    // The goal of an agent is told apart from its start by a ring
+    if (agent !== -1 && agent % 2 === 1) canvas_draw_ring(context, maze, coord, cell_width, cell_height, palette.label);
+    if (agent !== -1) canvas_draw_label(context, maze, coord, (Math.floor(agent / 2) + 1).toString(), cell_width, cell_height, palette);
+    const terrain = maze.get_terrain(coord);
+    const direction = conveyor_direction(terrain);
+    if (direction !== undefined) canvas_draw_conveyor(context, maze, coord, direction, cell_width, cell_height, palette);
+    else if (terrain === MazeCell.STAIRS) canvas_draw_stairs(context, maze, coord, cell_width, cell_height, palette);
+    if (cell_type === MazeCell.MARKED_ONCE) canvas_draw_marks(context, maze, coord, 1, cell_width, cell_height, palette);
+    else if (cell_type === MazeCell.MARKED_TWICE) canvas_draw_marks(context, maze, coord, 2, cell_width, cell_height, palette);
+}
+
+/**
+ * Fills the shape the maze's topology gives the cell with the current fill style
+ */
+function canvas_fill_cell(context: CanvasRenderingContext2D, maze: Maze, coord: Coordinate, cell_width: number, cell_height: number) {
+    const shape = maze.topology.cell_shape(coord, cell_width, cell_height);
+    if (shape === undefined) {
+        const position = maze.topology.cell_position(coord, cell_width, cell_height);
+        context.fillRect(position.x, position.y, cell_width, cell_height);
+        return;
+    }
+    context.beginPath();
+    canvas_trace_polygon(context, shape);
+    context.fill();
+}
+
+function canvas_trace_polygon(context: CanvasRenderingContext2D, corners: Coordinate[]) {
+    context.moveTo(corners[0].x, corners[0].y);
+    for (const corner of corners.slice(1)) context.lineTo(corner.x, corner.y);
+    context.closePath();
+}
+
+function canvas_draw_path_cell(cell: PathCell) {
     if (ctx === null) return;
+    ctx.fillStyle = palette.legs[cell.leg % palette.legs.length];
+    if (!stays_visible_under_path(maze, cell.coord)) canvas_fill_cell(ctx, maze, cell.coord, cell_width, cell_height);
+}
 
-    if (maze.start !== undefined && maze.end !== undefined) {   // cover start or end
-        ctx.fillStyle = color_floor;
-        if (color === color_end) {
-            ctx.fillRect(maze.end.x * cell_width, maze.end.y * cell_height, cell_width, cell_height);
-        } else {
-            ctx.fillRect(maze.start.x * cell_width, maze.start.y * cell_height, cell_width, cell_height);
-        }
+/**
+ * The cells drawing a path covers, which include the cells the line of every jump crosses
+ */
+function path_drawn_over(maze: Maze, cells: PathCell[]) {
+    const drawn_over: Coordinate[] = [];
+    for (const cell of cells) {
+        drawn_over.push(cell.coord);
+        if (cell.jump_from === undefined) continue;
+        for (const coord of line_cells(cell.jump_from, cell.coord)) drawn_over.push(...brush_cells(maze, coord, 3));
+    }
+    return drawn_over;
+}
+
+/**
+ * Draws a whole path at once onto any canvas, returning the cells it was drawn over
+ */
+function canvas_draw_path_cells(context: CanvasRenderingContext2D, maze: Maze, cells: PathCell[], cell_width: number, cell_height: number) {
+    for (const cell of cells) {
+        context.fillStyle = palette.legs[cell.leg % palette.legs.length];
+        if (!stays_visible_under_path(maze, cell.coord)) canvas_fill_cell(context, maze, cell.coord, cell_width, cell_height);
     }
-    
-    ctx.fillStyle = color_indicator;
-    ctx.fillRect(nearest_position.x, nearest_position.y, cell_width, cell_height);
+    canvas_draw_path_jumps(context, maze, cells, cell_width, cell_height);
+    return path_drawn_over(maze, cells);
+}
+
+function canvas_draw_path(cells: PathCell[]) {
+    stop_path_animation();
+    let path_index = cells.length - 1;
+    const draw_step = () => {
+        // A long path is drawn as many cells at a time as the search took steps per frame
+        for (let i = 0; i < config.steps_per_frame; i++) {
+            if (path_index < 0) {
+                clearInterval(config.path_interval_code);
+                return;
+            }
+            config.drawn_path.push(cells[path_index]);
+            canvas_draw_path_cell(cells[path_index]);
+            if (ctx !== null) canvas_draw_path_jumps(ctx, maze, config.drawn_path, cell_width, cell_height);
+            play_cell_sound(SoundType.PATH, cells[path_index].coord, config.draw_delay);
+            path_index--;
+        }
+    };
+    config.path_interval_code = setInterval(draw_step, config.draw_delay);
+}
+
+function stop_path_animation() {
+    clearInterval(config.path_interval_code);
+    config.path_interval_code = undefined;
+    config.drawn_over.push(...path_drawn_over(maze, config.drawn_path));
+    config.drawn_path = [];
+}
+
+/**
+ * Shows the dragged cell under the mouse instead of where it was, highlighting the cell it would be dropped on
+ */
+function canvas_draw_rect_with_preview(nearest_coordinate: Coordinate, actual_position: Coordinate, color: string, dragged: Coordinate) {
+    if (ctx === null) return;
+
+    ctx.fillStyle = palette.floor;
+    canvas_fill_cell(ctx, maze, dragged, cell_width, cell_height);
+
+    ctx.fillStyle = palette.indicator;
+    canvas_fill_cell(ctx, maze, nearest_coordinate, cell_width, cell_height);
     ctx.fillStyle = color;
     ctx.fillRect(actual_position.x - cell_width / 2, actual_position.y - cell_height / 2, cell_width, cell_height);
 }
 
+/**
+ * Highlights the cells a line or rectangle would paint, over the maze as it is
+ */
+function canvas_draw_shape_preview(cells: Coordinate[]) {
+    if (ctx === null) return;
+    ctx.fillStyle = palette.indicator;
+    for (const coord of cells) if (!is_marked_cell(coord)) canvas_fill_cell(ctx, maze, coord, cell_width, cell_height);
+}
+
+function create_generator(maze_config: MazeConfig, random: () => number): MazeGenerator {
+    if ((maze_config.floors ?? 1) > 1) return new FloorsGenerator(maze_config, random, create_floor_generator);
+    return create_floor_generator(maze_config, random);
+}
+
+/**
+ * The generator chosen in the generator select, which makes each floor of a maze with several floors
+ */
+function create_floor_generator(maze_config: MazeConfig, random: () => number): MazeGenerator {
+    switch ((document.getElementById("generator") as HTMLSelectElement).value) {
+        case "noise":
+            return new NoiseGenerator(maze_config, random);
+        case "prim":
+            return new PrimGenerator(maze_config, random);
+        case "kruskal":
+            return new KruskalGenerator(maze_config, random);
+        case "wilson":
+            return new WilsonGenerator(maze_config, random);
+        case "eller":
+            return new EllerGenerator(maze_config, random);
+        default:
+            return new RecursiveBacktracker(maze_config, random);
+    }
+}
+
+function create_topology(): Topology {
+    switch ((document.getElementById("topology") as HTMLSelectElement).value) {
+        case "diagonal":
+            return new DiagonalTopology((document.getElementById("corner cutting") as HTMLInputElement).checked);
+        case "hex":
+            return new HexTopology();
+        case "torus":
+            return new TorusTopology();
+        default:
+            return new SquareTopology();
+    }
+}
+
 // MAIN FUNCTION
-const maze_config: MazeConfig = { grid_width: 40, grid_height: 20 };
-let maze = new Maze(maze_config);
+const maze_config: MazeConfig = { grid_width: 40, grid_height: 20, floors: 1 };
+const terrain_costs = default_terrain_costs();
+/** Seed of the generator that made the current maze */
+let seed = random_seed();
+/** Whether the maze was changed by hand since it was generated, in which case the seed alone no longer reproduces it */
+let maze_edited = false;
+let maze = generate_maze(create_generator(maze_config, seeded_random(seed)));
+maze.terrain_costs = terrain_costs;
+/** Every edit made to the maze by hand, along with the mazes that Regenerate and importing replaced, as many as a few of the largest mazes take */
+const edit_history = new EditHistory(5000000);
+let topology = create_topology();
+maze.topology = topology;
 
-const color_start = "green";
-const color_end = "red";
-const color_explored = "gray";
-const color_active = "yellow";
-const color_wall = "black";
-const color_floor = "white";
-const color_indicator = "blue";
+/** Colors of the theme chosen in the theme select */
+let palette = classic_palette;
 
 const canvas = document.getElementById("maze_canvas") as HTMLCanvasElement;
-const cell_width = 15;
-const cell_height = 15;
+let cell_width = 15;
+let cell_height = 15;
 const ctx = canvas.getContext("2d");
+let race_cell_width = 8;
+let race_cell_height = 8;
+/** Cells each race canvas had the path or the agent drawn over, in the order of the race entries */
+let race_drawn_over: Coordinate[][] = [];
+const race_canvases = document.getElementById("race canvases") as HTMLDivElement;
+const race_ranking = document.getElementById("race ranking") as HTMLOListElement;
+const tooltip = document.getElementById("tooltip") as HTMLDivElement;
 
 const click_event: ClickEvent = {
     mouse_down: false,
@@ -207,184 +674,1252 @@ const click_event: ClickEvent = {
     },
     is_dragging_start: false,
     is_dragging_end: false,
+    dragged_waypoint: undefined,
+    placing_waypoint: false,
+    dragged_portal: undefined,
+    placing_portal: false,
+    dragged_agent: undefined,
+    placing_agent: false,
     brush_type: MazeCell.WALL,
+    tool: "brush",
+    last_painted: {
+        x: 0,
+        y: 0,
+    },
 };
+const radio_brush_waypoint = document.getElementById("brush waypoint") as HTMLInputElement;
+const radio_brush_portal = document.getElementById("brush portal") as HTMLInputElement;
+const radio_brush_agent = document.getElementById("brush agent") as HTMLInputElement;
+const select_waypoint_order = document.getElementById("waypoint order") as HTMLSelectElement;
+const range_brush_size = document.getElementById("brush size") as HTMLInputElement;
+const label_brush_size = document.getElementById("brush size value") as HTMLSpanElement;
+range_brush_size.oninput = function () {
+    label_brush_size.textContent = range_brush_size.value;
+};
+const checkbox_rectangle_filled = document.getElementById("rectangle filled") as HTMLInputElement;
+/**
+ * The editing tool chosen in the toolbar: brush, eraser, line, rectangle or fill
+ */
+function selected_tool() {
+    for (const tool of ["eraser", "line", "rectangle", "fill"]) if ((document.getElementById("tool " + tool) as HTMLInputElement).checked) return tool;
+    return "brush";
+}
+/**
+ * The terrain painted by the brush, as chosen by the brush radio buttons
+ */
+function selected_brush() {
+    if ((document.getElementById("brush grass") as HTMLInputElement).checked) return MazeCell.GRASS;
+    if ((document.getElementById("brush mud") as HTMLInputElement).checked) return MazeCell.MUD;
+    if ((document.getElementById("brush water") as HTMLInputElement).checked) return MazeCell.WATER;
+    if ((document.getElementById("brush stairs") as HTMLInputElement).checked) return MazeCell.STAIRS;
+    if ((document.getElementById("brush conveyor") as HTMLInputElement).checked) {
+        switch ((document.getElementById("conveyor direction") as HTMLSelectElement).value) {
+            case "up":
+                return MazeCell.CONVEYOR_UP;
+            case "down":
+                return MazeCell.CONVEYOR_DOWN;
+            case "left":
+                return MazeCell.CONVEYOR_LEFT;
+            default:
+                return MazeCell.CONVEYOR_RIGHT;
+        }
+    }
+    return MazeCell.WALL;
+}
+const inspectable_cells = new Set([
+    MazeCell.ACTIVE,
+    MazeCell.EXPLORED,
+    MazeCell.ACTIVE_FROM_END,
+    MazeCell.EXPLORED_FROM_END,
+    MazeCell.MEETING_POINT,
+    MazeCell.JUMP_POINT,
+]);
+/**
+ * Shows what the search knows about the hovered cell next to the mouse, as long as the cell is part of the search
+ */
+function show_cell_tooltip(e: MouseEvent) {
+    const coord = maze.topology.cell_at(maze, canvas_point(e), cell_width, cell_height);
+    const inspection = inspectable_cells.has(maze.get_cell_type(coord)) ? config.searched_alg?.inspect(coord) : undefined;
+    tooltip.hidden = inspection === undefined;
+    if (inspection === undefined) return;
+    const parent = inspection.parent === undefined ? "none" : "(" + inspection.parent.x + ", " + inspection.parent.y + ")";
+    tooltip.textContent =
+        "(" + coord.x + ", " + coord.y + ") g = " + format_cost(inspection.g) + ", h = " + format_cost(inspection.h) +
+        ", f = " + format_cost(inspection.f) + ", parent " + parent;
+    tooltip.style.left = e.pageX + 12 + "px";
+    tooltip.style.top = e.pageY + 12 + "px";
+}
+/**
+ * Costs rounded to 2 decimals, diagonal moves making them irrational
+ */
+function format_cost(cost: number) {
+    return (Math.round(cost * 100) / 100).toString();
+}
 function cancel_click() {
     click_event.mouse_down = false;
     click_event.is_dragging_end = false;
     click_event.is_dragging_start = false;
+    click_event.dragged_waypoint = undefined;
+    click_event.placing_waypoint = false;
+    click_event.dragged_portal = undefined;
+    click_event.placing_portal = false;
+    click_event.dragged_agent = undefined;
+    click_event.placing_agent = false;
+}
+
+/**
+ * Whether the cell is the start, the end, a waypoint, a portal or the start or goal of an agent, which terrain cannot be painted on
+ * and which cannot be dropped on each other
+ */
+function is_marked_cell(coord: Coordinate) {
+    return (
+        coordinate_equals(maze.start, coord) ||
+        coordinate_equals(maze.end, coord) ||
+        maze.waypoint_index(coord) !== -1 ||
+        maze.portal_index(coord) !== -1 ||
+        maze.agent_index(coord) !== -1
+    );
 }
 
-canvas.onmousedown = function (e) {
-    if (config.alg !== undefined || click_event.mouse_down) return;
+/**
+ * The position of the mouse on the canvas in pixels
+ */
+function canvas_point(e: MouseEvent) {
     const canvas_rect = canvas.getBoundingClientRect();
-    const clicked_coordinate = {
-        x: Math.floor(((e.clientX - canvas_rect.left) / canvas.width) * maze.width),
-        y: Math.floor(((e.clientY - canvas_rect.top) / canvas.height) * maze.height),
+    return {
+        x: ((e.clientX - canvas_rect.left) / canvas_rect.width) * canvas.width,
+        y: ((e.clientY - canvas_rect.top) / canvas_rect.height) * canvas.height,
     };
+}
+
+/**
+ * Whether the maze may be edited, which is never while generating and only in dynamic mode while searching
+ */
+function may_edit() {
+    return config.generator === undefined && (config.alg === undefined || checkbox_dynamic_editing.checked);
+}
+
+/**
+ * Lets the current search react to the maze being edited in dynamic mode,
+ * incremental searches repairing their path and every other search starting over
+ */
+function replan_after_edit(changed: Coordinate[]) {
+    // The agents' plans may no longer fit the maze
+    stop_multi_agent();
+    const alg = config.searched_alg;
+    if (!checkbox_dynamic_editing.checked || alg === undefined || config.statistics === undefined) return;
+    if (maze.start === undefined || maze.end === undefined) return;
+    // A search with waypoints has its legs in an order that edits can change, and portals change the estimate of every cell,
+    // so such a search always starts over
+    if (!(alg instanceof LPASTAR) || !coordinate_equals(alg.start, maze.start) || maze.waypoints.length > 0 || maze.portals.length > 0) {
+        start_search();
+        return;
+    }
+    alg.move_end(maze.end);
+    alg.cells_changed(changed);
+    // Edits change how much reaching each cell costs
+    config.heat_map = undefined;
+    config.statistics.optimal_cost = cheapest_path_cost(maze, maze.start, maze.end);
+    stop_path_animation();
+    // A search that already ended starts running again, one that is paused stays paused
+    if (config.alg !== undefined) return;
+    config.alg = alg;
+    config.is_paused = false;
+    animate();
+}
+
+/**
+ * The maze together with what it was made from, as the edit history remembers it
+ */
+function current_version(): MazeVersion {
+    return { maze: maze, seed: seed, edited: maze_edited };
+}
+
+/**
+ * Paints cells as part of the edit in progress, start, end, waypoints, portals and agents keeping their floor, and lets a search in dynamic mode react to the cells that changed
+ */
+function paint(cells: Coordinate[], cell_type: MazeCell) {
+    const changed = cells.filter((coord) => !is_marked_cell(coord) && maze.get_terrain(coord) !== cell_type);
+    for (const coord of changed) edit_history.set_cell_type(maze, coord, cell_type);
+    if (changed.length === 0) return;
+    maze_edited = true;
+    replan_after_edit(changed);
+}
+
+/**
+ * Paints with the brush along the line between two cells, so that a fast stroke leaves no gaps between the cells the pointer was seen at
+ */
+function paint_stroke(from: Coordinate, to: Coordinate) {
+    const size = Number(range_brush_size.value);
+    const cells: Coordinate[] = [];
+    for (const coord of line_cells(from, to)) cells.push(...brush_cells(maze, coord, size));
+    paint(cells, click_event.brush_type);
+}
+
+/**
+ * The cells the line or rectangle being drawn would paint if the pointer was released now
+ */
+function shape_cells() {
+    if (click_event.tool === "rectangle")
+        return rectangle_cells(click_event.start_coordinate, click_event.current_nearest_coordinate, checkbox_rectangle_filled.checked);
+    const cells: Coordinate[] = [];
+    for (const coord of line_cells(click_event.start_coordinate, click_event.current_nearest_coordinate))
+        cells.push(...brush_cells(maze, coord, Number(range_brush_size.value)));
+    return cells;
+}
+
+/**
+ * Moves the dragged start or end onto a cell, the cell it leaves taking the terrain of the cell it moves onto
+ */
+function move_dragged_marker(to: Coordinate) {
+    const from = click_event.is_dragging_start ? maze.start : maze.end;
+    if (from === undefined || is_marked_cell(to)) return;
+    const displaced_type = maze.get_terrain(to);
+    edit_history.set_cell_type(maze, to, MazeCell.FLOOR);
+    if (click_event.is_dragging_start) maze.start = to;
+    else maze.end = to;
+    edit_history.set_cell_type(maze, from, displaced_type);
+    maze_edited = true;
+    replan_after_edit([from, to]);
+}
+
+/**
+ * Finishes the edit the pointer made, remembering it so that it can be undone
+ */
+function end_pointer_edit() {
+    if (click_event.mouse_down && edit_history.end_edit(maze)) update_url();
+    update_history_controls();
+    cancel_click();
+    canvas_refresh(maze);
+}
+
+canvas.onpointerdown = function (e) {
+    if (!may_edit() || click_event.mouse_down || !e.isPrimary) return;
+    // Keeps the stroke going when the pointer leaves the canvas, and stops touch screens from scrolling instead
+    canvas.setPointerCapture(e.pointerId);
+    const clicked_coordinate = maze.topology.cell_at(maze, canvas_point(e), cell_width, cell_height);
     click_event.start_coordinate = clicked_coordinate;
+    click_event.current_coordinate = canvas_point(e);
+    click_event.current_nearest_coordinate = clicked_coordinate;
+    click_event.last_painted = clicked_coordinate;
     click_event.mouse_down = true;
+    click_event.tool = selected_tool();
+    edit_history.begin_edit(current_version());
     if (coordinate_equals(maze.start, clicked_coordinate)) {
         click_event.is_dragging_start = true;
     } else if (coordinate_equals(maze.end, clicked_coordinate)) {
         click_event.is_dragging_end = true;
+    } else if (maze.waypoint_index(clicked_coordinate) !== -1) {
+        click_event.dragged_waypoint = maze.waypoint_index(clicked_coordinate);
+    } else if (maze.portal_index(clicked_coordinate) !== -1) {
+        click_event.dragged_portal = maze.portal_index(clicked_coordinate);
+    } else if (maze.agent_index(clicked_coordinate) !== -1) {
+        click_event.dragged_agent = maze.agent_index(clicked_coordinate);
+    } else if (radio_brush_waypoint.checked) {
+        click_event.placing_waypoint = true;
+    } else if (radio_brush_portal.checked) {
+        click_event.placing_portal = true;
+    } else if (radio_brush_agent.checked) {
+        click_event.placing_agent = true;
     } else {
-        const clicked_type = maze.get_cell_type(clicked_coordinate);
-        click_event.brush_type = (clicked_type == MazeCell.WALL) ? MazeCell.FLOOR : MazeCell.WALL;
+        const brush = click_event.tool === "eraser" ? MazeCell.FLOOR : selected_brush();
+        // A brush stroke that begins on its own terrain erases it instead
+        const erases = click_event.tool === "brush" && maze.get_terrain(clicked_coordinate) === brush;
+        click_event.brush_type = erases ? MazeCell.FLOOR : brush;
+        if (click_event.tool === "brush" || click_event.tool === "eraser") paint_stroke(clicked_coordinate, clicked_coordinate);
+        else if (click_event.tool === "fill") paint(flood_fill_cells(maze, clicked_coordinate), click_event.brush_type);
     }
+    canvas_refresh(maze);
 };
-canvas.onmousemove = function (e) {
-    if (config.alg !== undefined || !click_event.mouse_down) return;
-    
-    const canvas_rect = canvas.getBoundingClientRect();
-    click_event.current_coordinate = {
-        x: ((e.clientX - canvas_rect.left) / canvas.width) * maze.width,
-        y: ((e.clientY - canvas_rect.top) / canvas.height) * maze.height,
-    };
-    click_event.current_nearest_coordinate = {
-        x: Math.floor(click_event.current_coordinate.x),
-        y: Math.floor(click_event.current_coordinate.y),
-    };
+canvas.onpointermove = function (e) {
+    if (!click_event.mouse_down) show_cell_tooltip(e);
+    if (!may_edit() || !click_event.mouse_down || !e.isPrimary) return;
 
-    // Paint celltype
-    if (!click_event.is_dragging_start && !click_event.is_dragging_end) {
-        maze.set_cell_type(click_event.current_nearest_coordinate, click_event.brush_type);
-        canvas_refresh(maze);
+    click_event.current_coordinate = canvas_point(e);
+    click_event.current_nearest_coordinate = maze.topology.cell_at(maze, click_event.current_coordinate, cell_width, cell_height);
+
+    const dragged_waypoint = click_event.dragged_waypoint;
+    const dragged_portal = click_event.dragged_portal;
+    const dragged_agent = click_event.dragged_agent;
+    // Waypoints, portals and agents are placed by clicking, not painted
+    if (click_event.placing_waypoint || click_event.placing_portal || click_event.placing_agent) return;
+
+    if (
+        !click_event.is_dragging_start &&
+        !click_event.is_dragging_end &&
+        dragged_waypoint === undefined &&
+        dragged_portal === undefined &&
+        dragged_agent === undefined
+    ) {
+        if (click_event.tool === "brush" || click_event.tool === "eraser") {
+            if (coordinate_equals(click_event.last_painted, click_event.current_nearest_coordinate)) return;
+            paint_stroke(click_event.last_painted, click_event.current_nearest_coordinate);
+            click_event.last_painted = click_event.current_nearest_coordinate;
+            canvas_refresh(maze);
+        } else if (click_event.tool === "line" || click_event.tool === "rectangle") {
+            canvas_refresh(maze);
+            canvas_draw_shape_preview(shape_cells());
+        }
         return;
     }
 
-    // Drag start or end
-    let color = color_start;
-    if (click_event.is_dragging_end) color = color_end;
-    const actual_position = {
-        x: click_event.current_coordinate.x * cell_width,
-        y: click_event.current_coordinate.y * cell_height,
-    };
-    const nearest_position = {
-        x: click_event.current_nearest_coordinate.x * cell_width,
-        y: click_event.current_nearest_coordinate.y * cell_height,
-    };
+    // Drag start, end, a waypoint, a portal or an agent
+    let color = palette.start;
+    let dragged = maze.start;
+    if (click_event.is_dragging_end) {
+        color = palette.end;
+        dragged = maze.end;
+    } else if (dragged_waypoint !== undefined) {
+        color = palette.waypoint;
+        dragged = maze.waypoints[dragged_waypoint];
+    } else if (dragged_portal !== undefined) {
+        color = palette.portal;
+        dragged = maze.portals[dragged_portal];
+    } else if (dragged_agent !== undefined) {
+        color = agent_color(Math.floor(dragged_agent / 2));
+        dragged = maze.agents[dragged_agent];
+    }
+    if (dragged === undefined) return;
 
     canvas_refresh(maze);
-    canvas_draw_rect_with_preview(nearest_position, actual_position, color);
+    canvas_draw_rect_with_preview(click_event.current_nearest_coordinate, click_event.current_coordinate, color, dragged);
 };
-canvas.onmouseup = function (e) {
-    const canvas_rect = canvas.getBoundingClientRect();
-    click_event.current_coordinate = {
-        x: ((e.clientX - canvas_rect.left) / canvas.width) * maze.width,
-        y: ((e.clientY - canvas_rect.top) / canvas.height) * maze.height,
-    };
-    const nearest = {
-        x: Math.floor(click_event.current_coordinate.x),
-        y: Math.floor(click_event.current_coordinate.y),
-    };
-    if (click_event.is_dragging_start) {
-        if (maze.start === undefined) return;
-        const displaced_type = maze.get_cell_type(nearest);
-        maze.set_cell_type(nearest, MazeCell.FLOOR);
-        maze.set_cell_type(maze.start, displaced_type);
-        maze.start = nearest;
-    } else if (click_event.is_dragging_end) {
-        if (maze.end === undefined) return;
-        const displaced_type = maze.get_cell_type(nearest);
-        maze.set_cell_type(nearest, MazeCell.FLOOR);
-        maze.set_cell_type(maze.end, displaced_type);
-        maze.end = nearest;
-    } else if (coordinate_equals(click_event.start_coordinate, nearest)) {
-        if (maze.get_cell_type(nearest) == MazeCell.FLOOR) {
-            maze.set_cell_type(nearest, MazeCell.WALL);
-        } else {
-            maze.set_cell_type(nearest, MazeCell.FLOOR);
+canvas.onpointerleave = function () {
+    tooltip.hidden = true;
+};
+canvas.onpointerup = function (e) {
+    if (!click_event.mouse_down || !e.isPrimary) return;
+    click_event.current_coordinate = canvas_point(e);
+    const nearest = maze.topology.cell_at(maze, click_event.current_coordinate, cell_width, cell_height);
+    click_event.current_nearest_coordinate = nearest;
+    if (click_event.is_dragging_start || click_event.is_dragging_end) {
+        move_dragged_marker(nearest);
+    } else if (click_event.dragged_waypoint !== undefined) {
+        // Clicking a waypoint removes it, dragging it moves it
+        if (coordinate_equals(click_event.start_coordinate, nearest)) maze.waypoints.splice(click_event.dragged_waypoint, 1);
+        else if (!is_marked_cell(nearest)) {
+            edit_history.set_cell_type(maze, nearest, MazeCell.FLOOR);
+            maze.waypoints[click_event.dragged_waypoint] = nearest;
         }
+        maze_edited = true;
+        replan_after_edit([click_event.start_coordinate, nearest]);
+    } else if (click_event.placing_waypoint) {
+        if (coordinate_equals(click_event.start_coordinate, nearest) && !is_marked_cell(nearest)) {
+            edit_history.set_cell_type(maze, nearest, MazeCell.FLOOR);
+            maze.waypoints.push(nearest);
+            maze_edited = true;
+            replan_after_edit([nearest]);
+        }
+    } else if (click_event.dragged_portal !== undefined) {
+        // Clicking a portal removes it along with its partner, dragging it moves it
+        const changed = [click_event.start_coordinate, nearest];
+        if (coordinate_equals(click_event.start_coordinate, nearest)) {
+            const pair_start = click_event.dragged_portal - (click_event.dragged_portal % 2);
+            changed.push(...maze.portals.splice(pair_start, 2));
+        } else if (!is_marked_cell(nearest)) {
+            edit_history.set_cell_type(maze, nearest, MazeCell.FLOOR);
+            maze.portals[click_event.dragged_portal] = nearest;
+        }
+        maze_edited = true;
+        replan_after_edit(changed);
+    } else if (click_event.placing_portal) {
+        // Portals pair up in the order they are placed, the first placed after a pair waiting for its partner
+        if (coordinate_equals(click_event.start_coordinate, nearest) && !is_marked_cell(nearest)) {
+            edit_history.set_cell_type(maze, nearest, MazeCell.FLOOR);
+            maze.portals.push(nearest);
+            maze_edited = true;
+            replan_after_edit([nearest]);
+        }
+    } else if (click_event.dragged_agent !== undefined) {
+        // Clicking the start or goal of an agent removes the agent, dragging it moves it
+        const changed = [click_event.start_coordinate, nearest];
+        if (coordinate_equals(click_event.start_coordinate, nearest)) {
+            const pair_start = click_event.dragged_agent - (click_event.dragged_agent % 2);
+            changed.push(...maze.agents.splice(pair_start, 2));
+        } else if (!is_marked_cell(nearest)) {
+            edit_history.set_cell_type(maze, nearest, MazeCell.FLOOR);
+            maze.agents[click_event.dragged_agent] = nearest;
+        }
+        maze_edited = true;
+        replan_after_edit(changed);
+    } else if (click_event.placing_agent) {
+        // The first click places where the next agent starts and the second its goal
+        if (coordinate_equals(click_event.start_coordinate, nearest) && !is_marked_cell(nearest)) {
+            edit_history.set_cell_type(maze, nearest, MazeCell.FLOOR);
+            maze.agents.push(nearest);
+            maze_edited = true;
+            replan_after_edit([nearest]);
+        }
+    } else if (click_event.tool === "line" || click_event.tool === "rectangle") {
+        paint(shape_cells(), click_event.brush_type);
     }
+    end_pointer_edit();
+};
+// The browser took the pointer over, such as for a touch that turned into a scroll, whatever was painted so far stays
+canvas.onpointercancel = end_pointer_edit;
+
+/**
+ * Undoes or redoes an edit, switching back to the maze it was made to if it replaced the whole maze
+ */
+function restore_version(result: UndoResult | undefined) {
     cancel_click();
-    canvas_refresh(maze);
+    if (result !== undefined) {
+        const version = result.version;
+        if (version.maze !== maze) {
+            reset_search();
+            maze = version.maze;
+            seed = version.seed;
+            maze_edited = version.edited;
+            maze.terrain_costs = terrain_costs;
+            maze.topology = topology;
+            maze.reload();
+            maze_config.grid_width = maze.floor_width;
+            maze_config.grid_height = maze.height;
+            maze_config.floors = maze.floors;
+            maze_replaced();
+        } else {
+            maze_edited = version.edited;
+            replan_after_edit(result.changed);
+            canvas_refresh(maze);
+            update_url();
+        }
+    }
+    update_history_controls();
+}
+function undo() {
+    if (may_edit()) restore_version(edit_history.undo(current_version()));
+}
+function redo() {
+    if (may_edit()) restore_version(edit_history.redo(current_version()));
+}
+function update_history_controls() {
+    button_undo.disabled = !edit_history.can_undo();
+    button_redo.disabled = !edit_history.can_redo();
+}
+const button_undo = document.getElementById("undo") as HTMLButtonElement;
+const button_redo = document.getElementById("redo") as HTMLButtonElement;
+button_undo.onclick = undo;
+button_redo.onclick = redo;
+document.onkeydown = function (e) {
+    // Text fields and the sandbox editor keep their own undo
+    if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) undo();
+    else if (key === "y" || (key === "z" && e.shiftKey)) redo();
+    else return;
+    e.preventDefault();
 };
 
-const audio = document.createElement("AUDIO") as HTMLAudioElement;
-const audio_context = new (window.AudioContext || window.AudioContext)();
 const config: VisualizationConfig = {
     is_paused: true,
     alg: undefined,
+    searched_alg: undefined,
+    generator: undefined,
+    timeline: undefined,
+    heat_map: undefined,
+    statistics: undefined,
+    race: undefined,
+    multi_agent: undefined,
+    frame_request: undefined,
+    last_step_time: 0,
+    steps_per_frame: 1,
+    path_interval_code: undefined,
+    drawn_path: [],
+    drawn_over: [],
     max_delay: 50,
     solve_step_speed: 0.5,
     draw_delay: 50,
-    audio_config: {
-        audio_volume: 25,
-        audio_min_frequency: 200,
-        audio_range_frequency: 100,
-        audio_ctx: audio_context,
-        gain_node: audio_context.createGain(),
-    },
+    algorithm_options: new OptionValues(),
 };
-config.audio_config?.gain_node.gain.setValueAtTime(calculate_volume(config), 0);
-config.audio_config?.gain_node.connect(config.audio_config.audio_ctx.destination);
 
-const button_start = document.getElementById("start") as HTMLButtonElement;
-button_start.onclick = function () {
+const sound = new SoundEngine(new AudioContext());
+// The audio context stays suspended until the page is interacted with
+document.addEventListener("pointerdown", () => sound.resume());
+document.addEventListener("keydown", () => sound.resume());
+
+/**
+ * Whether something being animated was paused partway, which keeps it silent until it continues
+ */
+function is_paused_midway() {
+    return config.is_paused && animated_step() !== undefined;
+}
+
+/**
+ * Plays a sound for a cell, the further the cell is from the bottom right corner the higher, panned to the side of the maze the cell is on
+ */
+function play_cell_sound(type: SoundType, coord: Coordinate, duration: number) {
+    if (is_paused_midway()) return;
+    const pitch = euclidean_distance(coord, { x: maze.width, y: maze.height }) / Math.sqrt(maze.width * maze.width + maze.height * maze.height);
+    sound.play(type, pitch, maze.width === 1 ? 0 : (2 * coord.x) / (maze.width - 1) - 1, duration);
+}
+
+/**
+ * The sound a solver event makes, undefined if it makes none
+ */
+function solver_event_sound(event: SolverEvent) {
+    if (event.type === SolverEventType.CELL_ACTIVE) return { type: SoundType.ENQUEUE, coord: event.coord };
+    if (event.type === SolverEventType.CELL_EXPLORED || event.type === SolverEventType.AGENT_MOVED) return { type: SoundType.EXPAND, coord: event.coord };
+    return undefined;
+}
+
+/**
+ * Applies a solver event to the global maze through the timeline, producing sound and drawing the final path appropriately
+ */
+function apply_visualized_solver_event(timeline: Timeline, event: SolverEvent) {
+    apply_solver_event(timeline, event);
+    const event_sound = solver_event_sound(event);
+    if (event_sound !== undefined) play_cell_sound(event_sound.type, event_sound.coord, calculate_delay(config));
+    switch (event.type) {
+        case SolverEventType.PATH_FOUND:
+            if (!is_paused_midway()) sound.play_path_found();
+            canvas_draw_path(path_cells(maze, event.path, event.leg_ends));
+            end_visualization();
+            break;
+        case SolverEventType.NO_PATH:
+            end_visualization();
+            break;
+    }
+}
+
+/**
+ * Produces the effects of a solver event whose cell changes the timeline has already replayed
+ */
+function replay_solver_event(event: SolverEvent) {
+    const event_sound = solver_event_sound(event);
+    if (event_sound !== undefined) play_cell_sound(event_sound.type, event_sound.coord, calculate_delay(config));
+    else if (event.type === SolverEventType.PATH_FOUND) config.drawn_path = path_cells(maze, event.path, event.leg_ends);
+}
+
+/**
+ * Shows the found path at once if the timeline is at the step that found it, and hides it otherwise
+ */
+function show_path_if_at_end() {
+    stop_path_animation();
+    const timeline = config.timeline;
+    if (timeline === undefined || !timeline.is_at_end() || timeline.steps.length === 0) return;
+    for (const event of timeline.steps[timeline.steps.length - 1].events) replay_solver_event(event);
+}
+
+/**
+ * Applies the next recorded step, or has the algorithm take a new step once every recorded step is applied
+ */
+function advance_timeline() {
+    const timeline = config.timeline;
+    if (timeline === undefined) return;
+    if (!timeline.is_at_end()) {
+        const step = timeline.step_forward();
+        if (step !== undefined) for (const event of step.events) replay_solver_event(event);
+    } else if (config.alg !== undefined && config.statistics !== undefined) {
+        const events = config.statistics.step(config.alg);
+        // A step function running in its worker takes no step while the page waits for it, which is not worth stepping back over
+        if (events.length === 0 && !config.alg.search_ended) return;
+        timeline.begin_step(events);
+        for (const event of events) apply_visualized_solver_event(timeline, event);
+    }
+}
+
+/**
+ * Lists the statistics of the current search, or nothing if there is none
+ */
+function update_statistics_panel() {
+    statistics_panel.replaceChildren();
+    const statistics = config.statistics;
+    if (statistics === undefined) return;
+    const path_length = statistics.path_length();
+    const optimal = statistics.is_optimal();
+    let path_text = "searching";
+    if (path_length !== undefined) path_text = path_length + " moves costing " + format_cost(statistics.path_cost ?? 0);
+    else if (statistics.looped) path_text = "none, the agent would walk in circles forever";
+    else if (statistics.finished) path_text = "none found";
+    const leg_ends = statistics.path_leg_ends;
+    let legs_text = "";
+    if (leg_ends !== undefined && leg_ends.length > 1)
+        legs_text = " (" + leg_ends.map((leg_end, leg) => leg_end - (leg === 0 ? 0 : leg_ends[leg - 1])).join(" + ") + " moves)";
+    const cheapest = config.searched_alg instanceof WaypointSearch ? "the cheapest path through the waypoints in this order" : "the cheapest path";
+    let optimal_text = "unknown until a path is found";
+    if (statistics.optimal_cost === undefined) optimal_text = "no path exists";
+    else if (optimal !== undefined) optimal_text = (optimal ? "yes" : "no") + ", " + cheapest + " costs " + format_cost(statistics.optimal_cost);
+    let expanded_text = statistics.nodes_expanded.toString();
+    const astar_nodes_expanded = statistics.astar_nodes_expanded;
+    if (astar_nodes_expanded !== undefined) {
+        expanded_text += " jump points, A* expands " + astar_nodes_expanded + " on this maze";
+        if (statistics.finished && statistics.nodes_expanded > 0)
+            expanded_text += " (" + (astar_nodes_expanded / statistics.nodes_expanded).toFixed(1) + " times as many)";
+    }
+    for (const line of [
+        "Nodes expanded: " + expanded_text,
+        ...(astar_nodes_expanded !== undefined ? ["Cells scanned between jump points: " + statistics.cells_scanned] : []),
+        ...(statistics.depth_limit !== undefined ? ["Depth limit: " + statistics.depth_limit] : []),
+        ...(statistics.replans > 0
+            ? ["Repairs after editing: " + statistics.replans + ", the last one expanded " + (statistics.nodes_expanded - statistics.nodes_expanded_before_replan) + " nodes"]
+            : []),
+        "Peak frontier size: " + statistics.peak_frontier,
+        "Path: " + path_text + legs_text,
+        "Optimal: " + optimal_text,
+        "Time spent searching: " + statistics.elapsed.toFixed(2) + " ms",
+    ]) {
+        const item = document.createElement("li");
+        item.textContent = line;
+        statistics_panel.append(item);
+    }
+}
+
+function update_timeline_controls() {
+    const steps = config.timeline?.steps.length ?? 0;
+    const position = config.timeline?.position ?? 0;
+    range_timeline.max = steps.toString();
+    range_timeline.value = position.toString();
+    step_counter.textContent = "Step " + position + " / " + steps;
+}
+
+/**
+ * Applies a generator event to the global maze, producing sound the same way solving does
+ */
+function apply_animated_generator_event(event: GeneratorEvent) {
+    apply_generator_event(maze, event);
+    if (event.type === GeneratorEventType.CELL_CHANGED && event.cell_type === MazeCell.ACTIVE) {
+        play_cell_sound(SoundType.EXPAND, event.coord, calculate_delay(config));
+    } else if (event.type === GeneratorEventType.GENERATION_ENDED) {
+        config.generator = undefined;
+        end_visualization();
+        update_url();
+    }
+}
+
+/**
+ * Begins drawing the maze generation steps until cancelled externally or the generator completes execution
+ */
+function animate_generation(generator: MazeGenerator) {
+    config.generator = generator;
+    config.is_paused = false;
+    animate();
+}
+
+function generate_step() {
+    if (config.generator === undefined || config.is_paused) return;
+    for (const event of config.generator.step()) apply_animated_generator_event(event);
+}
+
+/**
+ * Begins drawing the maze solving steps until cancelled externally or the algorithm completes execution
+ */
+function visualize(alg: MazeSolvingAlgorithm) {
+    config.alg = alg;
+    config.searched_alg = alg;
+    config.timeline = new Timeline(maze);
+    config.statistics = new RunStatistics(
+        alg instanceof WaypointSearch ? route_cost(maze, alg.stops) : cheapest_path_cost(maze, alg.start, alg.end),
+    );
+    if (alg instanceof JPS) {
+        const astar = new ASTAR(maze, alg.start, alg.end);
+        astar.heuristic = alg.heuristic;
+        config.statistics.astar_nodes_expanded = count_nodes_expanded(astar);
+    }
+    if (alg instanceof DepthLimitedDFS) config.statistics.depth_limit = alg.depth_limit;
+    update_statistics_panel();
+    config.is_paused = false;
+    animate();
+}
+
+/**
+ * The function that takes the next step of whatever is being animated, undefined if nothing is
+ */
+function animated_step() {
+    if (config.alg !== undefined || (config.timeline !== undefined && !config.timeline.is_at_end())) return visualize_step;
+    if (config.generator !== undefined) return generate_step;
+    if (is_racing()) return race_step;
+    return undefined;
+}
+
+/**
+ * Makes sure that frames keep coming while something is animated, a frame being drawn at the latest on the next one anyway
+ */
+function animate() {
+    if (config.frame_request === undefined) config.frame_request = requestAnimationFrame(animate_frame);
+}
+
+/**
+ * Takes as many steps as a frame holds once the delay the speed asks for has passed, then draws only what those steps changed
+ */
+function animate_frame(time: number) {
+    config.frame_request = undefined;
+    const step = animated_step();
+    if (step !== undefined && !config.is_paused && time - config.last_step_time >= calculate_delay(config)) {
+        config.last_step_time = time;
+        for (let i = 0; i < config.steps_per_frame && !config.is_paused; i++) step();
+    }
+    draw_frame();
+    if (animated_step() !== undefined && !config.is_paused) animate();
+}
+
+/**
+ * Brings the canvases and everything that follows the search up to date with the steps taken since the previous frame
+ */
+function draw_frame() {
+    canvas_draw_changes();
+    race_refresh(false);
+    update_statistics_panel();
+    update_timeline_controls();
+}
+
+function visualize_step() {
+    if (config.is_paused) return;
+    advance_timeline();
+    // Replaying a finished search stops once it catches up
+    if (config.alg === undefined && config.timeline?.is_at_end()) end_visualization();
+}
+
+function end_visualization() {
+    custom_solver?.stop();
+    custom_solver = undefined;
+    config.alg = undefined;
+    config.is_paused = true;
+}
+
+/**
+ * The id of the algorithm whose radio button is selected, the first one registered if none is
+ */
+function selected_algorithm_id() {
+    const definitions = algorithm_registry.all();
+    return (definitions.find((definition) => (document.getElementById(definition.id) as HTMLInputElement).checked) ?? definitions[0]).id;
+}
+
+function create_algorithm(id: string, maze: Maze, start: Coordinate, end: Coordinate): MazeSolvingAlgorithm {
+    const definition = algorithm_registry.get(id) ?? algorithm_registry.all()[0];
+    return definition.create(maze, start, end, config.algorithm_options);
+}
+
+/**
+ * The search for a path from start to end through every waypoint of the maze, each leg searched with the algorithm with the given id
+ */
+function create_search(id: string, maze: Maze, start: Coordinate, end: Coordinate): MazeSolvingAlgorithm {
+    if (maze.waypoints.length === 0) return create_algorithm(id, maze, start, end);
+    const stops = visiting_order(maze, start, end, maze.waypoints, select_waypoint_order.value === "optimized");
+    return new WaypointSearch(maze, stops, (maze, start, end) => create_algorithm(id, maze, start, end));
+}
+
+/**
+ * The algorithm with the given id under the name it is registered with
+ */
+function create_contestant(id: string): RaceContestant {
+    return {
+        name: algorithm_registry.get(id)?.name ?? id,
+        create: (maze, start, end) => create_search(id, maze, start, end),
+    };
+}
+
+function is_racing() {
+    return config.race !== undefined && !config.race.is_finished();
+}
+
+/**
+ * Starts racing every algorithm ticked in the race checkboxes against each other on copies of the current maze
+ */
+function start_race() {
+    end_race();
+    end_visualization();
+    stop_path_animation();
+    config.timeline = undefined;
+    maze.reload();
+    canvas_refresh(maze);
+    update_timeline_controls();
+
+    if (maze.start === undefined || maze.end === undefined) return;
+    sandbox_error.textContent = "";
+    const contestants = algorithm_registry
+        .all()
+        .filter(is_raced)
+        .map((definition) => create_contestant(definition.id));
+    if (contestants.length === 0) return;
+    config.race = new Race(maze, maze.start, maze.end, contestants);
+    race_cell_width = race_cell_height = cell_size(maze, 8, 800);
+    race_drawn_over = config.race.entries.map(() => []);
+    for (const entry of config.race.entries) {
+        const figure = document.createElement("figure");
+        const race_canvas = document.createElement("canvas");
+        const size = entry.maze.topology.canvas_size(entry.maze, race_cell_width, race_cell_height);
+        race_canvas.width = size.width;
+        race_canvas.height = size.height;
+        const caption = document.createElement("figcaption");
+        figure.append(race_canvas, caption);
+        race_canvases.append(figure);
+    }
+    race_refresh(false);
+    config.is_paused = false;
+    animate();
+}
+
+function race_step() {
+    if (config.race === undefined || config.is_paused) return;
+    config.race.step();
+    if (config.race.is_finished()) {
+        show_race_ranking(config.race);
+        end_visualization();
+    }
+}
+
+/**
+ * Redraws the cells of every race canvas that changed since it was last drawn, or all of them, along with the path its algorithm found, if any
+ */
+function race_refresh(redraw_all: boolean) {
+    if (config.race === undefined) return;
+    config.race.entries.forEach((entry, index) => {
+        const figure = race_canvases.children[index];
+        const race_ctx = figure.querySelector("canvas")?.getContext("2d");
+        if (race_ctx === null || race_ctx === undefined) return;
+        if (redraw_all) entry.maze.take_changed_cells();
+        if (redraw_all) canvas_draw_maze(race_ctx, entry.maze, race_cell_width, race_cell_height, palette);
+        else canvas_draw_changed_cells(race_ctx, entry.maze, race_drawn_over[index], race_cell_width, race_cell_height, palette);
+        const path = entry.statistics.path;
+        const cells = path === undefined ? [] : path_cells(entry.maze, path, entry.statistics.path_leg_ends);
+        const drawn_over = canvas_draw_path_cells(race_ctx, entry.maze, cells, race_cell_width, race_cell_height);
+        const agent = agent_of(entry.alg);
+        if (agent !== undefined) {
+            canvas_draw_agent(race_ctx, entry.maze, agent.pose(), race_cell_width, race_cell_height);
+            drawn_over.push(agent.pose().coord);
+        }
+        race_drawn_over[index] = drawn_over;
+        const caption = figure.querySelector("figcaption");
+        if (caption !== null) caption.textContent = entry.name + ": " + entry.statistics.nodes_expanded + " nodes expanded";
+    });
+}
+
+function show_race_ranking(race: Race) {
+    race_ranking.replaceChildren();
+    for (const { name, statistics } of race.ranking()) {
+        const item = document.createElement("li");
+        if (statistics.looped) item.textContent = name + ": walks in circles forever after expanding " + statistics.nodes_expanded + " nodes";
+        else if (statistics.path === undefined) item.textContent = name + ": no path found after expanding " + statistics.nodes_expanded + " nodes";
+        else
+            item.textContent =
+                name + ": " + statistics.nodes_expanded + " nodes expanded, path of " + statistics.path_length() + " moves costing " + format_cost(statistics.path_cost ?? 0);
+        race_ranking.append(item);
+    }
+}
+
+/**
+ * Stops the race and removes its canvases and ranking
+ */
+function end_race() {
+    config.race = undefined;
+    race_canvases.replaceChildren();
+    race_ranking.replaceChildren();
+}
+
+const planner_types = new Map([
+    ["independent", PlannerType.INDEPENDENT],
+    ["prioritized", PlannerType.PRIORITIZED],
+    ["cbs", PlannerType.CBS],
+]);
+const select_planner = document.getElementById("planner") as HTMLSelectElement;
+const planner_status = document.getElementById("planner status") as HTMLSpanElement;
+const button_plan_agents = document.getElementById("plan agents") as HTMLButtonElement;
+
+function stop_multi_agent() {
+    const run = config.multi_agent;
+    if (run === undefined) return;
+    clearInterval(run.interval_code);
+    config.multi_agent = undefined;
+    config.drawn_over.push(...run.plans.map((plan) => position_at(plan, run.time)), ...run.conflicts.map((conflict) => conflict.coord));
+    planner_status.textContent = "";
+}
+
+/**
+ * Plans the agents placed on the maze with the chosen planner and moves them along their plans, a timestep at a time
+ */
+button_plan_agents.onclick = function () {
+    if (config.generator !== undefined) return;
     cancel_click();
-    // Unpause
-    if (config.is_paused && config.alg !== undefined) {
-        config.is_paused = false;
+    reset_search();
+    maze.reload();
+    const agents = agent_goals(maze);
+    if (agents.length === 0) {
+        planner_status.textContent = "Place the start and goal of at least one agent with the agent brush";
+        canvas_refresh(maze);
         return;
     }
-    
+    const started = performance.now();
+    const result = plan_agents(maze, agents, planner_types.get(select_planner.value) ?? PlannerType.CBS);
+    const elapsed = performance.now() - started;
+    if ("error" in result) {
+        planner_status.textContent = result.error;
+        canvas_refresh(maze);
+        return;
+    }
+    const run: MultiAgentRun = { plans: result.plans, conflicts: result.conflicts, time: 0, interval_code: undefined };
+    config.multi_agent = run;
+    const end = makespan(run.plans);
+    const collisions = run.conflicts.length === 1 ? "1 collision" : run.conflicts.length + " collisions";
+    const nodes = result.nodes_expanded > 0 ? ", " + result.nodes_expanded + " constraint tree nodes expanded" : "";
+    const summary = "Sum of costs " + sum_of_costs(run.plans) + ", makespan " + end + ", " + collisions + nodes + " in " + elapsed.toFixed(2) + " ms";
+    const show_time = () => (planner_status.textContent = "Timestep " + run.time + " / " + end + ". " + summary);
+    show_time();
+    canvas_refresh(maze);
+    run.interval_code = setInterval(() => {
+        if (run.time >= end) {
+            clearInterval(run.interval_code);
+            return;
+        }
+        run.time++;
+        show_time();
+        canvas_draw_changes();
+    }, 4 * calculate_delay(config));
+};
+
+/**
+ * Starts visualizing the selected algorithm from scratch
+ */
+function start_search() {
     // Redo visualization
+    end_race();
+    stop_path_animation();
+    stop_multi_agent();
     maze.reload();
 
     // Normal start
-    if ((document.getElementById("bfs") as HTMLInputElement).checked) config.alg = new BFS(config, maze);
-    if ((document.getElementById("gbfs") as HTMLInputElement).checked) config.alg = new GBFS(config, maze);
-    if ((document.getElementById("a*") as HTMLInputElement).checked) config.alg = new ASTAR(config, maze);
-    if (config.alg !== undefined) config.alg.visualize();
+    if (maze.start === undefined || maze.end === undefined) return;
+    sandbox_error.textContent = "";
+    visualize(create_search(selected_algorithm_id(), maze, maze.start, maze.end));
+    update_url();
+}
+
+const button_start = document.getElementById("start") as HTMLButtonElement;
+button_start.onclick = function () {
+    cancel_click();
+    // Unpause
+    if (config.is_paused && (config.alg !== undefined || config.generator !== undefined || is_racing())) {
+        config.is_paused = false;
+        animate();
+        return;
+    }
+    // Resume replaying a finished search that was stepped back
+    if (config.generator === undefined && config.timeline !== undefined && !config.timeline.is_at_end()) {
+        config.is_paused = false;
+        animate();
+        return;
+    }
+    if (config.generator !== undefined) return;
+    start_search();
+};
+const button_race = document.getElementById("race") as HTMLButtonElement;
+button_race.onclick = function () {
+    cancel_click();
+    if (config.generator !== undefined) return;
+    start_race();
 };
 const button_stop = document.getElementById("stop") as HTMLInputElement;
 button_stop.onclick = function () {
     config.is_paused = true;
+    sound.silence();
+};
+
+const button_step_back = document.getElementById("step back") as HTMLButtonElement;
+button_step_back.onclick = function () {
+    cancel_click();
+    if (config.timeline === undefined) return;
+    config.is_paused = true;
+    config.timeline.step_back();
+    show_path_if_at_end();
+    draw_frame();
 };
+const button_step_forward = document.getElementById("step forward") as HTMLButtonElement;
+button_step_forward.onclick = function () {
+    cancel_click();
+    if (config.generator !== undefined) return;
+    if (config.timeline === undefined) start_search();
+    config.is_paused = true;
+    advance_timeline();
+    draw_frame();
+};
+const range_timeline = document.getElementById("range timeline") as HTMLInputElement;
+const step_counter = document.getElementById("step counter") as HTMLSpanElement;
+range_timeline.oninput = function () {
+    cancel_click();
+    if (config.timeline === undefined) return;
+    config.is_paused = true;
+    config.timeline.seek(Number(range_timeline.value));
+    show_path_if_at_end();
+    draw_frame();
+};
+
+const statistics_panel = document.getElementById("statistics") as HTMLUListElement;
+
+const select_theme = document.getElementById("theme") as HTMLSelectElement;
+const select_heat_map = document.getElementById("heat map") as HTMLSelectElement;
+const legend = document.getElementById("legend") as HTMLUListElement;
+/** The heat map shown for each option of the heat map select, none being shown for the options missing from it */
+const heat_map_types = new Map([
+    ["expansion order", HeatMapType.EXPANSION_ORDER],
+    ["distance from start", HeatMapType.DISTANCE_FROM_START],
+]);
+/**
+ * Lists what every color of the current theme means, along with the colors of the heat map if one is shown
+ */
+function update_legend() {
+    legend.replaceChildren();
+    const entries = legend_entries.map((entry) => ({ label: entry.label, background: entry.color(palette), width: "1em" }));
+    const heat_map_type = heat_map_types.get(select_heat_map.value);
+    if (heat_map_type !== undefined)
+        entries.push({
+            label: heat_map_type === HeatMapType.EXPANSION_ORDER ? "Expanded first to expanded last" : "Closest to start to furthest from start",
+            background: "linear-gradient(to right, " + palette.heat.join(", ") + ")",
+            width: "4em",
+        });
+    for (const { label, background, width } of entries) {
+        const swatch = document.createElement("span");
+        swatch.style.display = "inline-block";
+        swatch.style.width = width;
+        swatch.style.height = "1em";
+        swatch.style.marginRight = "0.3em";
+        swatch.style.verticalAlign = "middle";
+        swatch.style.border = "1px solid " + palette.page_text;
+        swatch.style.background = background;
+        const item = document.createElement("li");
+        item.append(swatch, label);
+        legend.append(item);
+    }
+}
+select_theme.onchange = function () {
+    palette = themes.get(select_theme.value) ?? classic_palette;
+    document.body.style.background = palette.page_background;
+    document.body.style.color = palette.page_text;
+    tooltip.style.background = palette.page_background;
+    tooltip.style.borderColor = palette.page_text;
+    update_legend();
+    canvas_refresh(maze);
+    race_refresh(true);
+};
+select_heat_map.onchange = function () {
+    update_legend();
+    canvas_refresh(maze);
+};
+update_legend();
+
+let benchmark_rows: BenchmarkRow[] = [];
+const benchmark_table = document.getElementById("benchmark table") as HTMLTableElement;
+const benchmark_status = document.getElementById("benchmark status") as HTMLSpanElement;
+const textfield_benchmark_mazes = document.getElementById("text benchmark mazes") as HTMLInputElement;
+textfield_benchmark_mazes.value = "20";
+textfield_benchmark_mazes.onchange = function () {
+    textfield_benchmark_mazes.value = benchmark_maze_count(Number(textfield_benchmark_mazes.value)).toString();
+};
+/** The benchmark in progress and the timeout that runs its next chunk, undefined if none is running */
+let running_benchmark: BenchmarkRun | undefined = undefined;
+/** Milliseconds a benchmark runs for before it lets the page handle input and draw again */
+const benchmark_chunk_time = 50;
+const button_benchmark = document.getElementById("benchmark") as HTMLButtonElement;
+const button_cancel_benchmark = document.getElementById("cancel benchmark") as HTMLButtonElement;
+button_benchmark.onclick = function () {
+    if (running_benchmark !== undefined) return;
+    const benchmark_config = { ...maze_config };
+    // Seeded as well, so that the same seed benchmarks the same mazes
+    const random = seeded_random(seed);
+    const maze_count = benchmark_maze_count(Number(textfield_benchmark_mazes.value));
+    textfield_benchmark_mazes.value = maze_count.toString();
+    const run: BenchmarkRun = {
+        benchmark: new Benchmark(
+            algorithm_registry
+                .all()
+                .filter((definition) => !definition.asynchronous)
+                .map((definition) => create_contestant(definition.id)),
+            () => create_generator(benchmark_config, random),
+            maze_count,
+            topology,
+        ),
+        timeout_code: undefined,
+    };
+    running_benchmark = run;
+    set_benchmarking(true);
+    run_benchmark_chunk(run);
+};
+/**
+ * Runs the benchmark for a while, then shows its progress and lets the page react before it continues
+ */
+function run_benchmark_chunk(run: BenchmarkRun) {
+    const finished = run.benchmark.run_for(benchmark_chunk_time);
+    benchmark_status.textContent = "Benchmarked " + run.benchmark.runs_done() + " / " + run.benchmark.total_runs() + " runs";
+    if (!finished) {
+        run.timeout_code = setTimeout(() => run_benchmark_chunk(run), 0);
+        return;
+    }
+    running_benchmark = undefined;
+    set_benchmarking(false);
+    benchmark_rows = run.benchmark.rows();
+    show_benchmark_table(benchmark_rows);
+}
+button_cancel_benchmark.onclick = function () {
+    const run = running_benchmark;
+    if (run === undefined) return;
+    clearTimeout(run.timeout_code);
+    running_benchmark = undefined;
+    set_benchmarking(false);
+    benchmark_status.textContent = "Benchmark cancelled after " + run.benchmark.runs_done() + " / " + run.benchmark.total_runs() + " runs";
+};
+function set_benchmarking(benchmarking: boolean) {
+    button_benchmark.disabled = benchmarking;
+    button_cancel_benchmark.disabled = !benchmarking;
+}
+set_benchmarking(false);
+const button_export_csv = document.getElementById("export csv") as HTMLButtonElement;
+button_export_csv.onclick = function () {
+    if (benchmark_rows.length === 0) return;
+    download(new Blob([benchmark_csv(benchmark_rows)], { type: "text/csv" }), "benchmark.csv");
+};
+/**
+ * Has the browser save the blob as a file
+ */
+function download(blob: Blob, file_name: string) {
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = file_name;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
+function show_benchmark_table(rows: BenchmarkRow[]) {
+    benchmark_table.replaceChildren();
+    const add_row = (cells: string[], cell_tag: "th" | "td") => {
+        const row = benchmark_table.insertRow();
+        for (const text of cells) {
+            const cell = document.createElement(cell_tag);
+            cell.textContent = text;
+            row.append(cell);
+        }
+    };
+    add_row(["Algorithm", "Paths found", "Optimal paths", "Nodes expanded", "Peak frontier", "Path length", "Path cost", "Time (ms)"], "th");
+    for (const row of rows) {
+        add_row(
+            [
+                row.name,
+                row.paths_found + " / " + row.runs,
+                row.optimal_paths + " / " + row.paths_found,
+                row.average_nodes_expanded.toFixed(1),
+                row.average_peak_frontier.toFixed(1),
+                row.average_path_length.toFixed(1),
+                row.average_path_cost.toFixed(1),
+                row.average_time.toFixed(3),
+            ],
+            "td",
+        );
+    }
+}
 
 const button_clear = document.getElementById("clear") as HTMLButtonElement;
 button_clear.onclick = function () {
     cancel_click();
-    if (config.alg !== undefined) {
-        config.alg.search_ended = true;
-        clearInterval(config.alg.interval_code);
-    }
-    config.alg?.end_visualization();
+    if (config.generator !== undefined) return;
+    reset_search();
     maze.reload();
     canvas_refresh(maze);
 };
-const button_regenerate = document.getElementById("regenerate") as HTMLButtonElement;
-button_regenerate.onclick = function () {
+
+/**
+ * Ends the search, race or generation in progress and forgets everything about it
+ */
+function reset_search() {
+    // End the algorithm or previous generation prematurely so that it can be garbage collected
+    config.generator = undefined;
+    end_visualization();
+    end_race();
+    stop_path_animation();
+    stop_multi_agent();
+    config.timeline = undefined;
+    config.statistics = undefined;
+    config.searched_alg = undefined;
+    update_timeline_controls();
+    update_statistics_panel();
+}
+
+/**
+ * Animates the selected generator making a new maze from the given seed
+ */
+function regenerate(new_seed: number) {
     cancel_click();
-    // End the algorithm prematurely so that it can be garbage collected
-    if (config.alg !== undefined) {
-        config.alg.search_ended = true;
-        clearInterval(config.alg.interval_code);
-    }
-    config.alg = undefined;
+    reset_search();
+    const previous = current_version();
+    seed = new_seed;
+    textfield_seed.value = seed.toString();
+    maze_edited = false;
     maze = new Maze(maze_config);
-    canvas.width = maze.width * cell_width;
-    canvas.height = maze.height * cell_height;
+    maze.terrain_costs = terrain_costs;
+    maze.topology = topology;
+    // The maze is remembered as it is now, the generator completes it in place
+    edit_history.maze_replaced(previous, current_version());
+    update_history_controls();
+    resize_canvas();
+    canvas_refresh(maze);
+    animate_generation(create_generator(maze_config, seeded_random(seed)));
+}
+/**
+ * The size cells are drawn at, smaller on larger mazes so that the canvas stays within what browsers can draw
+ */
+function cell_size(maze: Maze, largest: number, canvas_size: number) {
+    return Math.max(1, Math.min(largest, Math.floor(canvas_size / Math.max(maze.width, maze.height))));
+}
+function resize_canvas() {
+    cell_width = cell_height = cell_size(maze, 15, 1500);
+    const size = maze.topology.canvas_size(maze, cell_width, cell_height);
+    canvas.width = size.width;
+    canvas.height = size.height;
+}
+const select_topology = document.getElementById("topology") as HTMLSelectElement;
+const checkbox_corner_cutting = document.getElementById("corner cutting") as HTMLInputElement;
+const checkbox_dynamic_editing = document.getElementById("dynamic editing") as HTMLInputElement;
+select_topology.onchange = checkbox_corner_cutting.onchange = function () {
+    cancel_click();
+    if (config.generator !== undefined) return;
+    // A search made on the previous topology no longer makes sense on the new one
+    reset_search();
+    maze.reload();
+    topology = create_topology();
+    maze.topology = topology;
+    resize_canvas();
     canvas_refresh(maze);
+    update_url();
+};
+const button_regenerate = document.getElementById("regenerate") as HTMLButtonElement;
+button_regenerate.onclick = function () {
+    regenerate(random_seed());
+};
+const textfield_seed = document.getElementById("text seed") as HTMLInputElement;
+textfield_seed.value = seed.toString();
+textfield_seed.onchange = function () {
+    regenerate(Math.floor(Math.abs(Number(textfield_seed.value)) || 0) % 4294967296);
 };
 
 const textfield_volume = document.getElementById("text volume") as HTMLInputElement;
 const range_volume = document.getElementById("range volume") as HTMLInputElement;
-if (config.audio_config !== undefined) textfield_volume.value = config.audio_config.audio_volume.toString();
+textfield_volume.value = sound.volume.toString();
 textfield_volume.onchange = function () {
-    if (config.audio_config === undefined) return;
     const new_value = Math.min(Math.max(Number(textfield_volume.value), 0), 100);
-    config.audio_config.audio_volume = new_value;
+    sound.set_volume(new_value);
     range_volume.value = new_value.toString();
     textfield_volume.value = new_value.toString();
-    config.audio_config.audio_volume = new_value;
-    config.audio_config?.gain_node.gain.setValueAtTime(calculate_volume(config), 0);
 };
 range_volume.oninput = function () {
-    if (config.audio_config !== undefined) config.audio_config.audio_volume = Number(range_volume.value);
+    sound.set_volume(Number(range_volume.value));
     textfield_volume.value = range_volume.value;
-    config.audio_config?.gain_node.gain.setValueAtTime(calculate_volume(config), 0);
+};
+
+const select_scale = document.getElementById("scale") as HTMLSelectElement;
+select_scale.onchange = function () {
+    sound.scale = scales.get(select_scale.value) ?? sound.scale;
+};
+const select_waveform = document.getElementById("waveform") as HTMLSelectElement;
+select_waveform.onchange = function () {
+    sound.waveform = select_waveform.value as OscillatorType;
+};
+const textfield_voice_limit = document.getElementById("text voice limit") as HTMLInputElement;
+const range_voice_limit = document.getElementById("range voice limit") as HTMLInputElement;
+textfield_voice_limit.value = sound.voice_limit.toString();
+textfield_voice_limit.onchange = function () {
+    const new_value = Math.min(Math.max(Math.floor(Number(textfield_voice_limit.value)) || 1, 1), 16);
+    sound.voice_limit = new_value;
+    range_voice_limit.value = new_value.toString();
+    textfield_voice_limit.value = new_value.toString();
+};
+range_voice_limit.oninput = function () {
+    sound.voice_limit = Number(range_voice_limit.value);
+    textfield_voice_limit.value = range_voice_limit.value;
 };
 
 const textfield_speed = document.getElementById("text speed") as HTMLInputElement;
@@ -393,21 +1928,41 @@ textfield_speed.value = config.solve_step_speed.toString();
 textfield_speed.onchange = function () {
     const new_value = Math.min(Math.max(Number(textfield_speed.value), 0), 1);
     config.solve_step_speed = new_value;
-    config.alg?.update_visualize_interval();
     range_speed.value = new_value.toString();
     textfield_speed.value = new_value.toFixed(2).toString();
+    update_url();
 };
 range_speed.oninput = function () {
     config.solve_step_speed = Number(range_speed.value);
     textfield_speed.value = Number(range_speed.value).toFixed(2).toString();
-    config.alg?.update_visualize_interval();
+};
+range_speed.onchange = function () {
+    update_url();
+};
+
+const textfield_steps_per_frame = document.getElementById("text steps per frame") as HTMLInputElement;
+const range_steps_per_frame = document.getElementById("range steps per frame") as HTMLInputElement;
+textfield_steps_per_frame.value = config.steps_per_frame.toString();
+textfield_steps_per_frame.onchange = function () {
+    const new_value = Math.min(Math.max(Math.floor(Number(textfield_steps_per_frame.value)) || 1, 1), 1000);
+    config.steps_per_frame = new_value;
+    range_steps_per_frame.value = new_value.toString();
+    textfield_steps_per_frame.value = new_value.toString();
+    update_url();
+};
+range_steps_per_frame.oninput = function () {
+    config.steps_per_frame = Number(range_steps_per_frame.value);
+    textfield_steps_per_frame.value = range_steps_per_frame.value;
+};
+range_steps_per_frame.onchange = function () {
+    update_url();
 };
 
 const textfield_grid_width = document.getElementById("text grid width") as HTMLInputElement;
 const range_grid_width = document.getElementById("range grid width") as HTMLInputElement;
 textfield_grid_width.value = maze_config.grid_width.toString();
 textfield_grid_width.onchange = function () {
-    const new_value = Math.min(Math.max(Number(textfield_grid_width.value), 4), 100);
+    const new_value = Math.min(Math.max(Number(textfield_grid_width.value), 4), 1000);
     maze_config.grid_width = new_value;
     range_grid_width.value = new_value.toString();
     textfield_grid_width.value = new_value.toString();
@@ -421,7 +1976,7 @@ const textfield_grid_height = document.getElementById("text grid height") as HTM
 const range_grid_height = document.getElementById("range grid height") as HTMLInputElement;
 textfield_grid_height.value = maze_config.grid_height.toString();
 textfield_grid_height.onchange = function () {
-    const new_value = Math.min(Math.max(Number(textfield_grid_height.value), 4), 100);
+    const new_value = Math.min(Math.max(Number(textfield_grid_height.value), 4), 1000);
     maze_config.grid_height = new_value;
     range_grid_height.value = new_value.toString();
     textfield_grid_height.value = new_value.toString();
@@ -431,4 +1986,693 @@ range_grid_height.oninput = function () {
     textfield_grid_height.value = range_grid_height.value;
 };
 
+const textfield_floors = document.getElementById("text floors") as HTMLInputElement;
+const range_floors = document.getElementById("range floors") as HTMLInputElement;
+textfield_floors.value = (maze_config.floors ?? 1).toString();
+textfield_floors.onchange = function () {
+    const new_value = Math.min(Math.max(Math.floor(Number(textfield_floors.value)) || 1, 1), 4);
+    maze_config.floors = new_value;
+    range_floors.value = new_value.toString();
+    textfield_floors.value = new_value.toString();
+};
+range_floors.oninput = function () {
+    maze_config.floors = Number(range_floors.value);
+    textfield_floors.value = range_floors.value;
+};
+
+select_waypoint_order.onchange = function () {
+    update_url();
+};
+
+const algorithm_list = document.getElementById("algorithms") as HTMLSpanElement;
+const algorithm_option_controls = document.getElementById("algorithm options") as HTMLSpanElement;
+const algorithm_description = document.getElementById("algorithm description") as HTMLParagraphElement;
+const race_algorithm_list = document.getElementById("race algorithms") as HTMLSpanElement;
+/**
+ * Builds the radio button and race checkbox of every registered algorithm and a control for every option they use
+ */
+function build_algorithm_controls() {
+    algorithm_list.replaceChildren();
+    race_algorithm_list.replaceChildren();
+    algorithm_option_controls.replaceChildren();
+    algorithm_registry.all().forEach((definition, index) => {
+        const radio = document.createElement("input");
+        radio.type = "radio";
+        radio.id = definition.id;
+        radio.name = "path_algorithm";
+        radio.value = definition.name;
+        radio.checked = index === 0;
+        radio.onchange = update_algorithm_controls;
+        const label = document.createElement("label");
+        label.htmlFor = radio.id;
+        label.textContent = definition.name;
+        label.title = definition.description;
+        algorithm_list.append(radio, label, document.createElement("br"));
+
+        if (definition.asynchronous) return;
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.id = "race " + definition.id;
+        checkbox.name = "race_algorithm";
+        checkbox.checked = definition.raced_by_default;
+        checkbox.onchange = update_algorithm_controls;
+        const race_label = document.createElement("label");
+        race_label.htmlFor = checkbox.id;
+        race_label.textContent = definition.short_name;
+        race_label.title = definition.description;
+        race_algorithm_list.append(checkbox, race_label, " ");
+    });
+    for (const option of algorithm_registry.options()) algorithm_option_controls.append(create_option_control(option));
+    update_algorithm_controls();
+}
+
+/**
+ * Whether the race checkbox of the algorithm is ticked, which it cannot be if the algorithm has none
+ */
+function is_raced(definition: AlgorithmDefinition) {
+    const checkbox = document.getElementById("race " + definition.id) as HTMLInputElement | null;
+    return checkbox !== null && checkbox.checked;
+}
+
+/**
+ * The label and inputs that set an option, a select for a choice and a text field, with a slider if it asks for one, for a number
+ */
+function create_option_control(option: AlgorithmOption) {
+    const control = document.createElement("span");
+    control.id = "option " + option.id;
+    const label = document.createElement("label");
+    label.textContent = option.label + " ";
+    if (option.type === OptionType.CHOICE) {
+        const select = document.createElement("select");
+        select.id = label.htmlFor = "select " + option.id;
+        for (const choice of option.choices) {
+            const element = document.createElement("option");
+            element.value = choice.value;
+            element.textContent = choice.label;
+            select.append(element);
+        }
+        select.value = config.algorithm_options.choice(option);
+        select.onchange = function () {
+            select.value = config.algorithm_options.set_choice(option, select.value);
+            update_url();
+        };
+        control.append(label, select, document.createElement("br"));
+        return control;
+    }
+    const textfield = document.createElement("input");
+    textfield.type = "text";
+    textfield.id = label.htmlFor = "text " + option.id;
+    textfield.size = 5;
+    textfield.value = config.algorithm_options.number(option).toString();
+    control.append(label);
+    if (option.slider) {
+        const range = document.createElement("input");
+        range.type = "range";
+        range.id = label.htmlFor = "range " + option.id;
+        range.className = "slider";
+        range.min = option.min.toString();
+        range.max = option.max.toString();
+        range.step = option.step.toString();
+        range.value = textfield.value;
+        range.oninput = function () {
+            textfield.value = config.algorithm_options.set_number(option, Number(range.value)).toString();
+        };
+        range.onchange = function () {
+            update_url();
+        };
+        control.append(range, " ");
+    }
+    textfield.onchange = function () {
+        textfield.value = config.algorithm_options.set_number(option, Number(textfield.value)).toString();
+        const range = document.getElementById("range " + option.id) as HTMLInputElement | null;
+        if (range !== null) range.value = textfield.value;
+        update_url();
+    };
+    control.append(textfield, document.createElement("br"));
+    return control;
+}
+
+/**
+ * Sets the control of every option to the value the option has, for when the values were changed all at once
+ */
+function show_option_values() {
+    for (const option of algorithm_registry.options()) {
+        if (option.type === OptionType.CHOICE) {
+            (document.getElementById("select " + option.id) as HTMLSelectElement).value = config.algorithm_options.choice(option);
+            continue;
+        }
+        const value = config.algorithm_options.number(option).toString();
+        (document.getElementById("text " + option.id) as HTMLInputElement).value = value;
+        const range = document.getElementById("range " + option.id) as HTMLInputElement | null;
+        if (range !== null) range.value = value;
+    }
+}
+
+/**
+ * Describes the selected algorithm and shows the controls of the options it or any algorithm ticked to race uses
+ */
+function update_algorithm_controls() {
+    const selected = algorithm_registry.get(selected_algorithm_id());
+    algorithm_description.textContent = selected?.description ?? "";
+    const shown = algorithm_registry
+        .all()
+        .filter((definition) => definition === selected || is_raced(definition));
+    for (const option of algorithm_registry.options()) {
+        const used = shown.some((definition) => definition.options.some((used_option) => used_option.id === option.id));
+        (document.getElementById("option " + option.id) as HTMLSpanElement).hidden = !used;
+    }
+}
+
+const textarea_sandbox = document.getElementById("sandbox code") as HTMLTextAreaElement;
+const sandbox_error = document.getElementById("sandbox error") as HTMLSpanElement;
+/** The search running the step function in the editor, whose worker is stopped once the search is abandoned */
+let custom_solver: CustomSolver | undefined = undefined;
+textarea_sandbox.value = example_step_function;
+algorithm_registry.register({
+    id: "custom",
+    name: "Custom Step Function",
+    short_name: "Custom",
+    description: "Runs the step function in the editor, which sees the maze only through a read-only view and reports what it does through search.",
+    options: [],
+    raced_by_default: false,
+    asynchronous: true,
+    // Compiled for every search anew, so that it runs the code as it currently is
+    create: (maze, start, end) => {
+        custom_solver?.stop();
+        custom_solver = new CustomSolver(maze, start, end, textarea_sandbox.value, create_sandbox_worker, (message) => {
+            sandbox_error.textContent = "Custom step function: " + message;
+        });
+        return custom_solver;
+    },
+});
+build_algorithm_controls();
+const button_run_sandbox = document.getElementById("run sandbox") as HTMLButtonElement;
+button_run_sandbox.onclick = function () {
+    cancel_click();
+    if (config.generator !== undefined) return;
+    (document.getElementById("custom") as HTMLInputElement).checked = true;
+    update_algorithm_controls();
+    start_search();
+};
+
+const cost_terrains = [
+    [MazeCell.GRASS, "grass"],
+    [MazeCell.MUD, "mud"],
+    [MazeCell.WATER, "water"],
+] as const;
+for (const [terrain, name] of cost_terrains) {
+    const textfield_cost = document.getElementById("cost " + name) as HTMLInputElement;
+    textfield_cost.value = (terrain_costs.get(terrain) ?? 1).toString();
+    textfield_cost.onchange = function () {
+        const new_value = Math.min(Math.max(Number(textfield_cost.value) || 1, 1), 100);
+        terrain_costs.set(terrain, new_value);
+        textfield_cost.value = new_value.toString();
+        update_url();
+    };
+}
+
+function current_state(): SharedState {
+    return {
+        grid_width: maze.floor_width,
+        grid_height: maze.height,
+        floors: maze.floors,
+        generator: (document.getElementById("generator") as HTMLSelectElement).value,
+        seed: seed,
+        topology: select_topology.value,
+        corner_cutting: checkbox_corner_cutting.checked,
+        cells: maze_edited ? encode_terrain(maze) : undefined,
+        start: maze_edited ? maze.start : undefined,
+        end: maze_edited ? maze.end : undefined,
+        waypoints: maze_edited ? maze.waypoints : undefined,
+        portals: maze_edited ? maze.portals : undefined,
+        agents: maze_edited ? maze.agents : undefined,
+        waypoint_order: select_waypoint_order.value,
+        algorithm: selected_algorithm_id(),
+        speed: config.solve_step_speed,
+        steps_per_frame: config.steps_per_frame,
+        depth_limit: config.algorithm_options.number(depth_limit_option),
+        heuristic: config.algorithm_options.choice(heuristic_option),
+        astar_weight: config.algorithm_options.number(weight_option),
+        grass_cost: terrain_costs.get(MazeCell.GRASS) ?? 1,
+        mud_cost: terrain_costs.get(MazeCell.MUD) ?? 1,
+        water_cost: terrain_costs.get(MazeCell.WATER) ?? 1,
+    };
+}
+
+/**
+ * Keeps the url describing the current maze and settings, so that it can be shared at any time
+ */
+function update_url() {
+    history.replaceState(null, "", "#" + encode_state(current_state()));
+}
+
+/**
+ * Recreates the maze and settings described by a shared url, keeping the current setting for anything the url leaves out
+ */
+function load_state(state: Partial<SharedState>) {
+    cancel_click();
+    reset_search();
+    if (state.grid_width !== undefined) maze_config.grid_width = Math.min(Math.max(Math.floor(state.grid_width), 4), 1000);
+    if (state.grid_height !== undefined) maze_config.grid_height = Math.min(Math.max(Math.floor(state.grid_height), 4), 1000);
+    if (state.floors !== undefined) maze_config.floors = Math.min(Math.max(Math.floor(state.floors), 1), 4);
+    if (state.generator !== undefined) (document.getElementById("generator") as HTMLSelectElement).value = state.generator;
+    if (state.seed !== undefined) seed = Math.floor(Math.abs(state.seed)) % 4294967296;
+    if (state.topology !== undefined) select_topology.value = state.topology;
+    if (state.corner_cutting !== undefined) checkbox_corner_cutting.checked = state.corner_cutting;
+    topology = create_topology();
+    for (const [terrain, cost] of [
+        [MazeCell.GRASS, state.grass_cost],
+        [MazeCell.MUD, state.mud_cost],
+        [MazeCell.WATER, state.water_cost],
+    ] as const) {
+        if (cost !== undefined) terrain_costs.set(terrain, Math.min(Math.max(cost, 1), 100));
+    }
+    if (state.speed !== undefined) config.solve_step_speed = Math.min(Math.max(state.speed, 0.01), 1);
+    if (state.steps_per_frame !== undefined) config.steps_per_frame = Math.min(Math.max(Math.floor(state.steps_per_frame), 1), 1000);
+    if (state.depth_limit !== undefined) config.algorithm_options.set_number(depth_limit_option, state.depth_limit);
+    if (state.heuristic !== undefined) config.algorithm_options.set_choice(heuristic_option, state.heuristic);
+    if (state.waypoint_order !== undefined) select_waypoint_order.value = state.waypoint_order;
+    if (state.astar_weight !== undefined) config.algorithm_options.set_number(weight_option, state.astar_weight);
+    if (state.algorithm !== undefined && algorithm_registry.get(state.algorithm) !== undefined)
+        (document.getElementById(state.algorithm) as HTMLInputElement).checked = true;
+    update_algorithm_controls();
+
+    const previous = current_version();
+    maze = generate_maze(create_generator(maze_config, seeded_random(seed)));
+    maze_edited = false;
+    if (state.cells !== undefined) {
+        const edited_maze = new Maze(maze_config);
+        if (decode_terrain(edited_maze, state.cells)) {
+            edited_maze.start = state.start !== undefined && edited_maze.is_in_bounds(state.start) ? state.start : maze.start;
+            edited_maze.end = state.end !== undefined && edited_maze.is_in_bounds(state.end) ? state.end : maze.end;
+            for (const waypoint of state.waypoints ?? []) {
+                if (!edited_maze.is_in_bounds(waypoint) || coordinate_equals(waypoint, edited_maze.start) || coordinate_equals(waypoint, edited_maze.end))
+                    continue;
+                edited_maze.set_cell_type(waypoint, MazeCell.FLOOR);
+                if (edited_maze.waypoint_index(waypoint) === -1) edited_maze.waypoints.push(waypoint);
+            }
+            for (const portal of state.portals ?? []) {
+                if (!edited_maze.is_in_bounds(portal) || coordinate_equals(portal, edited_maze.start) || coordinate_equals(portal, edited_maze.end))
+                    continue;
+                if (edited_maze.waypoint_index(portal) !== -1 || edited_maze.portal_index(portal) !== -1) continue;
+                edited_maze.set_cell_type(portal, MazeCell.FLOOR);
+                edited_maze.portals.push(portal);
+            }
+            for (const agent of state.agents ?? []) {
+                if (!edited_maze.is_in_bounds(agent) || coordinate_equals(agent, edited_maze.start) || coordinate_equals(agent, edited_maze.end))
+                    continue;
+                if (edited_maze.waypoint_index(agent) !== -1 || edited_maze.portal_index(agent) !== -1 || edited_maze.agent_index(agent) !== -1)
+                    continue;
+                edited_maze.set_cell_type(agent, MazeCell.FLOOR);
+                edited_maze.agents.push(agent);
+            }
+            maze = edited_maze;
+            maze_edited = true;
+        }
+    }
+    maze.terrain_costs = terrain_costs;
+    maze.topology = topology;
+    edit_history.maze_replaced(previous, current_version());
+    update_history_controls();
+    maze_replaced();
+}
+
+/**
+ * Brings the controls, canvas and url up to date after the maze and its settings were replaced all at once
+ */
+function maze_replaced() {
+    textfield_grid_width.value = range_grid_width.value = maze_config.grid_width.toString();
+    textfield_grid_height.value = range_grid_height.value = maze_config.grid_height.toString();
+    textfield_floors.value = range_floors.value = (maze_config.floors ?? 1).toString();
+    textfield_seed.value = seed.toString();
+    range_speed.value = config.solve_step_speed.toString();
+    textfield_speed.value = config.solve_step_speed.toFixed(2);
+    textfield_steps_per_frame.value = range_steps_per_frame.value = config.steps_per_frame.toString();
+    show_option_values();
+    for (const [terrain, name] of cost_terrains)
+        (document.getElementById("cost " + name) as HTMLInputElement).value = (terrain_costs.get(terrain) ?? 1).toString();
+    resize_canvas();
+    canvas_refresh(maze);
+    update_url();
+}
+/**
+ * Replaces the maze with an imported one as an edit that can be undone, or shows why it could not be imported in the error span
+ */
+function import_maze(result: ImportResult, error_span = import_error) {
+    if (
+        !("error" in result) &&
+        (result.maze.floor_width < 4 || result.maze.floor_width > 1000 || result.maze.height < 4 || result.maze.height > 1000)
+    )
+        result = {
+            error: "The maze is " + result.maze.floor_width + "x" + result.maze.height + " but mazes can only be 4 to 1000 cells wide and high",
+        };
+    if (!("error" in result) && result.maze.floors > 4) result = { error: "The maze has " + result.maze.floors + " floors but mazes can have at most 4" };
+    if ("error" in result) {
+        error_span.textContent = result.error;
+        return;
+    }
+    error_span.textContent = "";
+    cancel_click();
+    reset_search();
+    for (const [terrain, cost] of result.terrain_costs ?? []) terrain_costs.set(terrain, Math.min(Math.max(cost, 1), 100));
+    if (result.topology !== undefined) {
+        select_topology.value = topology_name(result.topology);
+        checkbox_corner_cutting.checked = result.topology instanceof DiagonalTopology && result.topology.allow_corner_cutting;
+        topology = result.topology;
+    }
+    const previous = current_version();
+    maze = result.maze;
+    maze.terrain_costs = terrain_costs;
+    maze.topology = topology;
+    maze_edited = true;
+    edit_history.maze_replaced(previous, current_version());
+    update_history_controls();
+    maze_config.grid_width = maze.floor_width;
+    maze_config.grid_height = maze.height;
+    maze_config.floors = maze.floors;
+    maze_replaced();
+}
+const import_error = document.getElementById("import error") as HTMLSpanElement;
+const input_import = document.getElementById("import file") as HTMLInputElement;
+input_import.onchange = function () {
+    const file = input_import.files?.[0];
+    input_import.value = "";
+    if (file === undefined || config.generator !== undefined) return;
+    if (file.type.startsWith("image/")) {
+        createImageBitmap(file).then(
+            (image) => {
+                // Scaling the picture down to one pixel per cell of the chosen grid size averages each cell's pixels
+                const scaled = document.createElement("canvas");
+                scaled.width = maze_config.grid_width;
+                scaled.height = maze_config.grid_height;
+                const scaled_ctx = scaled.getContext("2d");
+                if (scaled_ctx === null) return;
+                scaled_ctx.imageSmoothingQuality = "high";
+                scaled_ctx.drawImage(image, 0, 0, scaled.width, scaled.height);
+                const pixels = scaled_ctx.getImageData(0, 0, scaled.width, scaled.height).data;
+                import_maze(maze_from_pixels(pixels, scaled.width, scaled.height));
+            },
+            () => import_maze({ error: "The picture could not be read" }),
+        );
+        return;
+    }
+    file.text().then((text) => import_maze(file.name.toLowerCase().endsWith(".json") ? maze_from_json(text) : maze_from_ascii(text)));
+};
+const export_warning = document.getElementById("export warning") as HTMLSpanElement;
+const button_export_ascii = document.getElementById("export ascii") as HTMLButtonElement;
+button_export_ascii.onclick = function () {
+    export_warning.textContent = ascii_export_warning(maze) ?? "";
+    download(new Blob([maze_to_ascii(maze)], { type: "text/plain" }), "maze.txt");
+};
+const button_export_json = document.getElementById("export json") as HTMLButtonElement;
+button_export_json.onclick = function () {
+    export_warning.textContent = "";
+    download(new Blob([maze_to_json(maze)], { type: "application/json" }), "maze.json");
+};
+const button_export_png = document.getElementById("export png") as HTMLButtonElement;
+button_export_png.onclick = function () {
+    // Only the maze itself is exported, without the state of any search on it
+    const image_ctx = create_export_canvas(maze, cell_width, cell_height);
+    if (image_ctx === undefined) return;
+    const terrain = maze.clone();
+    terrain.reload();
+    // Pictures are drawn in the classic colors whatever the theme, as importing a picture expects them
+    canvas_draw_maze(image_ctx, terrain, cell_width, cell_height, classic_palette);
+    image_ctx.canvas.toBlob((blob) => {
+        if (blob !== null) download(blob, "maze.png");
+    });
+};
+
+const button_export_svg = document.getElementById("export svg") as HTMLButtonElement;
+const textfield_recording_fps = document.getElementById("text recording fps") as HTMLInputElement;
+const textfield_recording_steps = document.getElementById("text recording steps") as HTMLInputElement;
+const button_export_frames = document.getElementById("export frames") as HTMLButtonElement;
+const button_record_webm = document.getElementById("record webm") as HTMLButtonElement;
+const recording_status = document.getElementById("recording status") as HTMLSpanElement;
+textfield_recording_fps.value = "30";
+textfield_recording_fps.onchange = function () {
+    textfield_recording_fps.value = Math.min(Math.max(Math.floor(Number(textfield_recording_fps.value)) || 1, 1), 60).toString();
+};
+textfield_recording_steps.value = "1";
+textfield_recording_steps.onchange = function () {
+    textfield_recording_steps.value = Math.min(Math.max(Math.floor(Number(textfield_recording_steps.value)) || 1, 1), 100000).toString();
+};
+
+/**
+ * A replay of the current search from its first step, undefined if no search was run since the maze was last cleared
+ */
+function current_replay() {
+    if (config.timeline === undefined) return undefined;
+    return new RunReplay(config.timeline, agent_of(config.searched_alg)?.start);
+}
+
+/**
+ * Draws the state a replay has reached onto a canvas the size of the main one
+ */
+function canvas_draw_replay(context: CanvasRenderingContext2D, replay: RunReplay) {
+    canvas_draw_maze(context, replay.maze, cell_width, cell_height, palette);
+    canvas_draw_path_cells(context, replay.maze, replay.path, cell_width, cell_height);
+    if (replay.agent !== undefined) canvas_draw_agent(context, replay.maze, replay.agent, cell_width, cell_height);
+}
+
+/**
+ * A canvas that fits the maze drawn with cells of the given size, undefined if the browser gives it no 2d context
+ */
+function create_export_canvas(maze: Maze, cell_width: number, cell_height: number) {
+    const image = document.createElement("canvas");
+    const size = maze.topology.canvas_size(maze, cell_width, cell_height);
+    image.width = size.width;
+    image.height = size.height;
+    const image_ctx = image.getContext("2d");
+    return image_ctx === null ? undefined : image_ctx;
+}
+
+/**
+ * Disables the export buttons while frames are being exported or recorded, as only one export runs at a time
+ */
+function set_exporting(exporting: boolean) {
+    button_export_svg.disabled = button_export_frames.disabled = button_record_webm.disabled = exporting;
+}
+
+button_export_svg.onclick = function () {
+    // Without a search only the maze is exported
+    const replay = current_replay();
+    let svg: string;
+    if (replay === undefined) {
+        const terrain = maze.clone();
+        terrain.reload();
+        svg = run_to_svg(terrain, [], undefined, palette, cell_width, cell_height);
+    } else {
+        replay.advance(replay.length);
+        svg = run_to_svg(replay.maze, replay.path, replay.agent, palette, cell_width, cell_height);
+    }
+    download(new Blob([svg], { type: "image/svg+xml" }), "run.svg");
+};
+
+button_export_frames.onclick = function () {
+    const replay = current_replay();
+    if (replay === undefined) {
+        recording_status.textContent = "Run a search first";
+        return;
+    }
+    const steps_per_frame = Number(textfield_recording_steps.value);
+    const frames = frame_count(replay.length, steps_per_frame);
+    if (frames > 65535) {
+        recording_status.textContent = "A zip file holds at most 65535 frames, take more steps per frame";
+        return;
+    }
+    const image_ctx = create_export_canvas(replay.maze, cell_width, cell_height);
+    if (image_ctx === undefined) return;
+    const digits = Math.max(5, frames.toString().length);
+    const entries: ZipEntry[] = [];
+    // Frames are drawn one at a time, each only once the previous one has been encoded
+    const export_frame = (): Promise<void> => {
+        canvas_draw_replay(image_ctx, replay);
+        return new Promise<Blob>((resolve, reject) =>
+            image_ctx.canvas.toBlob((blob) => (blob === null ? reject(new Error("The frame could not be encoded")) : resolve(blob)), "image/png"),
+        )
+            .then((blob) => blob.arrayBuffer())
+            .then((buffer) => {
+                const number = (entries.length + 1).toString();
+                entries.push({ name: "frame_" + "0".repeat(digits - number.length) + number + ".png", data: new Uint8Array(buffer) });
+                recording_status.textContent = "Exported frame " + entries.length + " / " + frames;
+                if (replay.is_done()) return;
+                replay.advance(steps_per_frame);
+                return export_frame();
+            });
+    };
+    set_exporting(true);
+    export_frame()
+        .then(() => {
+            const zip = zip_files(entries);
+            if (zip !== undefined) download(zip, "frames.zip");
+            recording_status.textContent = "Exported " + entries.length + " frames";
+        })
+        .catch((error) => {
+            recording_status.textContent = error instanceof Error ? error.message : String(error);
+        })
+        .then(() => set_exporting(false));
+};
+
+button_record_webm.onclick = function () {
+    const replay = current_replay();
+    if (replay === undefined) {
+        recording_status.textContent = "Run a search first";
+        return;
+    }
+    if (typeof MediaRecorder === "undefined" || !MediaRecorder.isTypeSupported("video/webm")) {
+        recording_status.textContent = "This browser cannot record WebM videos";
+        return;
+    }
+    const image_ctx = create_export_canvas(replay.maze, cell_width, cell_height);
+    if (image_ctx === undefined) return;
+    const fps = Number(textfield_recording_fps.value);
+    const steps_per_frame = Number(textfield_recording_steps.value);
+    const frames = frame_count(replay.length, steps_per_frame);
+    const recorder = new MediaRecorder(image_ctx.canvas.captureStream(fps), { mimeType: "video/webm" });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = () => {
+        download(new Blob(chunks, { type: "video/webm" }), "run.webm");
+        recording_status.textContent = "Recorded " + frames + " frames";
+        set_exporting(false);
+    };
+    // The recording plays in real time, drawing a frame whenever the stream takes one
+    let frame = 0;
+    const record_frame = () => {
+        if (frame === frames) {
+            clearInterval(interval_code);
+            recorder.stop();
+            return;
+        }
+        if (frame > 0) replay.advance(steps_per_frame);
+        canvas_draw_replay(image_ctx, replay);
+        frame++;
+        recording_status.textContent = "Recording frame " + frame + " / " + frames;
+    };
+    set_exporting(true);
+    recorder.start();
+    record_frame();
+    const interval_code = setInterval(record_frame, 1000 / fps);
+};
+
+const select_preset = document.getElementById("preset") as HTMLSelectElement;
+const preset_description = document.getElementById("preset description") as HTMLSpanElement;
+const button_load_preset = document.getElementById("load preset") as HTMLButtonElement;
+const textfield_library_name = document.getElementById("library name") as HTMLInputElement;
+const button_library_save = document.getElementById("library save") as HTMLButtonElement;
+const library_error = document.getElementById("library error") as HTMLSpanElement;
+const library_list = document.getElementById("library") as HTMLDivElement;
+/** Undefined if the browser keeps the page from its storage, as private windows and sandboxed frames may */
+const maze_library = open_maze_library();
+/** Largest width or height of the thumbnails of saved mazes, in pixels */
+const thumbnail_size = 120;
+
+for (const preset of preset_mazes) select_preset.add(new Option(preset.name, preset.id));
+function selected_preset() {
+    return preset_mazes.find((preset) => preset.id === select_preset.value);
+}
+preset_description.textContent = selected_preset()?.description ?? "";
+select_preset.onchange = function () {
+    preset_description.textContent = selected_preset()?.description ?? "";
+};
+button_load_preset.onclick = function () {
+    const preset = selected_preset();
+    if (preset === undefined || config.generator !== undefined) return;
+    import_maze(preset_maze(preset), library_error);
+};
+
+/**
+ * A small picture of the maze without any search on it, as a data url
+ */
+function maze_thumbnail(maze: Maze) {
+    const terrain = maze.clone();
+    terrain.reload();
+    const size = cell_size(terrain, 4, thumbnail_size);
+    const image_ctx = create_export_canvas(terrain, size, size);
+    if (image_ctx === undefined) return "";
+    canvas_draw_maze(image_ctx, terrain, size, size, classic_palette);
+    // Cells are at least a pixel wide, so the pictures of large mazes are scaled down to fit
+    const image = image_ctx.canvas;
+    const scale = Math.min(1, thumbnail_size / Math.max(image.width, image.height));
+    const thumbnail = document.createElement("canvas");
+    thumbnail.width = Math.max(1, Math.round(image.width * scale));
+    thumbnail.height = Math.max(1, Math.round(image.height * scale));
+    thumbnail.getContext("2d")?.drawImage(image, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL("image/png");
+}
+
+function open_maze_library() {
+    try {
+        // Merely reading localStorage throws a SecurityError where the page may not use it
+        return new MazeLibrary(window.localStorage);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Shows every saved maze after a change to the library, or why the library could not be changed
+ */
+function show_library(result: LibraryResult) {
+    if ("error" in result) {
+        library_error.textContent = result.error;
+        return;
+    }
+    library_error.textContent = "";
+    library_list.replaceChildren(...result.mazes.map(library_figure));
+}
+
+function library_figure(saved: SavedMaze) {
+    const figure = document.createElement("figure");
+    const thumbnail = document.createElement("img");
+    thumbnail.src = saved.thumbnail;
+    thumbnail.alt = saved.name;
+    const caption = document.createElement("figcaption");
+    caption.textContent = saved.name + ", saved " + new Date(saved.saved_at).toLocaleString();
+    const button = (text: string, onclick: () => void) => {
+        const element = document.createElement("button");
+        element.type = "button";
+        element.textContent = text;
+        element.onclick = onclick;
+        return element;
+    };
+    const load = button("Load", () => {
+        if (config.generator !== undefined) return;
+        import_maze(maze_from_json(saved.maze), library_error);
+        textfield_library_name.value = saved.name;
+    });
+    const rename = button("Rename", () => {
+        const new_name = window.prompt("Rename " + saved.name + " to", saved.name);
+        if (new_name !== null && maze_library !== undefined) show_library(maze_library.rename(saved.name, new_name));
+    });
+    const remove = button("Delete", () => {
+        if (maze_library !== undefined && window.confirm("Delete " + saved.name + " from the library?"))
+            show_library(maze_library.remove(saved.name));
+    });
+    caption.append(document.createElement("br"), load, rename, remove);
+    figure.append(thumbnail, caption);
+    return figure;
+}
+
+button_library_save.onclick = function () {
+    if (maze_library === undefined || config.generator !== undefined) return;
+    show_library(maze_library.save(textfield_library_name.value, maze, maze_thumbnail(maze)));
+};
+if (maze_library !== undefined) show_library({ mazes: maze_library.list() });
+else {
+    textfield_library_name.disabled = button_library_save.disabled = true;
+    library_error.textContent = "The library is unavailable, the browser does not let this page use its storage";
+}
+
+window.onhashchange = function () {
+    load_state(decode_state(window.location.hash));
+};
+
+if (window.location.hash.length > 1) load_state(decode_state(window.location.hash));
+else update_url();
+// The maze the page opened with replacing the one made before reading the url is not an edit
+edit_history.clear();
+update_history_controls();
+resize_canvas();
 canvas_refresh(maze);
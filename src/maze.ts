@@ -0,0 +1,448 @@
+import { Topology, SquareTopology } from "./topology";
+export {
+    Coordinate,
+    MazeConfig,
+    Maze,
+    MazeCell,
+    TerrainCosts,
+    manhattan_distance,
+    euclidean_distance,
+    chebyshev_distance,
+    octile_distance,
+    coordinate_equals,
+    is_search_state,
+    default_terrain_costs,
+    conveyor_direction,
+};
+
+enum MazeCell {
+    FLOOR,
+    WALL,
+    ACTIVE,
+    EXPLORED,
+    GRASS,
+    MUD,
+    WATER,
+    PREVIOUSLY_EXPLORED,
+    ACTIVE_FROM_END,
+    EXPLORED_FROM_END,
+    MEETING_POINT,
+    MARKED_ONCE,
+    MARKED_TWICE,
+    JUMP_POINT,
+    SCANNED,
+    /** Conveyors can be moved onto from any side but only left in the direction they point */
+    CONVEYOR_UP,
+    CONVEYOR_RIGHT,
+    CONVEYOR_DOWN,
+    CONVEYOR_LEFT,
+    /** Stairs lead to the stairs at the same position on the floor above and the floor below */
+    STAIRS,
+}
+const search_states = new Set([
+    MazeCell.ACTIVE,
+    MazeCell.EXPLORED,
+    MazeCell.PREVIOUSLY_EXPLORED,
+    MazeCell.ACTIVE_FROM_END,
+    MazeCell.EXPLORED_FROM_END,
+    MazeCell.MEETING_POINT,
+    MazeCell.MARKED_ONCE,
+    MazeCell.MARKED_TWICE,
+    MazeCell.JUMP_POINT,
+    MazeCell.SCANNED,
+]);
+/**
+ * Search states only describe how a search is progressing, they are drawn over the terrain rather than replacing it
+ */
+function is_search_state(cell_type: MazeCell) {
+    return search_states.has(cell_type);
+}
+/**
+ * The cost of moving onto a cell of each passable terrain type
+ */
+type TerrainCosts = Map<MazeCell, number>;
+function default_terrain_costs(): TerrainCosts {
+    return new Map([
+        [MazeCell.FLOOR, 1],
+        [MazeCell.GRASS, 2],
+        [MazeCell.MUD, 5],
+        [MazeCell.WATER, 10],
+        [MazeCell.CONVEYOR_UP, 1],
+        [MazeCell.CONVEYOR_RIGHT, 1],
+        [MazeCell.CONVEYOR_DOWN, 1],
+        [MazeCell.CONVEYOR_LEFT, 1],
+        [MazeCell.STAIRS, 1],
+    ]);
+}
+/**
+ * The direction a conveyor moves towards, undefined for every other terrain
+ */
+function conveyor_direction(terrain: MazeCell): Coordinate | undefined {
+    switch (terrain) {
+        case MazeCell.CONVEYOR_UP:
+            return { x: 0, y: -1 };
+        case MazeCell.CONVEYOR_RIGHT:
+            return { x: 1, y: 0 };
+        case MazeCell.CONVEYOR_DOWN:
+            return { x: 0, y: 1 };
+        case MazeCell.CONVEYOR_LEFT:
+            return { x: -1, y: 0 };
+        default:
+            return undefined;
+    }
+}
+type Coordinate = {
+    x: number;
+    y: number;
+};
+type MazeConfig = {
+    /** Width of a single floor */
+    grid_width: number;
+    grid_height: number;
+    /** Number of floors, laid out side by side from left to right, 1 if left out */
+    floors?: number;
+};
+function manhattan_distance(coord1: Coordinate, coord2: Coordinate) {
+    return Math.abs(coord1.x - coord2.x) + Math.abs(coord1.y - coord2.y);
+}
+function euclidean_distance(coord1: Coordinate, coord2: Coordinate) {
+    return Math.sqrt((coord1.x - coord2.x) * (coord1.x - coord2.x) + (coord1.y - coord2.y) * (coord1.y - coord2.y));
+}
+/**
+ * Number of moves between two cells when diagonal moves cost the same as straight ones
+ */
+function chebyshev_distance(coord1: Coordinate, coord2: Coordinate) {
+    return Math.max(Math.abs(coord1.x - coord2.x), Math.abs(coord1.y - coord2.y));
+}
+/**
+ * Length of the shortest way between two cells when diagonal moves cost √2
+ */
+function octile_distance(coord1: Coordinate, coord2: Coordinate) {
+    const dx = Math.abs(coord1.x - coord2.x);
+    const dy = Math.abs(coord1.y - coord2.y);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+}
+function coordinate_equals(coord1: Coordinate | undefined, coord2: Coordinate | undefined) {
+    return coord1?.x === coord2?.x && coord1?.y === coord2?.y;
+}
+/**
+ * Cosine of the widest angle between a move off a conveyor and the direction of the conveyor,
+ * a little over 30 degrees so that both cells above a hexagon are let through but no diagonal move on a square grid is
+ */
+const conveyor_cosine = Math.cos((31 * Math.PI) / 180);
+
+/**
+ * The cells of the maze make up its floors, which lie side by side along the x axis and are each floor_width cells wide.
+ * Moves stay on a floor, except for the moves between stairs and between paired portals.
+ */
+class Maze {
+    readonly height: number;
+    /** Width of all floors together */
+    readonly width: number;
+    readonly floors: number;
+    readonly floor_width: number;
+    readonly maze: MazeCell[][] = [];
+    readonly search_state: (MazeCell | undefined)[][] = [];
+    terrain_costs: TerrainCosts = default_terrain_costs();
+    topology: Topology = new SquareTopology();
+    start: Coordinate | undefined;
+    end: Coordinate | undefined;
+    /** Cells a path has to pass through on its way from start to end, numbered by their order in the list */
+    waypoints: Coordinate[] = [];
+    /** Portals in pairs, the first and second being one pair, the third and fourth the next and so on, a last portal without a partner leading nowhere */
+    portals: Coordinate[] = [];
+    /** Starts and goals of the agents of multi-agent planning in pairs, the first agent starting on the first cell and heading for the second */
+    agents: Coordinate[] = [];
+    /** Cells whose type changed since take_changed_cells was last called, each listed once */
+    private changed_cells: Coordinate[] = [];
+    private is_changed: boolean[][] = [];
+    /** Whether every cell may have changed, in which case changed_cells is not kept */
+    private all_changed = true;
+
+    constructor(config: MazeConfig) {
+        this.height = config.grid_height;
+        this.floors = config.floors ?? 1;
+        this.floor_width = config.grid_width;
+        this.width = config.grid_width * this.floors;
+        this.start = undefined;
+        this.end = undefined;
+        this.fill(MazeCell.WALL);
+    }
+    /**
+     * The type the cell is displayed as, which is its search state if it has one and its terrain otherwise
+     */
+    public get_cell_type(coordinate: Coordinate) {
+        return this.search_state[coordinate.x][coordinate.y] ?? this.maze[coordinate.x][coordinate.y];
+    }
+    public get_terrain(coordinate: Coordinate) {
+        return this.maze[coordinate.x][coordinate.y];
+    }
+    public get_search_state(coordinate: Coordinate) {
+        return this.search_state[coordinate.x][coordinate.y];
+    }
+    /**
+     * Overwrites the search state directly without touching the terrain, undefined clearing it
+     */
+    public set_search_state(coordinate: Coordinate, search_state: MazeCell | undefined) {
+        this.search_state[coordinate.x][coordinate.y] = search_state;
+        this.mark_changed(coordinate);
+    }
+    /**
+     * Overwrites the terrain directly, even under start, end or a waypoint, clearing the search state of the cell
+     */
+    public set_terrain(coordinate: Coordinate, terrain: MazeCell) {
+        this.maze[coordinate.x][coordinate.y] = terrain;
+        this.search_state[coordinate.x][coordinate.y] = undefined;
+        this.mark_changed(coordinate);
+    }
+    public set_cell_type(coordinate: Coordinate, cell_type: MazeCell) {
+        if (
+            coordinate_equals(this.start, coordinate) ||
+            coordinate_equals(this.end, coordinate) ||
+            this.waypoint_index(coordinate) !== -1 ||
+            this.portal_index(coordinate) !== -1 ||
+            this.agent_index(coordinate) !== -1
+        )
+            return;
+        this.mark_changed(coordinate);
+        if (is_search_state(cell_type)) {
+            this.search_state[coordinate.x][coordinate.y] = cell_type;
+            return;
+        }
+        this.maze[coordinate.x][coordinate.y] = cell_type;
+        this.search_state[coordinate.x][coordinate.y] = undefined;
+    }
+    private mark_changed(coordinate: Coordinate) {
+        if (this.all_changed || this.is_changed[coordinate.x][coordinate.y]) return;
+        this.is_changed[coordinate.x][coordinate.y] = true;
+        this.changed_cells.push({ x: coordinate.x, y: coordinate.y });
+    }
+    /**
+     * The cells whose type changed since the last call, so that only those have to be drawn again.
+     * Undefined if every cell may have changed, as filling the maze or clearing the search does.
+     */
+    public take_changed_cells(): Coordinate[] | undefined {
+        const changed = this.changed_cells;
+        this.changed_cells = [];
+        if (this.all_changed) {
+            this.all_changed = false;
+            this.is_changed = [];
+            for (let i = 0; i < this.width; i++) this.is_changed.push(new Array<boolean>(this.height).fill(false));
+            return undefined;
+        }
+        for (const coordinate of changed) this.is_changed[coordinate.x][coordinate.y] = false;
+        return changed;
+    }
+    /**
+     * The cost of moving onto this cell
+     */
+    public get_cost(coordinate: Coordinate) {
+        return this.terrain_costs.get(this.get_terrain(coordinate)) ?? 1;
+    }
+    /**
+     * How much longer a move between two neighboring cells is than a regular move, taking stairs or a portal being a regular move
+     */
+    public move_length(from: Coordinate, to: Coordinate) {
+        if (this.floor_of(from) !== this.floor_of(to) || coordinate_equals(this.portal_partner(from), to)) return 1;
+        return this.topology.move_length(this, from, to);
+    }
+    /**
+     * The cost of moving between two neighboring cells, which is the cost of the cell moved onto scaled by the length of the move
+     */
+    public move_cost(from: Coordinate, to: Coordinate) {
+        return this.move_length(from, to) * this.get_cost(to);
+    }
+    /**
+     * The total cost of walking a path, the first coordinate being where the walk begins
+     */
+    public path_cost(path: Coordinate[]) {
+        return path.slice(1).reduce((cost, coordinate, index) => cost + this.move_cost(path[index], coordinate), 0);
+    }
+    /**
+     * Straight line distance between two cells according to the topology, which no path between them can be cheaper than.
+     * Every floor that lies between the cells takes at least one more move, and a path may take a shortcut through any pair of portals,
+     * so the distance is the shorter of walking there directly and walking to the nearest portal and on from the portal nearest the other cell.
+     */
+    public distance(coordinate1: Coordinate, coordinate2: Coordinate) {
+        const direct = this.floor_distance(coordinate1, coordinate2);
+        const portals = this.paired_portals();
+        if (portals.length === 0) return direct;
+        const to_portal = Math.min(...portals.map((portal) => this.floor_distance(coordinate1, portal)));
+        const from_portal = Math.min(...portals.map((portal) => this.floor_distance(portal, coordinate2)));
+        return Math.min(direct, to_portal + from_portal);
+    }
+    private floor_distance(coordinate1: Coordinate, coordinate2: Coordinate) {
+        const floors_between = this.floor_of(coordinate2) - this.floor_of(coordinate1);
+        const on_same_floor = { x: coordinate2.x - floors_between * this.floor_width, y: coordinate2.y };
+        return this.topology.distance(this, coordinate1, on_same_floor) + Math.abs(floors_between);
+    }
+    /**
+     * Floor the cell lies on, 0 being the leftmost
+     */
+    public floor_of(coordinate: Coordinate) {
+        return Math.floor(coordinate.x / this.floor_width);
+    }
+    /**
+     * Position of the cell in the waypoints, -1 if it is not a waypoint
+     */
+    public waypoint_index(coordinate: Coordinate) {
+        return this.waypoints.findIndex((waypoint) => coordinate_equals(waypoint, coordinate));
+    }
+    /**
+     * Position of the cell in the portals, -1 if it is not a portal
+     */
+    public portal_index(coordinate: Coordinate) {
+        return this.portals.findIndex((portal) => coordinate_equals(portal, coordinate));
+    }
+    /**
+     * Position of the cell in the agents, -1 if no agent starts or ends on it
+     */
+    public agent_index(coordinate: Coordinate) {
+        return this.agents.findIndex((agent) => coordinate_equals(agent, coordinate));
+    }
+    /**
+     * The portal a portal leads to, undefined for a cell that is not a portal or is the last portal without a partner
+     */
+    public portal_partner(coordinate: Coordinate): Coordinate | undefined {
+        const index = this.portal_index(coordinate);
+        if (index === -1) return undefined;
+        return this.portals[index % 2 === 0 ? index + 1 : index - 1];
+    }
+    /**
+     * Every portal that has a partner
+     */
+    private paired_portals() {
+        return this.portals.slice(0, this.portals.length - (this.portals.length % 2));
+    }
+    /**
+     * Whether some move leaves its floor, jumps through a portal or is held back by a conveyor, which algorithms that assume
+     * the plain layout of the topology, such as jump point search, have to know about
+     */
+    public has_special_moves() {
+        if (this.floors > 1 || this.paired_portals().length > 0) return true;
+        return this.maze.some((column) =>
+            column.some((terrain) => terrain === MazeCell.STAIRS || conveyor_direction(terrain) !== undefined),
+        );
+    }
+    public is_in_bounds(coordinate: Coordinate) {
+        return coordinate.x >= 0 && coordinate.x < this.width && coordinate.y >= 0 && coordinate.y < this.height;
+    }
+    /**
+     * Whether a search may move onto this cell, regardless of how it is currently being visualized
+     */
+    public is_passable(coordinate: Coordinate) {
+        return this.is_in_bounds(coordinate) && this.get_terrain(coordinate) !== MazeCell.WALL;
+    }
+    /**
+     * Every cell that can be moved to from a cell in a single move, passable or not.
+     * These are the neighbors the topology gives it on the same floor, only the one in its direction for a conveyor,
+     * and the partner of a portal and the stairs above and below stairs.
+     */
+    public get_neighboring_coordinates(coordinate: Coordinate) {
+        const terrain = this.get_terrain(coordinate);
+        const direction = conveyor_direction(terrain);
+        const neighbors =
+            direction === undefined
+                ? this.get_adjacent_coordinates(coordinate)
+                : this.get_adjacent_coordinates(coordinate).filter((neighbor) => this.goes_towards(coordinate, neighbor, direction));
+        const partner = this.portal_partner(coordinate);
+        if (partner !== undefined) neighbors.push({ ...partner });
+        if (terrain === MazeCell.STAIRS) {
+            for (const stairs of this.other_floors(coordinate)) if (this.get_terrain(stairs) === MazeCell.STAIRS) neighbors.push(stairs);
+        }
+        return neighbors;
+    }
+    /**
+     * The neighbors the topology gives a cell that lie on its floor, regardless of conveyors, portals and stairs
+     */
+    public get_adjacent_coordinates(coordinate: Coordinate) {
+        const floor = this.floor_of(coordinate);
+        const neighbors = this.topology.neighbors(this, coordinate);
+        return this.floors === 1 ? neighbors : neighbors.filter((neighbor) => this.floor_of(neighbor) === floor);
+    }
+    /**
+     * Every cell that can be moved to from the cell in a single move, which searches going backwards from the end expand to
+     */
+    public get_predecessor_coordinates(coordinate: Coordinate) {
+        return this.get_linked_coordinates(coordinate).filter((linked) =>
+            this.get_neighboring_coordinates(linked).some((neighbor) => coordinate_equals(neighbor, coordinate)),
+        );
+    }
+    /**
+     * Every cell a move to or from the cell could go to or come from with the right terrain, whichever terrain they have now
+     */
+    public get_linked_coordinates(coordinate: Coordinate) {
+        const linked = this.get_adjacent_coordinates(coordinate).concat(this.other_floors(coordinate));
+        const partner = this.portal_partner(coordinate);
+        if (partner !== undefined) linked.push({ ...partner });
+        return linked;
+    }
+    /**
+     * The same position on the floor above and the floor below
+     */
+    private other_floors(coordinate: Coordinate) {
+        return [coordinate.x - this.floor_width, coordinate.x + this.floor_width]
+            .filter((x) => x >= 0 && x < this.width)
+            .map((x) => ({ x: x, y: coordinate.y }));
+    }
+    /**
+     * Whether a move between two neighbors goes in a direction, judged by where the topology draws them as torus moves wrap around
+     */
+    private goes_towards(from: Coordinate, to: Coordinate, direction: Coordinate) {
+        const from_position = this.topology.cell_position(from, 1, 1);
+        const to_position = this.topology.cell_position(to, 1, 1);
+        let dx = to_position.x - from_position.x;
+        let dy = to_position.y - from_position.y;
+        // A move across the edge of a torus is one cell long the other way
+        if (Math.abs(dx) > 1.5) dx = -Math.sign(dx);
+        if (Math.abs(dy) > 1.5) dy = -Math.sign(dy);
+        return dx * direction.x + dy * direction.y >= conveyor_cosine * Math.sqrt(dx * dx + dy * dy);
+    }
+    /**
+     * A copy that can be searched and drawn on without affecting this maze
+     */
+    public clone() {
+        const copy = new Maze({ grid_width: this.floor_width, grid_height: this.height, floors: this.floors });
+        for (let i = 0; i < this.width; i++) {
+            for (let j = 0; j < this.height; j++) {
+                copy.maze[i][j] = this.maze[i][j];
+                copy.search_state[i][j] = this.search_state[i][j];
+            }
+        }
+        copy.terrain_costs = new Map(this.terrain_costs);
+        copy.topology = this.topology;
+        copy.start = this.start === undefined ? undefined : { ...this.start };
+        copy.end = this.end === undefined ? undefined : { ...this.end };
+        copy.waypoints = this.waypoints.map((waypoint) => ({ ...waypoint }));
+        copy.portals = this.portals.map((portal) => ({ ...portal }));
+        copy.agents = this.agents.map((agent) => ({ ...agent }));
+        return copy;
+    }
+    /**
+     * Sets every cell to the same type, generators start from a maze filled with WALL
+     */
+    public fill(cell_type: MazeCell) {
+        this.maze.length = 0;
+        for (let i = 0; i < this.width; i++) this.maze.push(new Array<MazeCell>(this.height).fill(cell_type));
+        this.reload();
+    }
+    /**
+     * Marks every cell the search has touched as PREVIOUSLY_EXPLORED, for searches that restart without forgetting what they did before
+     */
+    public fade_search_state() {
+        for (const column of this.search_state) {
+            for (let j = 0; j < column.length; j++) {
+                if (column[j] !== undefined) column[j] = MazeCell.PREVIOUSLY_EXPLORED;
+            }
+        }
+        this.all_changed = true;
+    }
+    /**
+     * Clears the search state of every cell, leaving only the terrain
+     */
+    public reload() {
+        this.search_state.length = 0;
+        for (let i = 0; i < this.width; i++) this.search_state.push(new Array<MazeCell | undefined>(this.height).fill(undefined));
+        this.all_changed = true;
+    }
+}
@@ -0,0 +1,304 @@
+import { Coordinate, Maze, coordinate_equals } from "./maze";
+import { MazeSolvingAlgorithm, SolverEvent, SolverEventType } from "./solving_algorithm";
+export { MazeAgent, AgentPose, WallFollower, Pledge, Tremaux };
+
+/**
+ * Where an agent stands and which way it faces, direction being the move walking straight ahead makes
+ */
+type AgentPose = {
+    coord: Coordinate;
+    direction: Coordinate;
+};
+
+/** North, east, south and west, so that adding a quarter turn clockwise to a facing is adding 1 */
+const compass: Coordinate[] = [
+    { x: 0, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+];
+const straight = 0;
+const right = 1;
+const back = 2;
+const left = 3;
+
+/**
+ * A robot in the maze that only knows the cells around it, walking one cell per step instead of searching the whole maze.
+ * Agents only ever move in the 4 compass directions, which every topology has as neighbors.
+ */
+abstract class MazeAgent extends MazeSolvingAlgorithm {
+    position: Coordinate;
+    /** Index into the compass of the direction the agent faces */
+    facing: number;
+
+    /** The way walked so far with every loop erased, which is the path once the end is reached */
+    private readonly walk: Coordinate[];
+    /** Index of each cell in the walk, -1 for cells not on it */
+    private readonly walk_index: number[][] = [];
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.position = start;
+        this.facing = this.facing_towards(end);
+        this.walk = [start];
+        for (let i = 0; i < maze.width; i++) this.walk_index.push(new Array<number>(maze.height).fill(-1));
+        this.walk_index[start.x][start.y] = 0;
+    }
+
+    public pose(): AgentPose {
+        return { coord: this.position, direction: compass[this.facing] };
+    }
+
+    /**
+     * Agents keep no frontier, all they remember is where they are
+     */
+    public frontier_size() {
+        return 0;
+    }
+
+    /**
+     * The compass direction that points most directly at a cell, the only sense of direction an agent is given
+     */
+    protected facing_towards(coord: Coordinate) {
+        const dx = coord.x - this.position.x;
+        const dy = coord.y - this.position.y;
+        let best = 0;
+        for (let facing = 1; facing < compass.length; facing++) {
+            if (compass[facing].x * dx + compass[facing].y * dy > compass[best].x * dx + compass[best].y * dy) best = facing;
+        }
+        return best;
+    }
+
+    /**
+     * The cell a move in the given direction leads to, undefined if there is a wall or the edge of the maze in the way
+     */
+    protected neighbor_in(facing: number) {
+        const direction = compass[facing];
+        // Wrapping around only gives a neighbor on topologies that wrap around
+        const next = {
+            x: (this.position.x + direction.x + this.maze.width) % this.maze.width,
+            y: (this.position.y + direction.y + this.maze.height) % this.maze.height,
+        };
+        if (!this.maze.get_neighboring_coordinates(this.position).some((neighbor) => coordinate_equals(neighbor, next))) return undefined;
+        if (!this.maze.is_passable(next)) return undefined;
+        return next;
+    }
+
+    /**
+     * Turns to face the given direction and walks onto the cell there, finishing the search if it is the end
+     */
+    protected move(facing: number, to: Coordinate): SolverEvent[] {
+        const from = this.position;
+        this.position = to;
+        this.facing = facing;
+        const events: SolverEvent[] = [{ type: SolverEventType.AGENT_MOVED, from: from, coord: to, direction: compass[facing] }];
+        events.push(...this.moved(from, to));
+
+        const index = this.walk_index[to.x][to.y];
+        if (index !== -1) {
+            for (const erased of this.walk.splice(index + 1)) this.walk_index[erased.x][erased.y] = -1;
+        } else {
+            this.walk_index[to.x][to.y] = this.walk.length;
+            this.walk.push(to);
+        }
+        if (coordinate_equals(to, this.end)) events.push(this.path_found(this.walk.slice()));
+        return events;
+    }
+
+    /**
+     * Lets an agent add its own events once it has moved
+     */
+    protected moved(from: Coordinate, to: Coordinate): SolverEvent[] {
+        return [];
+    }
+
+    /**
+     * Gives up on an agent that has come back to a state it was in before, from which it would only walk the same circle again
+     */
+    protected loop_detected(): SolverEvent[] {
+        return [{ type: SolverEventType.LOOP_DETECTED, coord: this.position }, this.end_not_found()];
+    }
+}
+
+/**
+ * Keeps one hand on the wall and follows it, which reaches the end only if the end is along the same wall as the start.
+ * Until it touches a wall the agent walks straight ahead, looking for one.
+ */
+class WallFollower extends MazeAgent {
+    readonly left_hand: boolean;
+    private touching_wall = false;
+    /** Every position and facing the agent has been in, being in one again means it walks in circles forever */
+    private readonly states = new Set<string>();
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate, left_hand: boolean) {
+        super(maze, start, end);
+        this.left_hand = left_hand;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        const state = this.position.x + "," + this.position.y + "," + this.facing + "," + this.touching_wall;
+        if (this.states.has(state)) return this.loop_detected();
+        this.states.add(state);
+
+        const hand = this.left_hand ? left : right;
+        if (!this.touching_wall) {
+            const ahead = this.neighbor_in(this.facing);
+            this.touching_wall = ahead === undefined || this.neighbor_in((this.facing + hand) % 4) === undefined;
+            if (!this.touching_wall && ahead !== undefined) return this.move(this.facing, ahead);
+        }
+        for (const turn of [hand, straight, (hand + back) % 4, back]) {
+            const facing = (this.facing + turn) % 4;
+            const next = this.neighbor_in(facing);
+            if (next !== undefined) return this.move(facing, next);
+        }
+        return [this.end_not_found()];
+    }
+}
+
+/**
+ * Pledge's algorithm, walks straight in its preferred direction and follows the wall with its left hand whenever it runs into one.
+ * Turns are counted while following, so that it only lets go of the wall once it has turned back to the preferred direction,
+ * which keeps it from circling an island the way a wall follower does.
+ */
+class Pledge extends MazeAgent {
+    readonly preferred: number;
+    following_wall = false;
+    /** Quarter turns made clockwise while following the wall, the agent faces the preferred direction whenever it is a multiple of 4 */
+    turns = 0;
+    /** Positions and facings the agent has walked straight ahead from, walking straight from one again would repeat everything since */
+    private readonly walked_straight = new Set<string>();
+    /** Index into stretch_steps of every position and facing reached since the agent last ran into a wall */
+    private readonly stretch_states = new Map<string, number>();
+    /** The turns counted at every step since the agent last ran into a wall, and whether it could have walked straight ahead there */
+    private readonly stretch_steps: { turns: number; ahead_open: boolean }[] = [];
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.preferred = this.facing;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        const state = this.position.x + "," + this.position.y + "," + this.facing;
+        const ahead = this.neighbor_in(this.facing);
+        if (!this.following_wall) {
+            if (this.walked_straight.has(state)) return this.loop_detected();
+            this.walked_straight.add(state);
+            if (ahead !== undefined) return this.move(this.facing, ahead);
+
+            // Turn right to put the wall ahead on the left hand
+            this.following_wall = true;
+            this.stretch_states.clear();
+            this.stretch_steps.length = 0;
+            for (let turn = right; turn <= left; turn++) {
+                const facing = (this.facing + turn) % 4;
+                const next = this.neighbor_in(facing);
+                if (next === undefined) continue;
+                this.turns += turn;
+                return this.move(facing, next);
+            }
+            return [this.end_not_found()];
+        }
+
+        if (this.turns === 0 && ahead !== undefined) {
+            this.following_wall = false;
+            return this.move(this.facing, ahead);
+        }
+        const lap_start = this.stretch_states.get(state);
+        if (lap_start !== undefined) {
+            if (!this.lets_go_on_a_later_lap(lap_start)) return this.loop_detected();
+            this.stretch_states.clear();
+            this.stretch_steps.length = 0;
+        }
+        this.stretch_states.set(state, this.stretch_steps.length);
+        this.stretch_steps.push({ turns: this.turns, ahead_open: ahead !== undefined });
+
+        for (const turn of [-1, 0, 1, 2]) {
+            const facing = (this.facing + turn + 4) % 4;
+            const next = this.neighbor_in(facing);
+            if (next === undefined) continue;
+            this.turns += turn;
+            return this.move(facing, next);
+        }
+        return [this.end_not_found()];
+    }
+
+    /**
+     * Whether the agent, back where a lap of following the wall began, ever gets to let go if it keeps going around.
+     * Following a wall only depends on position and facing, so every lap is the same with the turns counted changed by the same amount.
+     */
+    private lets_go_on_a_later_lap(lap_start: number) {
+        const lap_turns = this.turns - this.stretch_steps[lap_start].turns;
+        if (lap_turns === 0) return false;
+        return this.stretch_steps
+            .slice(lap_start)
+            .some(({ turns, ahead_open }) => ahead_open && -turns % lap_turns === 0 && -turns / lap_turns >= 1);
+    }
+}
+
+/**
+ * Trémaux's algorithm, marks every passage between two cells each time it walks it and never walks a passage marked twice.
+ * Arriving somewhere it has been before through a passage marked once it turns back, so every dead end is walked exactly twice.
+ * Each cell shows the marks of the passage it was first entered through, cells marked twice having been given up on.
+ */
+class Tremaux extends MazeAgent {
+    private readonly passage_marks = new Map<string, number>();
+    private readonly visited: boolean[][] = [];
+    /** The cell each cell was first entered from */
+    private readonly entered_from: (Coordinate | undefined)[][] = [];
+    private came_from: Coordinate | undefined = undefined;
+    /** Whether the agent had already been at its position before arriving there */
+    private revisiting = false;
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        for (let i = 0; i < maze.width; i++) {
+            this.visited.push(new Array<boolean>(maze.height).fill(false));
+            this.entered_from.push(new Array<Coordinate | undefined>(maze.height).fill(undefined));
+        }
+        this.visited[start.x][start.y] = true;
+    }
+
+    private passage_key(coord1: Coordinate, coord2: Coordinate) {
+        const [first, second] = coord1.x < coord2.x || (coord1.x === coord2.x && coord1.y < coord2.y) ? [coord1, coord2] : [coord2, coord1];
+        return first.x + "," + first.y + "," + second.x + "," + second.y;
+    }
+
+    public marks(coord1: Coordinate, coord2: Coordinate) {
+        return this.passage_marks.get(this.passage_key(coord1, coord2)) ?? 0;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        const exits: { facing: number; to: Coordinate; marks: number }[] = [];
+        for (const turn of [straight, left, right, back]) {
+            const facing = (this.facing + turn) % 4;
+            const to = this.neighbor_in(facing);
+            if (to !== undefined) exits.push({ facing: facing, to: to, marks: this.marks(this.position, to) });
+        }
+        const came_from = this.came_from;
+        let exit = undefined;
+        if (came_from !== undefined && this.revisiting && this.marks(this.position, came_from) === 1)
+            exit = exits.find((candidate) => coordinate_equals(candidate.to, came_from));
+        else exit = exits.find((candidate) => candidate.marks === 0) ?? exits.find((candidate) => candidate.marks === 1);
+        if (exit === undefined) return [this.end_not_found()];
+        return this.move(exit.facing, exit.to);
+    }
+
+    protected moved(from: Coordinate, to: Coordinate): SolverEvent[] {
+        this.passage_marks.set(this.passage_key(from, to), this.marks(from, to) + 1);
+        this.came_from = from;
+        this.revisiting = this.visited[to.x][to.y];
+        if (!this.revisiting) this.entered_from[to.x][to.y] = from;
+        this.visited[to.x][to.y] = true;
+
+        // The cell left behind shows its marks again instead of the trail
+        const entered_from = this.entered_from[from.x][from.y];
+        if (entered_from === undefined) return [];
+        return [{ type: SolverEventType.CELL_MARKED, coord: from, marks: this.marks(from, entered_from) }];
+    }
+}
@@ -0,0 +1,387 @@
+import { Coordinate, Maze, MazeCell, TerrainCosts, coordinate_equals } from "./maze";
+import { DiagonalTopology, HexTopology, SquareTopology, Topology, TorusTopology } from "./topology";
+export {
+    ImportResult,
+    maze_to_ascii,
+    maze_from_ascii,
+    maze_to_json,
+    maze_from_json,
+    maze_from_pixels,
+    ascii_export_warning,
+    topology_name,
+};
+
+/**
+ * Either the imported maze or a message explaining why the file could not be imported.
+ * The terrain costs and topology are only there if the file has them, the maze having the topology as well.
+ */
+type ImportResult = { maze: Maze; terrain_costs: TerrainCosts | undefined; topology: Topology | undefined } | { error: string };
+
+const ascii_characters = new Map([
+    [MazeCell.FLOOR, "."],
+    [MazeCell.WALL, "#"],
+    [MazeCell.GRASS, "g"],
+    [MazeCell.MUD, "m"],
+    [MazeCell.WATER, "w"],
+    [MazeCell.CONVEYOR_UP, "^"],
+    [MazeCell.CONVEYOR_RIGHT, ">"],
+    [MazeCell.CONVEYOR_DOWN, "v"],
+    [MazeCell.CONVEYOR_LEFT, "<"],
+    [MazeCell.STAIRS, "="],
+]);
+const ascii_terrains = new Map([...ascii_characters].map(([cell_type, character]) => [character, cell_type]));
+const start_character = "S";
+const end_character = "E";
+/** Portals are written as the number of their pair, so only this many pairs fit in an ascii file */
+const ascii_portal_pairs = 10;
+
+/**
+ * The maze as lines of characters, # being WALL, . FLOOR, g GRASS, m MUD, w WATER, ^ > v < conveyors, = STAIRS, S the start and E the end.
+ * Both portals of a pair are written as the same digit, pairs beyond the tenth being left out. Every floor is a block of lines of its own.
+ */
+function maze_to_ascii(maze: Maze) {
+    const rows = ascii_rows(maze, true);
+    const floors: string[] = [];
+    for (let floor = 0; floor < maze.floors; floor++)
+        floors.push(rows.map((row) => row.slice(floor * maze.floor_width, (floor + 1) * maze.floor_width)).join("\n"));
+    return floors.join("\n\n") + "\n";
+}
+
+/**
+ * What an ascii file of the maze would leave out, which only a json document keeps, undefined if it would keep everything
+ */
+function ascii_export_warning(maze: Maze) {
+    const lost: string[] = [];
+    if (maze.waypoints.length > 0) lost.push("waypoints");
+    if (maze.agents.length > 0) lost.push("agents");
+    if (maze.portals.length > 2 * ascii_portal_pairs) lost.push("portals beyond the " + ascii_portal_pairs + "th pair");
+    if (lost.length === 0) return undefined;
+    const listed = lost.length === 1 ? lost[0] : lost.slice(0, -1).join(", ") + " and " + lost[lost.length - 1];
+    return "ASCII files cannot hold the " + listed + " of this maze, export JSON to keep them";
+}
+
+/**
+ * Every row of the maze across all floors, with the markers written over their cells if they are asked for
+ */
+function ascii_rows(maze: Maze, with_markers: boolean) {
+    const rows: string[] = [];
+    for (let j = 0; j < maze.height; j++) {
+        let row = "";
+        for (let i = 0; i < maze.width; i++) {
+            const coord = { x: i, y: j };
+            const portal = maze.portal_index(coord);
+            if (with_markers && coordinate_equals(maze.start, coord)) row += start_character;
+            else if (with_markers && coordinate_equals(maze.end, coord)) row += end_character;
+            else if (with_markers && portal !== -1 && portal < 2 * ascii_portal_pairs) row += Math.floor(portal / 2);
+            else row += ascii_characters.get(maze.get_terrain(coord)) ?? ".";
+        }
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Builds a maze from rows of ascii characters that run across all floors, the markers only being allowed when they are expected
+ */
+function maze_from_rows(rows: string[], floors: number, with_markers: boolean): ImportResult {
+    if (rows.length === 0 || rows[0].length === 0) return { error: "The maze is empty" };
+    const width = rows[0].length;
+    const ragged = rows.findIndex((row) => row.length !== width);
+    if (ragged !== -1)
+        return { error: "Row " + (ragged + 1) + " is " + rows[ragged].length + " cells wide but row 1 is " + width + " cells wide" };
+    if (width % floors !== 0) return { error: "The rows are " + width + " cells wide, which cannot be split into " + floors + " floors" };
+
+    const maze = new Maze({ grid_width: width / floors, grid_height: rows.length, floors: floors });
+    let start: Coordinate | undefined = undefined;
+    let end: Coordinate | undefined = undefined;
+    const portal_pairs: Coordinate[][] = [];
+    for (let j = 0; j < rows.length; j++) {
+        for (let i = 0; i < width; i++) {
+            const character = rows[j][i];
+            const coord = { x: i, y: j };
+            const position =
+                maze.floors === 1
+                    ? " on row " + (j + 1) + ", column " + (i + 1)
+                    : " on floor " + (maze.floor_of(coord) + 1) + ", row " + (j + 1) + ", column " + ((i % maze.floor_width) + 1);
+            if (with_markers && /^\d$/.test(character)) {
+                const pair = portal_pairs[Number(character)] ?? [];
+                if (pair.length === 2) return { error: "There is a third portal " + character + position };
+                pair.push(coord);
+                portal_pairs[Number(character)] = pair;
+                maze.set_cell_type(coord, MazeCell.FLOOR);
+            } else if (with_markers && character === start_character) {
+                if (start !== undefined) return { error: "There is a second start (" + start_character + ")" + position };
+                start = coord;
+                maze.set_cell_type(coord, MazeCell.FLOOR);
+            } else if (with_markers && character === end_character) {
+                if (end !== undefined) return { error: "There is a second end (" + end_character + ")" + position };
+                end = coord;
+                maze.set_cell_type(coord, MazeCell.FLOOR);
+            } else {
+                const cell_type = ascii_terrains.get(character);
+                if (cell_type === undefined) return { error: "Unknown character '" + character + "'" + position };
+                maze.set_cell_type(coord, cell_type);
+            }
+        }
+    }
+    if (with_markers && start === undefined) return { error: "The maze has no start (" + start_character + ")" };
+    if (with_markers && end === undefined) return { error: "The maze has no end (" + end_character + ")" };
+    for (let pair = 0; pair < portal_pairs.length; pair++) {
+        const portals = portal_pairs[pair] ?? [];
+        // Only the last portal may go without a partner, any other would pair up with a portal of the next pair
+        if (portals.length < 2 && pair < portal_pairs.length - 1) return { error: "Portal " + pair + " has no partner" };
+        maze.portals.push(...portals);
+    }
+    maze.start = start;
+    maze.end = end;
+    return { maze: maze, terrain_costs: undefined, topology: undefined };
+}
+
+function maze_from_ascii(text: string): ImportResult {
+    const lines = text.split(/\r?\n/);
+    // Trailing newlines, as written by maze_to_ascii, do not make empty rows
+    while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    // Every floor is a block of rows, the floors being separated by empty lines
+    const floors: string[][] = [[]];
+    for (const line of lines) {
+        if (line !== "") floors[floors.length - 1].push(line);
+        else if (floors[floors.length - 1].length > 0) floors.push([]);
+    }
+    if (floors.length === 1) return maze_from_rows(floors[0], 1, true);
+    for (let floor = 1; floor < floors.length; floor++) {
+        if (floors[floor].length !== floors[0].length)
+            return {
+                error: "Floor " + (floor + 1) + " has " + floors[floor].length + " rows but floor 1 has " + floors[0].length + " rows",
+            };
+        const ragged = floors[floor].findIndex((row) => row.length !== floors[0][0].length);
+        if (ragged !== -1)
+            return {
+                error:
+                    "Row " +
+                    (ragged + 1) +
+                    " of floor " +
+                    (floor + 1) +
+                    " is " +
+                    floors[floor][ragged].length +
+                    " cells wide but floor 1 is " +
+                    floors[0][0].length +
+                    " cells wide",
+            };
+    }
+    const rows = floors[0].map((row, j) => floors.map((floor) => floor[j]).join(""));
+    return maze_from_rows(rows, floors.length, true);
+}
+
+/**
+ * Increased whenever the json document changes in a way older versions cannot read.
+ * Version 2 added floors and portals, version 3 waypoints and agents and version 4 the topology,
+ * older documents being read as mazes without them.
+ */
+const maze_file_version = 4;
+
+/**
+ * Name of a topology in json documents, the same as the value of the topology select that chooses it
+ */
+function topology_name(topology: Topology) {
+    // Diagonal is checked first as it extends square
+    if (topology instanceof DiagonalTopology) return "diagonal";
+    if (topology instanceof HexTopology) return "hex";
+    if (topology instanceof TorusTopology) return "torus";
+    return "square";
+}
+
+/**
+ * The topology with the given name, undefined for names no topology has
+ */
+function topology_from_name(name: string, corner_cutting: boolean): Topology | undefined {
+    switch (name) {
+        case "square":
+            return new SquareTopology();
+        case "diagonal":
+            return new DiagonalTopology(corner_cutting);
+        case "hex":
+            return new HexTopology();
+        case "torus":
+            return new TorusTopology();
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * The maze as a json document whose rows use the ascii characters and run across all floors,
+ * with start, end, the waypoints, the portals, the agents, the terrain costs and the topology stored separately
+ */
+function maze_to_json(maze: Maze) {
+    const terrain_costs: Record<string, number> = {};
+    for (const [cell_type, cost] of maze.terrain_costs) {
+        const character = ascii_characters.get(cell_type);
+        if (character !== undefined) terrain_costs[character] = cost;
+    }
+    return (
+        JSON.stringify(
+            {
+                version: maze_file_version,
+                width: maze.width,
+                height: maze.height,
+                floors: maze.floors,
+                start: maze.start,
+                end: maze.end,
+                waypoints: maze.waypoints,
+                portals: maze.portals,
+                agents: maze.agents,
+                terrain_costs: terrain_costs,
+                topology: topology_name(maze.topology),
+                corner_cutting: maze.topology instanceof DiagonalTopology && maze.topology.allow_corner_cutting,
+                rows: ascii_rows(maze, false),
+            },
+            undefined,
+            2,
+        ) + "\n"
+    );
+}
+
+function is_coordinate(value: unknown): value is Coordinate {
+    if (typeof value !== "object" || value === null) return false;
+    const coord = value as { x?: unknown; y?: unknown };
+    return Number.isInteger(coord.x) && Number.isInteger(coord.y);
+}
+
+/**
+ * Adds the markers listed in a json document to the maze, on floor and each on a cell of its own, or explains why they cannot be added
+ */
+function add_markers(maze: Maze, listed: unknown, added: Coordinate[], name: string): string | undefined {
+    if (!Array.isArray(listed)) return "The " + name + "s should be a list of coordinates";
+    for (const coord of listed) {
+        if (!is_coordinate(coord) || !maze.is_in_bounds(coord)) return "A " + name + " is not a coordinate within the maze";
+        if (
+            coordinate_equals(coord, maze.start) ||
+            coordinate_equals(coord, maze.end) ||
+            maze.waypoint_index(coord) !== -1 ||
+            maze.portal_index(coord) !== -1 ||
+            maze.agent_index(coord) !== -1
+        )
+            return "The " + name + " at (" + coord.x + ", " + coord.y + ") shares its cell with start, end or another marker";
+        maze.set_cell_type(coord, MazeCell.FLOOR);
+        added.push({ x: coord.x, y: coord.y });
+    }
+    return undefined;
+}
+
+function maze_from_json(text: string): ImportResult {
+    let document: unknown;
+    try {
+        document = JSON.parse(text);
+    } catch (e) {
+        return { error: "The file is not valid json: " + (e as Error).message };
+    }
+    if (typeof document !== "object" || document === null || Array.isArray(document))
+        return { error: "The json document is not an object" };
+    const {
+        version,
+        width,
+        height,
+        floors = 1,
+        start,
+        end,
+        waypoints = [],
+        portals = [],
+        agents = [],
+        terrain_costs,
+        topology: topology_value,
+        corner_cutting = false,
+        rows,
+    } = document as Record<string, unknown>;
+    if (version === undefined) return { error: "The json document has no version" };
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1 || version > maze_file_version)
+        return { error: "Version " + version + " mazes are not supported, only versions 1 to " + maze_file_version };
+    if (!Array.isArray(rows) || rows.some((row) => typeof row !== "string"))
+        return { error: "The rows of the maze should be a list of strings" };
+    if (typeof floors !== "number" || !Number.isInteger(floors) || floors < 1)
+        return { error: "The number of floors should be a positive whole number" };
+    const result = maze_from_rows(rows, floors, false);
+    if ("error" in result) return result;
+    const maze = result.maze;
+    if (width !== maze.width || height !== maze.height)
+        return { error: "The maze is said to be " + width + "x" + height + " but its rows are " + maze.width + "x" + maze.height };
+
+    if (start === undefined) return { error: "The maze has no start" };
+    if (end === undefined) return { error: "The maze has no end" };
+    if (!is_coordinate(start) || !maze.is_in_bounds(start)) return { error: "The start is not a coordinate within the maze" };
+    if (!is_coordinate(end) || !maze.is_in_bounds(end)) return { error: "The end is not a coordinate within the maze" };
+    if (coordinate_equals(start, end)) return { error: "The start and end are the same cell" };
+    maze.set_cell_type(start, MazeCell.FLOOR);
+    maze.set_cell_type(end, MazeCell.FLOOR);
+    maze.start = { x: start.x, y: start.y };
+    maze.end = { x: end.x, y: end.y };
+    for (const [listed, added, name] of [
+        [waypoints, maze.waypoints, "waypoint"],
+        [portals, maze.portals, "portal"],
+        [agents, maze.agents, "agent"],
+    ] as const) {
+        const error = add_markers(maze, listed, added, name);
+        if (error !== undefined) return { error: error };
+    }
+
+    let topology: Topology | undefined = undefined;
+    if (topology_value !== undefined) {
+        if (typeof corner_cutting !== "boolean") return { error: "Whether corners can be cut should be true or false" };
+        topology = typeof topology_value === "string" ? topology_from_name(topology_value, corner_cutting) : undefined;
+        if (topology === undefined) return { error: "There is no topology called " + JSON.stringify(topology_value) };
+        maze.topology = topology;
+    }
+
+    if (terrain_costs === undefined) return { maze: maze, terrain_costs: undefined, topology: topology };
+    if (typeof terrain_costs !== "object" || terrain_costs === null) return { error: "The terrain costs should be an object" };
+    const costs: TerrainCosts = new Map();
+    for (const character of Object.keys(terrain_costs)) {
+        const cost = (terrain_costs as Record<string, unknown>)[character];
+        const cell_type = ascii_terrains.get(character);
+        if (cell_type === undefined || cell_type === MazeCell.WALL)
+            return { error: "There is a cost for unknown terrain '" + character + "'" };
+        if (typeof cost !== "number" || !(cost > 0))
+            return { error: "The cost of terrain '" + character + "' should be a positive number" };
+        costs.set(cell_type, cost);
+    }
+    return { maze: maze, terrain_costs: costs, topology: topology };
+}
+
+/**
+ * Builds a maze out of a picture already scaled down to one pixel per cell, given as rgba values row by row.
+ * Dark pixels become WALL and light ones FLOOR, the greenest and reddest pixels become start and end the way the canvas draws them.
+ */
+function maze_from_pixels(pixels: Uint8ClampedArray, width: number, height: number): ImportResult {
+    if (width < 1 || height < 1 || pixels.length < width * height * 4) return { error: "The picture is empty" };
+    const maze = new Maze({ grid_width: width, grid_height: height });
+    let start: Coordinate | undefined = undefined;
+    let end: Coordinate | undefined = undefined;
+    let greenest = 0;
+    let reddest = 0;
+    for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+            const offset = (j * width + i) * 4;
+            const [red, green, blue, alpha] = pixels.slice(offset, offset + 4);
+            // Transparent pixels count as the white page they would be shown on
+            const brightness = ((0.299 * red + 0.587 * green + 0.114 * blue) * alpha) / 255 + (255 - alpha);
+            maze.set_cell_type({ x: i, y: j }, brightness < 128 ? MazeCell.WALL : MazeCell.FLOOR);
+            const greenness = green - Math.max(red, blue);
+            const redness = red - Math.max(green, blue);
+            if (greenness > 64 && greenness > greenest) {
+                greenest = greenness;
+                start = { x: i, y: j };
+            }
+            if (redness > 64 && redness > reddest) {
+                reddest = redness;
+                end = { x: i, y: j };
+            }
+        }
+    }
+    if (start === undefined) return { error: "The picture has no start, which should be a green cell" };
+    if (end === undefined) return { error: "The picture has no end, which should be a red cell" };
+    if (coordinate_equals(start, end)) return { error: "The start and end are the same cell" };
+    maze.set_cell_type(start, MazeCell.FLOOR);
+    maze.set_cell_type(end, MazeCell.FLOOR);
+    maze.start = start;
+    maze.end = end;
+    return { maze: maze, terrain_costs: undefined, topology: undefined };
+}
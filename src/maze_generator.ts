@@ -0,0 +1,599 @@
+import { Coordinate, MazeConfig, Maze, MazeCell, coordinate_equals } from "./maze";
+export {
+    MazeGenerator,
+    NoiseGenerator,
+    RecursiveBacktracker,
+    PrimGenerator,
+    KruskalGenerator,
+    WilsonGenerator,
+    EllerGenerator,
+    FloorsGenerator,
+    GeneratorEvent,
+    GeneratorEventType,
+    apply_generator_event,
+    generate_maze,
+};
+
+enum GeneratorEventType {
+    CELL_CHANGED,
+    GENERATION_ENDED,
+}
+type GeneratorEvent =
+    | { type: GeneratorEventType.CELL_CHANGED; coord: Coordinate; cell_type: MazeCell }
+    | { type: GeneratorEventType.GENERATION_ENDED; start: Coordinate; end: Coordinate };
+
+/**
+ * Applies a generator event to a maze, which should have been created with the same dimensions as the generator
+ */
+function apply_generator_event(maze: Maze, event: GeneratorEvent) {
+    switch (event.type) {
+        case GeneratorEventType.CELL_CHANGED:
+            maze.set_cell_type(event.coord, event.cell_type);
+            break;
+        case GeneratorEventType.GENERATION_ENDED:
+            maze.start = event.start;
+            maze.end = event.end;
+            break;
+    }
+}
+
+/**
+ * Runs a generator to completion without any animation
+ */
+function generate_maze(generator: MazeGenerator) {
+    const maze = new Maze({ grid_width: generator.width / generator.floors, grid_height: generator.height, floors: generator.floors });
+    for (const event of generator.generate()) apply_generator_event(maze, event);
+    return maze;
+}
+
+/**
+ * Carves a maze out of a grid that starts out as entirely WALL.
+ * Most generators treat the cells with odd coordinates as rooms and the cells between two rooms as the wall separating them,
+ * which produces a perfect maze: every room is reachable from every other room by exactly one path.
+ */
+abstract class MazeGenerator {
+    readonly width: number;
+    readonly height: number;
+    readonly random: () => number;
+    /** Number of floors the width is divided into, a maze to apply the events to needs as many */
+    readonly floors: number = 1;
+
+    generation_ended: boolean = false;
+
+    protected readonly cells: MazeCell[][] = [];
+    protected readonly rooms_wide: number;
+    protected readonly rooms_high: number;
+
+    constructor(config: MazeConfig, random: () => number = Math.random) {
+        this.width = config.grid_width;
+        this.height = config.grid_height;
+        this.random = random;
+        this.rooms_wide = Math.floor((this.width - 1) / 2);
+        this.rooms_high = Math.floor((this.height - 1) / 2);
+        for (let i = 0; i < this.width; i++) this.cells.push(new Array<MazeCell>(this.height).fill(MazeCell.WALL));
+    }
+    /**
+     * Progresses the generation by 1 step, returning every change it made in the order it made them
+     */
+    public abstract step(): GeneratorEvent[];
+
+    /**
+     * Yields the events of every step until the generator completes execution
+     */
+    public *generate(): Generator<GeneratorEvent, void, undefined> {
+        while (!this.generation_ended) yield* this.step();
+    }
+
+    protected set_cell(coord: Coordinate, cell_type: MazeCell): GeneratorEvent {
+        this.cells[coord.x][coord.y] = cell_type;
+        return { type: GeneratorEventType.CELL_CHANGED, coord: coord, cell_type: cell_type };
+    }
+
+    protected random_int(max: number) {
+        return Math.floor(this.random() * max);
+    }
+
+    protected shuffle<T>(array: T[]) {
+        for (let i = array.length - 1; i > 0; i--) {
+            const j = this.random_int(i + 1);
+            [array[i], array[j]] = [array[j], array[i]];
+        }
+        return array;
+    }
+
+    protected room_cell(room: Coordinate): Coordinate {
+        return { x: room.x * 2 + 1, y: room.y * 2 + 1 };
+    }
+
+    protected wall_between(room1: Coordinate, room2: Coordinate): Coordinate {
+        return { x: room1.x + room2.x + 1, y: room1.y + room2.y + 1 };
+    }
+
+    protected room_index(room: Coordinate) {
+        return room.x + room.y * this.rooms_wide;
+    }
+
+    protected random_room(): Coordinate {
+        return { x: this.random_int(this.rooms_wide), y: this.random_int(this.rooms_high) };
+    }
+
+    protected neighboring_rooms(room: Coordinate) {
+        const neighbors: Coordinate[] = [];
+        if (room.x + 1 < this.rooms_wide) neighbors.push({ x: room.x + 1, y: room.y });
+        if (room.y + 1 < this.rooms_high) neighbors.push({ x: room.x, y: room.y + 1 });
+        if (room.x - 1 >= 0) neighbors.push({ x: room.x - 1, y: room.y });
+        if (room.y - 1 >= 0) neighbors.push({ x: room.x, y: room.y - 1 });
+        return neighbors;
+    }
+
+    protected end_generation(start: Coordinate, end: Coordinate): GeneratorEvent {
+        this.generation_ended = true;
+        return { type: GeneratorEventType.GENERATION_ENDED, start: start, end: end };
+    }
+
+    /**
+     * Places start and end in two different rooms, every room being connected this always produces a solvable maze
+     */
+    protected end_generation_in_random_rooms(): GeneratorEvent[] {
+        const start = this.random_room();
+        if (this.rooms_wide * this.rooms_high === 1) {
+            // A grid this small only fits one room, so the end goes in the wall next to it instead
+            const end = { x: 2, y: 1 };
+            return [
+                this.set_cell(this.room_cell(start), MazeCell.FLOOR),
+                this.set_cell(end, MazeCell.FLOOR),
+                this.end_generation(this.room_cell(start), end),
+            ];
+        }
+        let end = this.random_room();
+        while (coordinate_equals(start, end)) end = this.random_room();
+        return [this.end_generation(this.room_cell(start), this.room_cell(end))];
+    }
+}
+
+/**
+ * The original generator, fills each cell at random and retries until start and end are connected
+ */
+class NoiseGenerator extends MazeGenerator {
+    readonly floor_likelihood = 0.6;
+    readonly max_attempts = 100;
+
+    private readonly target: MazeCell[][] = [];
+    private readonly start: Coordinate;
+    private readonly end: Coordinate;
+    private column = 0;
+
+    constructor(config: MazeConfig, random: () => number = Math.random) {
+        super(config, random);
+        this.start = { x: this.random_int(this.width), y: this.random_int(this.height) };
+        this.end = { x: this.random_int(this.width), y: this.random_int(this.height) };
+        while (coordinate_equals(this.start, this.end)) this.end = { x: this.random_int(this.width), y: this.random_int(this.height) };
+
+        for (let attempt = 0; attempt < this.max_attempts; attempt++) {
+            this.fill_target();
+            if (this.is_connected()) return;
+        }
+        // Vanishingly unlikely, but rather than give up on solvability carve a corridor between start and end
+        for (let x = Math.min(this.start.x, this.end.x); x <= Math.max(this.start.x, this.end.x); x++) this.target[x][this.start.y] = MazeCell.FLOOR;
+        for (let y = Math.min(this.start.y, this.end.y); y <= Math.max(this.start.y, this.end.y); y++) this.target[this.end.x][y] = MazeCell.FLOOR;
+    }
+
+    private fill_target() {
+        this.target.length = 0;
+        for (let i = 0; i < this.width; i++) {
+            const column: MazeCell[] = [];
+            for (let j = 0; j < this.height; j++) {
+                column.push(this.random() < this.floor_likelihood ? MazeCell.FLOOR : MazeCell.WALL);
+            }
+            this.target.push(column);
+        }
+        this.target[this.start.x][this.start.y] = MazeCell.FLOOR;
+        this.target[this.end.x][this.end.y] = MazeCell.FLOOR;
+    }
+
+    /**
+     * Flood fills the target grid from start, checking whether it reaches end
+     */
+    private is_connected() {
+        const reached: boolean[][] = this.target.map((column) => column.map(() => false));
+        const stack = [this.start];
+        reached[this.start.x][this.start.y] = true;
+        while (stack.length > 0) {
+            const coord = stack.pop() as Coordinate;
+            if (coordinate_equals(coord, this.end)) return true;
+            const neighbors = [
+                { x: coord.x + 1, y: coord.y },
+                { x: coord.x, y: coord.y + 1 },
+                { x: coord.x - 1, y: coord.y },
+                { x: coord.x, y: coord.y - 1 },
+            ];
+            for (const neighbor of neighbors) {
+                if (neighbor.x < 0 || neighbor.x >= this.width || neighbor.y < 0 || neighbor.y >= this.height) continue;
+                if (reached[neighbor.x][neighbor.y] || this.target[neighbor.x][neighbor.y] === MazeCell.WALL) continue;
+                reached[neighbor.x][neighbor.y] = true;
+                stack.push(neighbor);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Reveals the precomputed grid one column at a time
+     */
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        const events: GeneratorEvent[] = [];
+        for (let j = 0; j < this.height; j++) {
+            if (this.target[this.column][j] === MazeCell.FLOOR) events.push(this.set_cell({ x: this.column, y: j }, MazeCell.FLOOR));
+        }
+        this.column++;
+        if (this.column >= this.width) events.push(this.end_generation(this.start, this.end));
+        return events;
+    }
+}
+
+type backtracker_stack_element = {
+    room: Coordinate;
+    entered_through: Coordinate | undefined;
+};
+/**
+ * Randomized depth first search, carves long winding corridors and shows the current branch as ACTIVE cells
+ */
+class RecursiveBacktracker extends MazeGenerator {
+    private readonly stack: backtracker_stack_element[] = [];
+    private readonly visited: boolean[] = [];
+    private started = false;
+
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        if (!this.started) {
+            this.started = true;
+            const room = this.random_room();
+            this.visited[this.room_index(room)] = true;
+            this.stack.push({ room: room, entered_through: undefined });
+            return [this.set_cell(this.room_cell(room), MazeCell.ACTIVE)];
+        }
+
+        const top = this.stack[this.stack.length - 1];
+        if (top === undefined) return this.end_generation_in_random_rooms();
+        const unvisited = this.neighboring_rooms(top.room).filter((room) => !this.visited[this.room_index(room)]);
+        if (unvisited.length > 0) {
+            const next = unvisited[this.random_int(unvisited.length)];
+            const wall = this.wall_between(top.room, next);
+            this.visited[this.room_index(next)] = true;
+            this.stack.push({ room: next, entered_through: wall });
+            return [this.set_cell(wall, MazeCell.ACTIVE), this.set_cell(this.room_cell(next), MazeCell.ACTIVE)];
+        }
+
+        // Dead end, backtrack
+        this.stack.pop();
+        const events = [this.set_cell(this.room_cell(top.room), MazeCell.FLOOR)];
+        if (top.entered_through !== undefined) events.push(this.set_cell(top.entered_through, MazeCell.FLOOR));
+        return events;
+    }
+}
+
+/**
+ * Randomized Prim's algorithm, grows the maze outwards from one room while showing the rooms bordering it as ACTIVE cells
+ */
+class PrimGenerator extends MazeGenerator {
+    private readonly frontier: Coordinate[] = [];
+    private readonly in_maze: boolean[] = [];
+    private readonly in_frontier: boolean[] = [];
+    private started = false;
+
+    private add_to_maze(room: Coordinate) {
+        const events = [this.set_cell(this.room_cell(room), MazeCell.FLOOR)];
+        this.in_maze[this.room_index(room)] = true;
+        for (const neighbor of this.neighboring_rooms(room)) {
+            const index = this.room_index(neighbor);
+            if (this.in_maze[index] || this.in_frontier[index]) continue;
+            this.in_frontier[index] = true;
+            this.frontier.push(neighbor);
+            events.push(this.set_cell(this.room_cell(neighbor), MazeCell.ACTIVE));
+        }
+        return events;
+    }
+
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        if (!this.started) {
+            this.started = true;
+            return this.add_to_maze(this.random_room());
+        }
+        if (this.frontier.length === 0) return this.end_generation_in_random_rooms();
+
+        // Swap remove a random frontier room
+        const frontier_index = this.random_int(this.frontier.length);
+        const room = this.frontier[frontier_index];
+        this.frontier[frontier_index] = this.frontier[this.frontier.length - 1];
+        this.frontier.pop();
+
+        const connected = this.neighboring_rooms(room).filter((neighbor) => this.in_maze[this.room_index(neighbor)]);
+        const connect_to = connected[this.random_int(connected.length)];
+        return [this.set_cell(this.wall_between(room, connect_to), MazeCell.FLOOR), ...this.add_to_maze(room)];
+    }
+}
+
+/**
+ * Randomized Kruskal's algorithm, knocks down walls in random order whenever they separate two unconnected regions
+ */
+class KruskalGenerator extends MazeGenerator {
+    private readonly walls: [Coordinate, Coordinate][] = [];
+    private readonly parent: number[] = [];
+
+    constructor(config: MazeConfig, random: () => number = Math.random) {
+        super(config, random);
+        for (let i = 0; i < this.rooms_wide; i++) {
+            for (let j = 0; j < this.rooms_high; j++) {
+                this.parent[this.room_index({ x: i, y: j })] = this.room_index({ x: i, y: j });
+                if (i + 1 < this.rooms_wide) this.walls.push([{ x: i, y: j }, { x: i + 1, y: j }]);
+                if (j + 1 < this.rooms_high) this.walls.push([{ x: i, y: j }, { x: i, y: j + 1 }]);
+            }
+        }
+        this.shuffle(this.walls);
+    }
+
+    private find(index: number): number {
+        while (this.parent[index] !== index) {
+            this.parent[index] = this.parent[this.parent[index]];
+            index = this.parent[index];
+        }
+        return index;
+    }
+
+    /**
+     * Skips walls that would create a loop, so every step visibly removes one wall
+     */
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        for (let wall = this.walls.pop(); wall !== undefined; wall = this.walls.pop()) {
+            const [room1, room2] = wall;
+            const root1 = this.find(this.room_index(room1));
+            const root2 = this.find(this.room_index(room2));
+            if (root1 === root2) continue;
+            this.parent[root1] = root2;
+            return [
+                this.set_cell(this.room_cell(room1), MazeCell.FLOOR),
+                this.set_cell(this.wall_between(room1, room2), MazeCell.FLOOR),
+                this.set_cell(this.room_cell(room2), MazeCell.FLOOR),
+            ];
+        }
+        return this.end_generation_in_random_rooms();
+    }
+}
+
+/**
+ * Wilson's algorithm, performs loop-erased random walks from unvisited rooms until they hit the maze, producing an unbiased maze.
+ * The walk in progress is shown as ACTIVE cells, and erased loops turn back into WALL.
+ */
+class WilsonGenerator extends MazeGenerator {
+    private readonly in_maze: boolean[] = [];
+    private readonly remaining: Coordinate[] = [];
+    private walk: Coordinate[] = [];
+    private started = false;
+
+    constructor(config: MazeConfig, random: () => number = Math.random) {
+        super(config, random);
+        for (let i = 0; i < this.rooms_wide; i++) {
+            for (let j = 0; j < this.rooms_high; j++) this.remaining.push({ x: i, y: j });
+        }
+        this.shuffle(this.remaining);
+    }
+
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        if (!this.started) {
+            this.started = true;
+            const room = this.remaining.pop() as Coordinate;
+            this.in_maze[this.room_index(room)] = true;
+            return [this.set_cell(this.room_cell(room), MazeCell.FLOOR)];
+        }
+
+        if (this.walk.length === 0) {
+            while (this.remaining.length > 0 && this.in_maze[this.room_index(this.remaining[this.remaining.length - 1])]) this.remaining.pop();
+            const room = this.remaining.pop();
+            if (room === undefined) return this.end_generation_in_random_rooms();
+            this.walk = [room];
+            return [this.set_cell(this.room_cell(room), MazeCell.ACTIVE)];
+        }
+
+        const current = this.walk[this.walk.length - 1];
+        const neighbors = this.neighboring_rooms(current);
+        const next = neighbors[this.random_int(neighbors.length)];
+
+        if (this.in_maze[this.room_index(next)]) {
+            // The walk reached the maze, so it becomes part of it
+            const events = [this.set_cell(this.wall_between(current, next), MazeCell.FLOOR)];
+            for (let i = 0; i < this.walk.length; i++) {
+                this.in_maze[this.room_index(this.walk[i])] = true;
+                events.push(this.set_cell(this.room_cell(this.walk[i]), MazeCell.FLOOR));
+                if (i > 0) events.push(this.set_cell(this.wall_between(this.walk[i - 1], this.walk[i]), MazeCell.FLOOR));
+            }
+            this.walk = [];
+            return events;
+        }
+
+        const loop_start = this.walk.findIndex((room) => coordinate_equals(room, next));
+        if (loop_start === -1) {
+            this.walk.push(next);
+            return [this.set_cell(this.wall_between(current, next), MazeCell.ACTIVE), this.set_cell(this.room_cell(next), MazeCell.ACTIVE)];
+        }
+
+        // Erase the loop the walk just made
+        const events: GeneratorEvent[] = [];
+        for (let i = this.walk.length - 1; i > loop_start; i--) {
+            events.push(this.set_cell(this.wall_between(this.walk[i - 1], this.walk[i]), MazeCell.WALL));
+            events.push(this.set_cell(this.room_cell(this.walk[i]), MazeCell.WALL));
+        }
+        this.walk.length = loop_start + 1;
+        return events;
+    }
+}
+
+/**
+ * Eller's algorithm, builds the maze one row of rooms at a time while only remembering which set each room of the current row is in
+ */
+class EllerGenerator extends MazeGenerator {
+    readonly join_likelihood = 0.5;
+
+    private row = 0;
+    private row_sets: number[];
+    private next_set = 1;
+
+    constructor(config: MazeConfig, random: () => number = Math.random) {
+        super(config, random);
+        this.row_sets = new Array<number>(this.rooms_wide).fill(0);
+    }
+
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        if (this.row >= this.rooms_high) return this.end_generation_in_random_rooms();
+
+        const events: GeneratorEvent[] = [];
+        const last_row = this.row === this.rooms_high - 1;
+        for (let i = 0; i < this.rooms_wide; i++) {
+            if (this.row_sets[i] !== 0) continue;
+            this.row_sets[i] = this.next_set++;
+            events.push(this.set_cell(this.room_cell({ x: i, y: this.row }), MazeCell.FLOOR));
+        }
+
+        // Join neighbouring rooms of different sets, the last row has to join all of them to connect the maze
+        for (let i = 0; i + 1 < this.rooms_wide; i++) {
+            if (this.row_sets[i] === this.row_sets[i + 1]) continue;
+            if (!last_row && this.random() >= this.join_likelihood) continue;
+            const merged_set = this.row_sets[i + 1];
+            this.row_sets = this.row_sets.map((set) => (set === merged_set ? this.row_sets[i] : set));
+            events.push(this.set_cell(this.wall_between({ x: i, y: this.row }, { x: i + 1, y: this.row }), MazeCell.FLOOR));
+        }
+
+        if (!last_row) {
+            // Every set has to extend downwards at least once so that no set is cut off
+            const next_row_sets = new Array<number>(this.rooms_wide).fill(0);
+            const members = new Map<number, number[]>();
+            this.row_sets.forEach((set, i) => members.set(set, [...(members.get(set) ?? []), i]));
+            for (const set_members of members.values()) {
+                this.shuffle(set_members);
+                set_members.forEach((i, order) => {
+                    if (order > 0 && this.random() >= this.join_likelihood) return;
+                    const room = { x: i, y: this.row };
+                    const below = { x: i, y: this.row + 1 };
+                    next_row_sets[i] = this.row_sets[i];
+                    events.push(this.set_cell(this.wall_between(room, below), MazeCell.FLOOR));
+                    events.push(this.set_cell(this.room_cell(below), MazeCell.FLOOR));
+                });
+            }
+            this.row_sets = next_row_sets;
+        }
+        this.row++;
+        return events;
+    }
+}
+
+/**
+ * Generates every floor of a maze with several floors in turn, each with a generator of its own, and then joins every floor to the next
+ * with stairs at a position where both floors can be reached from their start. Start is on the first floor and end on the last one.
+ */
+class FloorsGenerator extends MazeGenerator {
+    readonly floors: number;
+    readonly floor_width: number;
+    private readonly floor_generators: MazeGenerator[] = [];
+    /** Start and end each floor generator ended with, in the coordinates of the whole maze */
+    private readonly floor_ends: { start: Coordinate; end: Coordinate }[] = [];
+
+    constructor(
+        config: MazeConfig,
+        random: () => number,
+        create_floor_generator: (config: MazeConfig, random: () => number) => MazeGenerator,
+    ) {
+        const floors = config.floors ?? 1;
+        super({ grid_width: config.grid_width * floors, grid_height: config.grid_height }, random);
+        this.floors = floors;
+        this.floor_width = config.grid_width;
+        const floor_config = { grid_width: config.grid_width, grid_height: config.grid_height };
+        for (let floor = 0; floor < floors; floor++) this.floor_generators.push(create_floor_generator(floor_config, random));
+    }
+
+    /**
+     * Takes a step of the floor being generated, or places every staircase once all floors are done
+     */
+    public step(): GeneratorEvent[] {
+        if (this.generation_ended) return [];
+        const floor = this.floor_ends.length;
+        if (floor === this.floors) return this.connect_floors();
+        const offset = floor * this.floor_width;
+        const events: GeneratorEvent[] = [];
+        for (const event of this.floor_generators[floor].step()) {
+            if (event.type === GeneratorEventType.CELL_CHANGED) {
+                events.push(this.set_cell({ x: event.coord.x + offset, y: event.coord.y }, event.cell_type));
+            } else {
+                this.floor_ends.push({
+                    start: { x: event.start.x + offset, y: event.start.y },
+                    end: { x: event.end.x + offset, y: event.end.y },
+                });
+            }
+        }
+        return events;
+    }
+
+    private connect_floors(): GeneratorEvent[] {
+        const events: GeneratorEvent[] = [];
+        const start = this.floor_ends[0].start;
+        const end = this.floor_ends[this.floors - 1].end;
+        for (let floor = 0; floor + 1 < this.floors; floor++) {
+            const offset = floor * this.floor_width;
+            const reachable = this.reachable_on_floor(this.floor_ends[floor].start);
+            const reachable_above = this.reachable_on_floor(this.floor_ends[floor + 1].start);
+            const candidates: Coordinate[] = [];
+            for (let i = 0; i < this.floor_width; i++) {
+                for (let j = 0; j < this.height; j++) {
+                    const below = { x: offset + i, y: j };
+                    const above = { x: offset + this.floor_width + i, y: j };
+                    if (coordinate_equals(below, start) || coordinate_equals(above, end)) continue;
+                    if (reachable[below.x][below.y] && reachable_above[above.x][above.y]) candidates.push(below);
+                }
+            }
+            let stairs = candidates[this.random_int(candidates.length)];
+            if (stairs === undefined) {
+                // The floors have nothing reachable in common, so a corridor on the floor above leads from its start to the end of this floor
+                stairs = this.floor_ends[floor].end;
+                const start_above = this.floor_ends[floor + 1].start;
+                const corner = { x: start_above.x, y: stairs.y };
+                for (let x = Math.min(stairs.x + this.floor_width, corner.x); x <= Math.max(stairs.x + this.floor_width, corner.x); x++)
+                    events.push(this.set_cell({ x: x, y: stairs.y }, MazeCell.FLOOR));
+                for (let y = Math.min(corner.y, start_above.y); y <= Math.max(corner.y, start_above.y); y++)
+                    events.push(this.set_cell({ x: corner.x, y: y }, MazeCell.FLOOR));
+            }
+            events.push(this.set_cell(stairs, MazeCell.STAIRS));
+            events.push(this.set_cell({ x: stairs.x + this.floor_width, y: stairs.y }, MazeCell.STAIRS));
+        }
+        events.push(this.end_generation(start, end));
+        return events;
+    }
+
+    /**
+     * The cells that can be reached from a cell without leaving its floor
+     */
+    private reachable_on_floor(from: Coordinate) {
+        const floor_start = Math.floor(from.x / this.floor_width) * this.floor_width;
+        const reached = this.cells.map((column) => column.map(() => false));
+        reached[from.x][from.y] = true;
+        const stack = [from];
+        while (stack.length > 0) {
+            const coord = stack.pop() as Coordinate;
+            const neighbors = [
+                { x: coord.x + 1, y: coord.y },
+                { x: coord.x, y: coord.y + 1 },
+                { x: coord.x - 1, y: coord.y },
+                { x: coord.x, y: coord.y - 1 },
+            ];
+            for (const neighbor of neighbors) {
+                if (neighbor.x < floor_start || neighbor.x >= floor_start + this.floor_width || neighbor.y < 0 || neighbor.y >= this.height) continue;
+                if (reached[neighbor.x][neighbor.y] || this.cells[neighbor.x][neighbor.y] === MazeCell.WALL) continue;
+                reached[neighbor.x][neighbor.y] = true;
+                stack.push(neighbor);
+            }
+        }
+        return reached;
+    }
+}
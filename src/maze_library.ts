@@ -0,0 +1,114 @@
+import { Maze } from "./maze";
+import { maze_to_json } from "./maze_file";
+export { MazeLibrary, SavedMaze, LibraryResult };
+
+/**
+ * A maze saved in the library, stored as the json document Export JSON writes, which keeps its markers and topology as well
+ */
+type SavedMaze = {
+    name: string;
+    /** When it was last saved, in milliseconds since 1970 */
+    saved_at: number;
+    maze: string;
+    /** Small picture of the maze as a data url */
+    thumbnail: string;
+};
+/**
+ * Every saved maze after a change to the library, or a message explaining why the library could not be changed
+ */
+type LibraryResult = { mazes: SavedMaze[] } | { error: string };
+
+/** Longest name a saved maze can have */
+const max_name_length = 100;
+
+function is_saved_maze(value: unknown): value is SavedMaze {
+    if (typeof value !== "object" || value === null) return false;
+    const saved = value as { [key: string]: unknown };
+    return (
+        typeof saved.name === "string" &&
+        typeof saved.saved_at === "number" &&
+        typeof saved.maze === "string" &&
+        typeof saved.thumbnail === "string"
+    );
+}
+
+/**
+ * Mazes saved under names of their own in the browser's storage, which keeps them across reloads.
+ * Names are unique, saving a maze under the name of one already saved replacing it where it is listed.
+ */
+class MazeLibrary {
+    private readonly storage: Storage;
+    /** Key of the storage item holding every saved maze */
+    readonly key: string;
+
+    constructor(storage: Storage, key = "maze library") {
+        this.storage = storage;
+        this.key = key;
+    }
+
+    /**
+     * Every saved maze in the order they were first saved, leaving out anything in the storage item that is not a saved maze
+     */
+    public list(): SavedMaze[] {
+        const text = this.storage.getItem(this.key);
+        if (text === null) return [];
+        let stored: unknown;
+        try {
+            stored = JSON.parse(text);
+        } catch (e) {
+            return [];
+        }
+        return Array.isArray(stored) ? stored.filter(is_saved_maze) : [];
+    }
+
+    public get(name: string) {
+        return this.list().find((saved) => saved.name === name);
+    }
+
+    public save(name: string, maze: Maze, thumbnail: string): LibraryResult {
+        const checked = checked_name(name);
+        if ("error" in checked) return checked;
+        const mazes = this.list();
+        const saved = { name: checked.name, saved_at: Date.now(), maze: maze_to_json(maze), thumbnail: thumbnail };
+        const index = mazes.findIndex((other) => other.name === checked.name);
+        if (index === -1) mazes.push(saved);
+        else mazes[index] = saved;
+        return this.write(mazes);
+    }
+
+    public rename(name: string, new_name: string): LibraryResult {
+        const checked = checked_name(new_name);
+        if ("error" in checked) return checked;
+        const mazes = this.list();
+        const saved = mazes.find((other) => other.name === name);
+        if (saved === undefined) return { error: "There is no maze called " + name };
+        if (checked.name !== name && mazes.some((other) => other.name === checked.name))
+            return { error: "There already is a maze called " + checked.name };
+        saved.name = checked.name;
+        return this.write(mazes);
+    }
+
+    public remove(name: string): LibraryResult {
+        return this.write(this.list().filter((saved) => saved.name !== name));
+    }
+
+    private write(mazes: SavedMaze[]): LibraryResult {
+        try {
+            this.storage.setItem(this.key, JSON.stringify(mazes));
+        } catch (e) {
+            // Browsers only give every page a few megabytes of storage
+            return { error: "The library could not be saved, the browser's storage may be full: " + (e as Error).message };
+        }
+        return { mazes: mazes };
+    }
+}
+
+/**
+ * A name with the spaces around it removed, or why it cannot be the name of a maze
+ */
+function checked_name(name: string): { name: string } | { error: string } {
+    const trimmed = name.trim();
+    if (trimmed.length === 0) return { error: "Give the maze a name" };
+    if (trimmed.length > max_name_length) return { error: "Names can be at most " + max_name_length + " characters long" };
+    return { name: trimmed };
+}
@@ -0,0 +1,338 @@
+import { Coordinate, Maze, coordinate_equals } from "./maze";
+import { BinaryHeap } from "./binary_heap";
+export {
+    AgentGoal,
+    PlannerType,
+    ConflictType,
+    Conflict,
+    PlanningResult,
+    agent_goals,
+    plan_agents,
+    find_conflicts,
+    position_at,
+    sum_of_costs,
+    makespan,
+    max_cbs_nodes,
+};
+
+/**
+ * Where an agent starts and the cell it has to reach and stay on
+ */
+type AgentGoal = {
+    start: Coordinate;
+    goal: Coordinate;
+};
+
+enum PlannerType {
+    /** Every agent takes its own shortest path as if it were alone, which is quick but lets agents collide */
+    INDEPENDENT,
+    /** Agents plan one after the other, each avoiding the agents planned before it, which can fail where a plan exists */
+    PRIORITIZED,
+    /** Conflict-based search, which resolves one collision at a time and finds the plan with the lowest sum of costs */
+    CBS,
+}
+
+enum ConflictType {
+    /** Two agents on the same cell at the same time */
+    VERTEX,
+    /** Two agents swapping cells, passing through each other on the way */
+    SWAP,
+}
+/**
+ * Two agents getting in each other's way. For a swap, the first agent moves from from to coord while the second moves from coord to from
+ */
+type Conflict =
+    | { type: ConflictType.VERTEX; agents: [number, number]; coord: Coordinate; time: number }
+    | { type: ConflictType.SWAP; agents: [number, number]; from: Coordinate; coord: Coordinate; time: number };
+
+/**
+ * Where every agent is at every timestep until it reached its goal for good, or why no such plan was found.
+ * nodes_expanded counts the nodes of the constraint tree for conflict-based search and is 0 for the other planners.
+ */
+type PlanningResult = { plans: Coordinate[][]; conflicts: Conflict[]; nodes_expanded: number } | { error: string };
+
+/**
+ * Most nodes of the constraint tree conflict-based search expands before it gives up, as the tree can grow exponentially with the number of conflicts
+ */
+const max_cbs_nodes = 20000;
+
+/**
+ * The agents placed on a maze, its agent markers being taken in pairs of start and goal, a last start without a goal being left out
+ */
+function agent_goals(maze: Maze): AgentGoal[] {
+    const goals: AgentGoal[] = [];
+    for (let i = 0; i + 1 < maze.agents.length; i += 2) goals.push({ start: maze.agents[i], goal: maze.agents[i + 1] });
+    return goals;
+}
+
+/**
+ * Where an agent following a plan is at a timestep, agents staying on their goal once they reached it
+ */
+function position_at(plan: Coordinate[], time: number) {
+    return plan[Math.min(time, plan.length - 1)];
+}
+
+/**
+ * Total number of timesteps the agents take to reach their goals for good
+ */
+function sum_of_costs(plans: Coordinate[][]) {
+    return plans.reduce((sum, plan) => sum + plan.length - 1, 0);
+}
+
+/**
+ * Number of timesteps until the last agent reached its goal for good
+ */
+function makespan(plans: Coordinate[][]) {
+    return plans.reduce((longest, plan) => Math.max(longest, plan.length - 1), 0);
+}
+
+/**
+ * Every conflict between the plans, in the order of the timesteps they happen at
+ */
+function find_conflicts(plans: Coordinate[][], only_first = false): Conflict[] {
+    const conflicts: Conflict[] = [];
+    const end = makespan(plans);
+    for (let time = 0; time <= end; time++) {
+        for (let a = 0; a < plans.length; a++) {
+            for (let b = a + 1; b < plans.length; b++) {
+                const coord = position_at(plans[a], time);
+                if (coordinate_equals(coord, position_at(plans[b], time)))
+                    conflicts.push({ type: ConflictType.VERTEX, agents: [a, b], coord: coord, time: time });
+                else if (time > 0) {
+                    const from = position_at(plans[a], time - 1);
+                    if (coordinate_equals(from, position_at(plans[b], time)) && coordinate_equals(coord, position_at(plans[b], time - 1)))
+                        conflicts.push({ type: ConflictType.SWAP, agents: [a, b], from: from, coord: coord, time: time });
+                }
+                if (only_first && conflicts.length > 0) return conflicts;
+            }
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Cells and moves an agent may not use at certain timesteps, and cells it may not enter from some timestep on,
+ * which are the goals of agents that reached them
+ */
+class Reservations {
+    private readonly cells = new Set<string>();
+    private readonly moves = new Set<string>();
+    private readonly occupied_from = new Map<string, number>();
+    /** Latest timestep any cell is reserved at, after which nothing changes but the goals that stay occupied */
+    latest = 0;
+
+    public reserve_cell(coord: Coordinate, time: number) {
+        this.cells.add(coord.x + "," + coord.y + "," + time);
+        this.latest = Math.max(this.latest, time);
+    }
+
+    /**
+     * Forbids moving from one cell to another so that the move ends at the given timestep
+     */
+    public reserve_move(from: Coordinate, to: Coordinate, time: number) {
+        this.moves.add(from.x + "," + from.y + "," + to.x + "," + to.y + "," + time);
+        this.latest = Math.max(this.latest, time);
+    }
+
+    public occupy_from(coord: Coordinate, time: number) {
+        const key = coord.x + "," + coord.y;
+        this.occupied_from.set(key, Math.min(this.occupied_from.get(key) ?? Infinity, time));
+        this.latest = Math.max(this.latest, time);
+    }
+
+    /**
+     * Reserves every cell and move of a plan, and its goal for good once the plan reaches it
+     */
+    public reserve_plan(plan: Coordinate[]) {
+        plan.forEach((coord, time) => {
+            this.reserve_cell(coord, time);
+            // Moving the other way at the same time would pass through the agent
+            if (time > 0) this.reserve_move(coord, plan[time - 1], time);
+        });
+        this.occupy_from(plan[plan.length - 1], plan.length - 1);
+    }
+
+    public is_free(coord: Coordinate, time: number) {
+        return (
+            !this.cells.has(coord.x + "," + coord.y + "," + time) && (this.occupied_from.get(coord.x + "," + coord.y) ?? Infinity) > time
+        );
+    }
+
+    public is_move_free(from: Coordinate, to: Coordinate, time: number) {
+        return !this.moves.has(from.x + "," + from.y + "," + to.x + "," + to.y + "," + time);
+    }
+
+    /**
+     * Whether an agent may stay on a cell for good from the given timestep on
+     */
+    public may_stay(coord: Coordinate, time: number) {
+        if (this.occupied_from.has(coord.x + "," + coord.y)) return false;
+        for (let later = time; later <= this.latest; later++) if (!this.is_free(coord, later)) return false;
+        return true;
+    }
+}
+
+/**
+ * Number of moves from every cell to the goal, Infinity for the cells the goal cannot be reached from
+ */
+function moves_to(maze: Maze, goal: Coordinate) {
+    const moves: number[][] = [];
+    for (let i = 0; i < maze.width; i++) moves.push(new Array<number>(maze.height).fill(Infinity));
+    if (!maze.is_passable(goal)) return moves;
+    moves[goal.x][goal.y] = 0;
+    const queue = [goal];
+    for (let index = 0; index < queue.length; index++) {
+        const coord = queue[index];
+        for (const predecessor of maze.get_predecessor_coordinates(coord)) {
+            if (!maze.is_passable(predecessor) || moves[predecessor.x][predecessor.y] !== Infinity) continue;
+            moves[predecessor.x][predecessor.y] = moves[coord.x][coord.y] + 1;
+            queue.push(predecessor);
+        }
+    }
+    return moves;
+}
+
+type TimedCell = {
+    coord: Coordinate;
+    time: number;
+    /** Timesteps spent plus the moves left to the goal */
+    f: number;
+    parent: TimedCell | undefined;
+};
+
+/**
+ * Space-time A*, finding the quickest way to the goal that keeps clear of the reservations, every move and every wait taking a timestep.
+ * Undefined if there is none.
+ */
+function plan_path(maze: Maze, agent: AgentGoal, moves: number[][], reservations: Reservations): Coordinate[] | undefined {
+    if (moves[agent.start.x][agent.start.y] === Infinity || !reservations.is_free(agent.start, 0)) return undefined;
+    // Nothing changes after the last reservation, so being on a cell then is the same whenever it is, which keeps the search finite
+    const state_key = (coord: Coordinate, time: number) => coord.x + "," + coord.y + "," + Math.min(time, reservations.latest + 1);
+    // Ties go to the cell furthest along, which heads straight for the goal instead of trying every way of getting as far
+    const frontier = new BinaryHeap<TimedCell>((a, b) => a.f < b.f || (a.f === b.f && a.time > b.time));
+    const visited = new Set<string>();
+    frontier.push({ coord: agent.start, time: 0, f: moves[agent.start.x][agent.start.y], parent: undefined });
+    for (let cell = frontier.pop(); cell !== undefined; cell = frontier.pop()) {
+        const key = state_key(cell.coord, cell.time);
+        if (visited.has(key)) continue;
+        visited.add(key);
+        if (coordinate_equals(cell.coord, agent.goal) && reservations.may_stay(cell.coord, cell.time)) {
+            const path: Coordinate[] = [];
+            for (let step: TimedCell | undefined = cell; step !== undefined; step = step.parent) path.push(step.coord);
+            return path.reverse();
+        }
+        const time = cell.time + 1;
+        for (const next of [cell.coord, ...maze.get_neighboring_coordinates(cell.coord)]) {
+            if (!maze.is_passable(next) || moves[next.x][next.y] === Infinity) continue;
+            if (!reservations.is_free(next, time) || !reservations.is_move_free(cell.coord, next, time)) continue;
+            if (visited.has(state_key(next, time))) continue;
+            frontier.push({ coord: next, time: time, f: time + moves[next.x][next.y], parent: cell });
+        }
+    }
+    return undefined;
+}
+
+/**
+ * A constraint added to a node of the constraint tree for one agent, which can neither be on coord at the timestep
+ * nor, if from is given, move from from to coord so that it arrives at the timestep
+ */
+type Constraint = {
+    agent: number;
+    coord: Coordinate;
+    from: Coordinate | undefined;
+    time: number;
+};
+type ConstraintNode = {
+    constraint: Constraint | undefined;
+    parent: ConstraintNode | undefined;
+    plans: Coordinate[][];
+    cost: number;
+    /** Number of conflicts between the plans, which decides between nodes of equal cost as fewer conflicts tend to be resolved sooner */
+    conflicts: number;
+};
+
+/**
+ * The reservations the constraints of a node and its ancestors place on an agent
+ */
+function constraints_of(node: ConstraintNode, agent: number) {
+    const reservations = new Reservations();
+    for (let ancestor: ConstraintNode | undefined = node; ancestor !== undefined; ancestor = ancestor.parent) {
+        const constraint = ancestor.constraint;
+        if (constraint === undefined || constraint.agent !== agent) continue;
+        if (constraint.from === undefined) reservations.reserve_cell(constraint.coord, constraint.time);
+        else reservations.reserve_move(constraint.from, constraint.coord, constraint.time);
+    }
+    return reservations;
+}
+
+/**
+ * Conflict-based search: plans every agent alone, then takes the constraint tree node with the lowest sum of costs
+ * and splits its first conflict into two nodes that each forbid one of the agents what it did, replanning only that agent
+ */
+function conflict_based_search(maze: Maze, agents: AgentGoal[], moves: number[][][], independent: Coordinate[][]): PlanningResult {
+    const open = new BinaryHeap<ConstraintNode>((a, b) => a.cost < b.cost || (a.cost === b.cost && a.conflicts < b.conflicts));
+    open.push({
+        constraint: undefined,
+        parent: undefined,
+        plans: independent,
+        cost: sum_of_costs(independent),
+        conflicts: find_conflicts(independent).length,
+    });
+    let nodes_expanded = 0;
+    for (let node = open.pop(); node !== undefined; node = open.pop()) {
+        const conflict = node.conflicts === 0 ? undefined : find_conflicts(node.plans, true)[0];
+        if (conflict === undefined) return { plans: node.plans, conflicts: [], nodes_expanded: nodes_expanded };
+        if (++nodes_expanded > max_cbs_nodes)
+            return { error: "Conflict-based search gave up after expanding " + max_cbs_nodes + " nodes of its constraint tree" };
+        conflict.agents.forEach((agent, index) => {
+            if (node === undefined) return;
+            // The second agent of a swap moves the other way
+            let constraint: Constraint = { agent: agent, coord: conflict.coord, from: undefined, time: conflict.time };
+            if (conflict.type === ConflictType.SWAP)
+                constraint =
+                    index === 0
+                        ? { agent: agent, coord: conflict.coord, from: conflict.from, time: conflict.time }
+                        : { agent: agent, coord: conflict.from, from: conflict.coord, time: conflict.time };
+            const child: ConstraintNode = { constraint: constraint, parent: node, plans: node.plans.slice(), cost: 0, conflicts: 0 };
+            const plan = plan_path(maze, agents[agent], moves[agent], constraints_of(child, agent));
+            if (plan === undefined) return;
+            child.plans[agent] = plan;
+            child.cost = sum_of_costs(child.plans);
+            child.conflicts = find_conflicts(child.plans).length;
+            open.push(child);
+        });
+    }
+    return { error: "The agents cannot all reach their goals without colliding" };
+}
+
+/**
+ * Plans a path for every agent with the chosen planner. Every move to a neighboring cell and every wait takes one timestep,
+ * whatever the terrain costs, and two agents may neither be on the same cell nor swap cells at the same timestep.
+ * The independent planner ignores the other agents, its conflicts being every collision of its plans.
+ */
+function plan_agents(maze: Maze, agents: AgentGoal[], type: PlannerType): PlanningResult {
+    const moves = agents.map((agent) => moves_to(maze, agent.goal));
+    const unreachable = agents.findIndex((agent, index) => moves[index][agent.start.x][agent.start.y] === Infinity);
+    if (unreachable !== -1) return { error: "Agent " + (unreachable + 1) + " cannot reach its goal" };
+
+    if (type === PlannerType.PRIORITIZED) {
+        const reservations = new Reservations();
+        const plans: Coordinate[][] = [];
+        for (let index = 0; index < agents.length; index++) {
+            const plan = plan_path(maze, agents[index], moves[index], reservations);
+            if (plan === undefined) return { error: "Agent " + (index + 1) + " found no way around the agents planned before it" };
+            reservations.reserve_plan(plan);
+            plans.push(plan);
+        }
+        return { plans: plans, conflicts: [], nodes_expanded: 0 };
+    }
+
+    const independent: Coordinate[][] = [];
+    for (let index = 0; index < agents.length; index++) {
+        const plan = plan_path(maze, agents[index], moves[index], new Reservations());
+        if (plan === undefined) return { error: "Agent " + (index + 1) + " cannot reach its goal" };
+        independent.push(plan);
+    }
+    if (type === PlannerType.INDEPENDENT) return { plans: independent, conflicts: find_conflicts(independent), nodes_expanded: 0 };
+    return conflict_based_search(maze, agents, moves, independent);
+}
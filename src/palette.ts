@@ -0,0 +1,255 @@
+import { MazeCell } from "./maze";
+export { Palette, LegendEntry, classic_palette, themes, legend_entries, cell_color, heat_color };
+
+/**
+ * The color of everything drawn on the page, each theme being one palette
+ */
+type Palette = {
+    page_background: string;
+    page_text: string;
+    floor: string;
+    wall: string;
+    grass: string;
+    mud: string;
+    water: string;
+    conveyor: string;
+    stairs: string;
+    /** Color of the arrows on conveyors, the steps on stairs, the lines between floors and the outline of agents of multi-agent planning */
+    arrow: string;
+    portal: string;
+    start: string;
+    end: string;
+    waypoint: string;
+    /** Color of the number written on a waypoint */
+    label: string;
+    active: string;
+    explored: string;
+    previously_explored: string;
+    active_from_end: string;
+    explored_from_end: string;
+    meeting_point: string;
+    marked_once: string;
+    marked_twice: string;
+    /** Color of the dots Trémaux draws on the cells it marked */
+    marks: string;
+    agent: string;
+    jump_point: string;
+    scanned: string;
+    /** Color of the crosses on the cells where agents planned without regard for each other collide */
+    collision: string;
+    /** Color of the cells an edit would change and of the cell a dragged marker would be dropped on */
+    indicator: string;
+    /** Colors of the legs of a path between waypoints, the first being the color of a path without waypoints */
+    legs: string[];
+    /** Colors of the heat map from the coldest to the hottest, as #rrggbb so that the colors between them can be worked out */
+    heat: string[];
+};
+
+const classic_palette: Palette = {
+    page_background: "white",
+    page_text: "black",
+    floor: "white",
+    wall: "black",
+    grass: "yellowgreen",
+    mud: "saddlebrown",
+    water: "deepskyblue",
+    conveyor: "lightsteelblue",
+    stairs: "tan",
+    arrow: "black",
+    portal: "darkviolet",
+    start: "green",
+    end: "red",
+    waypoint: "royalblue",
+    label: "white",
+    active: "yellow",
+    explored: "gray",
+    previously_explored: "silver",
+    active_from_end: "lightpink",
+    explored_from_end: "rosybrown",
+    meeting_point: "orange",
+    marked_once: "khaki",
+    marked_twice: "darkkhaki",
+    marks: "black",
+    agent: "darkorange",
+    jump_point: "mediumpurple",
+    scanned: "gainsboro",
+    collision: "red",
+    indicator: "blue",
+    legs: ["purple", "teal", "crimson", "olive", "navy", "deeppink"],
+    heat: ["#0000ff", "#00ffff", "#00ff00", "#ffff00", "#ff0000"],
+};
+
+/**
+ * Built from the Okabe-Ito colors, which stay apart for the common forms of color blindness, with viridis as the heat map
+ */
+const color_blind_palette: Palette = {
+    page_background: "white",
+    page_text: "black",
+    floor: "white",
+    wall: "black",
+    grass: "#bbcc33",
+    mud: "#aa7744",
+    water: "#56b4e9",
+    conveyor: "#88ccee",
+    stairs: "#ddcc77",
+    arrow: "black",
+    portal: "#aa4499",
+    start: "#009e73",
+    end: "#d55e00",
+    waypoint: "#332288",
+    label: "white",
+    active: "#f0e442",
+    explored: "#999999",
+    previously_explored: "#dddddd",
+    active_from_end: "#ffaabb",
+    explored_from_end: "#cc79a7",
+    meeting_point: "#e69f00",
+    marked_once: "#eedd88",
+    marked_twice: "#aaaa00",
+    marks: "black",
+    agent: "#e69f00",
+    jump_point: "#882255",
+    scanned: "#e8e8e8",
+    collision: "#cc3311",
+    indicator: "#44aa99",
+    legs: ["#0072b2", "#e69f00", "#009e73", "#cc79a7", "#d55e00", "#56b4e9"],
+    heat: ["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"],
+};
+
+const dark_palette: Palette = {
+    page_background: "#121212",
+    page_text: "#e0e0e0",
+    floor: "#202020",
+    wall: "#707070",
+    grass: "#558b2f",
+    mud: "#6d4c41",
+    water: "#0288d1",
+    conveyor: "#26606b",
+    stairs: "#8d6e63",
+    arrow: "#e0e0e0",
+    portal: "#ba68c8",
+    start: "#4caf50",
+    end: "#f44336",
+    waypoint: "#5c8df6",
+    label: "white",
+    active: "#ffd54f",
+    explored: "#455a64",
+    previously_explored: "#2f3b40",
+    active_from_end: "#f48fb1",
+    explored_from_end: "#6d4c5a",
+    meeting_point: "#ffa726",
+    marked_once: "#8d8650",
+    marked_twice: "#5f5a32",
+    marks: "#e0e0e0",
+    agent: "#ff9800",
+    jump_point: "#b39ddb",
+    scanned: "#2a2a2a",
+    collision: "#ff5252",
+    indicator: "#40c4ff",
+    legs: ["#ce93d8", "#4db6ac", "#ef5350", "#c0ca33", "#7986cb", "#f06292"],
+    heat: ["#420a68", "#932667", "#dd513a", "#fca50a", "#fcffa4"],
+};
+
+/**
+ * Every theme by the value of its option in the theme select
+ */
+const themes = new Map([
+    ["classic", classic_palette],
+    ["color blind", color_blind_palette],
+    ["dark", dark_palette],
+]);
+
+type LegendEntry = {
+    label: string;
+    color: (palette: Palette) => string;
+};
+
+/**
+ * What each color on the canvas means, in the order the legend lists them
+ */
+const legend_entries: LegendEntry[] = [
+    { label: "Start", color: (palette) => palette.start },
+    { label: "End", color: (palette) => palette.end },
+    { label: "Waypoint", color: (palette) => palette.waypoint },
+    { label: "Floor", color: (palette) => palette.floor },
+    { label: "Wall", color: (palette) => palette.wall },
+    { label: "Grass", color: (palette) => palette.grass },
+    { label: "Mud", color: (palette) => palette.mud },
+    { label: "Water", color: (palette) => palette.water },
+    { label: "Conveyor", color: (palette) => palette.conveyor },
+    { label: "Stairs", color: (palette) => palette.stairs },
+    { label: "Portal", color: (palette) => palette.portal },
+    { label: "Frontier", color: (palette) => palette.active },
+    { label: "Explored", color: (palette) => palette.explored },
+    { label: "Explored in an earlier iteration", color: (palette) => palette.previously_explored },
+    { label: "Frontier from end", color: (palette) => palette.active_from_end },
+    { label: "Explored from end", color: (palette) => palette.explored_from_end },
+    { label: "Meeting point", color: (palette) => palette.meeting_point },
+    { label: "Jump point", color: (palette) => palette.jump_point },
+    { label: "Scanned", color: (palette) => palette.scanned },
+    { label: "Marked once", color: (palette) => palette.marked_once },
+    { label: "Marked twice", color: (palette) => palette.marked_twice },
+    { label: "Agent", color: (palette) => palette.agent },
+    { label: "Path", color: (palette) => palette.legs[0] },
+    { label: "Collision", color: (palette) => palette.collision },
+];
+
+/**
+ * The color a cell of the given type is drawn in
+ */
+function cell_color(palette: Palette, cell_type: MazeCell) {
+    switch (cell_type) {
+        case MazeCell.WALL:
+            return palette.wall;
+        case MazeCell.ACTIVE:
+            return palette.active;
+        case MazeCell.EXPLORED:
+            return palette.explored;
+        case MazeCell.PREVIOUSLY_EXPLORED:
+            return palette.previously_explored;
+        case MazeCell.ACTIVE_FROM_END:
+            return palette.active_from_end;
+        case MazeCell.EXPLORED_FROM_END:
+            return palette.explored_from_end;
+        case MazeCell.MEETING_POINT:
+            return palette.meeting_point;
+        case MazeCell.MARKED_ONCE:
+            return palette.marked_once;
+        case MazeCell.MARKED_TWICE:
+            return palette.marked_twice;
+        case MazeCell.JUMP_POINT:
+            return palette.jump_point;
+        case MazeCell.SCANNED:
+            return palette.scanned;
+        case MazeCell.GRASS:
+            return palette.grass;
+        case MazeCell.MUD:
+            return palette.mud;
+        case MazeCell.WATER:
+            return palette.water;
+        case MazeCell.CONVEYOR_UP:
+        case MazeCell.CONVEYOR_RIGHT:
+        case MazeCell.CONVEYOR_DOWN:
+        case MazeCell.CONVEYOR_LEFT:
+            return palette.conveyor;
+        case MazeCell.STAIRS:
+            return palette.stairs;
+        default:
+            return palette.floor;
+    }
+}
+
+/**
+ * The color of the heat map at a heat between 0, the coldest, and 1, the hottest, blending the two nearest heat colors
+ */
+function heat_color(palette: Palette, heat: number) {
+    const position = Math.min(Math.max(heat, 0), 1) * (palette.heat.length - 1);
+    const index = Math.min(Math.floor(position), palette.heat.length - 2);
+    const fraction = position - index;
+    const channels = [1, 3, 5].map((offset) => {
+        const from = parseInt(palette.heat[index].slice(offset, offset + 2), 16);
+        const to = parseInt(palette.heat[index + 1].slice(offset, offset + 2), 16);
+        return Math.round(from + (to - from) * fraction);
+    });
+    return "rgb(" + channels.join(", ") + ")";
+}
@@ -0,0 +1,140 @@
+import { ImportResult, maze_from_ascii } from "./maze_file";
+export { PresetMaze, preset_mazes, preset_maze };
+
+/**
+ * A maze that comes with the page, made to show off how the algorithms differ
+ */
+type PresetMaze = {
+    /** Identifies the preset in the preset select */
+    id: string;
+    name: string;
+    /** What the maze shows about the algorithms */
+    description: string;
+    /** The maze as the lines of an ascii file, S being start and E the end */
+    rows: string[];
+};
+
+/**
+ * Every preset in the order they are listed
+ */
+const preset_mazes: PresetMaze[] = [
+    {
+        id: "greedy trap",
+        name: "Greedy trap",
+        description:
+            "The corridor heading straight for the end winds back and forth before it gets there, so greedy best first search takes a path more than twice as long as the one breadth first search and A* find by first walking away from the end.",
+        rows: [
+            "###############################",
+            "#.............................#",
+            "#.###########################.#",
+            "#.###########################.#",
+            "#.###########################.#",
+            "#S..........................#E#",
+            "###########################.#.#",
+            "###.........................#.#",
+            "###.#########################.#",
+            "###...........................#",
+            "###############################",
+        ],
+    },
+    {
+        id: "u trap",
+        name: "U-shaped trap",
+        description:
+            "Start sits in a cup that opens away from the end, so every search guided by the distance to the end fills the cup before it finds the way around.",
+        rows: [
+            "...............................",
+            "...............................",
+            "........###########............",
+            "..................#............",
+            "..................#............",
+            "..................#............",
+            "..................#............",
+            ".............S....#.........E..",
+            "..................#............",
+            "..................#............",
+            "..................#............",
+            "..................#............",
+            "........###########............",
+            "...............................",
+            "...............................",
+        ],
+    },
+    {
+        id: "open field",
+        name: "Open field",
+        description:
+            "A field without walls, where breadth first search spreads out in every direction, A* expands fewer cells and jump point search only a couple of jump points.",
+        rows: [
+            "........................................",
+            "........................................",
+            "........................................",
+            "...S....................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "........................................",
+            "....................................E...",
+            "........................................",
+            "........................................",
+            "........................................",
+        ],
+    },
+    {
+        id: "long corridors",
+        name: "Long corridors",
+        description:
+            "A single corridor winding across the whole maze, which every algorithm has to follow to its end and where no heuristic helps.",
+        rows: [
+            "S..............................",
+            "##############################.",
+            "...............................",
+            ".##############################",
+            "...............................",
+            "##############################.",
+            "...............................",
+            ".##############################",
+            "...............................",
+            "##############################.",
+            "...............................",
+            ".##############################",
+            "...............................",
+            "##############################.",
+            "E..............................",
+        ],
+    },
+    {
+        id: "swamp detour",
+        name: "Swamp detour",
+        description:
+            "Water and mud lie between start and end, so breadth first search wades straight through while uniform cost search and A* walk around them.",
+        rows: [
+            "..........wwwwwwwwwww..........",
+            "..........wwwwwwwwwww..........",
+            "..........wwwwwwwwwww..........",
+            "..........wwwwwwwwwww..........",
+            "..........wwwwwwwwwww..........",
+            ".S........wwwwwwwwwww........E.",
+            "..........wwwwwwwwwww..........",
+            "..........wwwwwwwwwww..........",
+            "..........wwwwwwwwwww..........",
+            "..........mmmmmmmmmmm..........",
+            "...............................",
+        ],
+    },
+];
+
+/**
+ * The maze of a preset, read like an imported ascii file
+ */
+function preset_maze(preset: PresetMaze): ImportResult {
+    return maze_from_ascii(preset.rows.join("\n"));
+}
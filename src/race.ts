@@ -0,0 +1,71 @@
+import { Coordinate, Maze } from "./maze";
+import { MazeSolvingAlgorithm, apply_solver_event } from "./solving_algorithm";
+import { RunStatistics, cheapest_path_cost } from "./statistics";
+export { Race, RaceEntry, RaceContestant };
+
+/**
+ * An algorithm that can be entered into a race, created once the race knows which maze copy it gets
+ */
+type RaceContestant = {
+    name: string;
+    create: (maze: Maze, start: Coordinate, end: Coordinate) => MazeSolvingAlgorithm;
+};
+type RaceEntry = {
+    name: string;
+    alg: MazeSolvingAlgorithm;
+    maze: Maze;
+    statistics: RunStatistics;
+    /** Number of lockstep steps the algorithm needed to finish, undefined while it is still running */
+    finished_at: number | undefined;
+};
+
+/**
+ * Runs several algorithms in lockstep, each on its own copy of the same maze
+ */
+class Race {
+    readonly entries: RaceEntry[];
+    steps = 0;
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate, contestants: RaceContestant[]) {
+        const optimal_cost = cheapest_path_cost(maze, start, end);
+        this.entries = contestants.map((contestant) => {
+            const copy = maze.clone();
+            copy.reload();
+            return {
+                name: contestant.name,
+                alg: contestant.create(copy, start, end),
+                maze: copy,
+                statistics: new RunStatistics(optimal_cost),
+                finished_at: undefined,
+            };
+        });
+    }
+
+    public is_finished() {
+        return this.entries.every((entry) => entry.finished_at !== undefined);
+    }
+
+    /**
+     * Advances every algorithm that has not finished yet by 1 step, drawing its changes onto its own maze
+     */
+    public step() {
+        if (this.is_finished()) return;
+        this.steps++;
+        for (const entry of this.entries) {
+            if (entry.finished_at !== undefined) continue;
+            for (const event of entry.statistics.step(entry.alg)) apply_solver_event(entry.maze, event);
+            if (entry.statistics.finished) entry.finished_at = this.steps;
+        }
+    }
+
+    /**
+     * Entries that found a path come first, ordered by nodes expanded and then by path length
+     */
+    public ranking() {
+        return [...this.entries].sort(({ statistics: statistics1 }, { statistics: statistics2 }) => {
+            if ((statistics1.path === undefined) !== (statistics2.path === undefined)) return statistics1.path === undefined ? 1 : -1;
+            if (statistics1.nodes_expanded !== statistics2.nodes_expanded) return statistics1.nodes_expanded - statistics2.nodes_expanded;
+            return (statistics1.path_length() ?? 0) - (statistics2.path_length() ?? 0);
+        });
+    }
+}
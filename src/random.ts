@@ -0,0 +1,23 @@
+export { seeded_random, random_seed };
+
+/**
+ * A pseudo random number generator (mulberry32) that returns the same sequence of numbers in [0, 1) for the same seed,
+ * so that anything generated from it can be reproduced from the seed alone
+ */
+function seeded_random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A new seed for when the user did not choose one
+ */
+function random_seed() {
+    return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,374 @@
+import { Coordinate, Maze, MazeCell, coordinate_equals, conveyor_direction } from "./maze";
+import { SolverEventType } from "./solving_algorithm";
+import { Timeline } from "./timeline";
+import { AgentPose } from "./maze_agent";
+import { Palette, cell_color } from "./palette";
+export { PathCell, RunReplay, path_cells, stays_visible_under_path, arrow_points, frame_count, run_to_svg };
+
+type PathCell = {
+    coord: Coordinate;
+    /** Leg of the path the cell is on, which decides its color */
+    leg: number;
+    /** The cell before it on the path if the path took a portal or stairs to get to it, a line being drawn between the two */
+    jump_from: Coordinate | undefined;
+};
+
+/**
+ * The cells of a found path after its start, colored by the leg of the path they are on.
+ * The end is only part of it so that a portal or stairs leading right onto the end are drawn, like every other marker it keeps its color.
+ */
+function path_cells(maze: Maze, path: Coordinate[], leg_ends: number[] | undefined): PathCell[] {
+    return path.slice(1).map((coord, index) => {
+        const leg = leg_ends === undefined ? 0 : leg_ends.filter((leg_end) => leg_end <= index).length;
+        const previous = path[index];
+        const jumped = maze.floor_of(previous) !== maze.floor_of(coord) || coordinate_equals(maze.portal_partner(previous), coord);
+        return { coord: coord, leg: leg, jump_from: jumped ? previous : undefined };
+    });
+}
+
+/**
+ * Whether a path leaves a cell as it is, which it does for the end, the meeting point of a bidirectional search, the waypoints and the portals
+ */
+function stays_visible_under_path(maze: Maze, coord: Coordinate) {
+    return (
+        coordinate_equals(maze.end, coord) ||
+        maze.get_cell_type(coord) === MazeCell.MEETING_POINT ||
+        maze.waypoint_index(coord) !== -1 ||
+        maze.portal_index(coord) !== -1
+    );
+}
+
+/**
+ * Corners of a triangle in a circle of the given radius around a point, pointing in a direction such as that of an agent or a conveyor
+ */
+function arrow_points(center: Coordinate, direction: Coordinate, radius: number): Coordinate[] {
+    const { x: dx, y: dy } = direction;
+    return [
+        { x: center.x + dx * radius, y: center.y + dy * radius },
+        { x: center.x - dx * radius - dy * radius, y: center.y - dy * radius + dx * radius },
+        { x: center.x - dx * radius + dy * radius, y: center.y - dy * radius - dx * radius },
+    ];
+}
+
+/**
+ * Number of frames a run of so many steps is drawn in, the first frame showing the maze before the first step and the last one the final state
+ */
+function frame_count(steps: number, steps_per_frame: number) {
+    return Math.ceil(steps / steps_per_frame) + 1;
+}
+
+/**
+ * Replays a recorded search on a copy of its maze, starting from before its first step, without moving the timeline it was recorded in.
+ * The copy has the terrain the maze has now, so a run the maze was edited during is replayed on the edited maze.
+ */
+class RunReplay {
+    readonly maze: Maze;
+    private readonly timeline: Timeline;
+    /** Whether the search is run by an agent, which is drawn where it stands */
+    private readonly shows_agent: boolean;
+    /** Number of steps recorded when the replay was made, which are all it replays */
+    readonly length: number;
+    /** Number of steps replayed so far */
+    position = 0;
+    /** The most recently found path, until a search repairing its path starts replanning */
+    path: PathCell[] = [];
+    /** Where the agent stands, undefined if the search is not run by an agent */
+    agent: AgentPose | undefined;
+
+    /**
+     * agent_start is where the agent of the search starts, undefined if the search is not run by an agent
+     */
+    constructor(timeline: Timeline, agent_start: Coordinate | undefined) {
+        this.timeline = timeline;
+        this.shows_agent = agent_start !== undefined;
+        this.agent = agent_start === undefined ? undefined : { coord: agent_start, direction: { x: 0, y: 0 } };
+        this.length = timeline.steps.length;
+        this.maze = timeline.maze.clone();
+        this.maze.reload();
+    }
+
+    public is_done() {
+        return this.position >= this.length;
+    }
+
+    /**
+     * Replays up to so many more steps
+     */
+    public advance(steps: number) {
+        const target = Math.min(this.position + steps, this.length);
+        for (; this.position < target; this.position++) {
+            const step = this.timeline.steps[this.position];
+            for (const change of step.changes) this.maze.set_search_state(change.coord, change.after);
+            for (const event of step.events) {
+                if (event.type === SolverEventType.PATH_FOUND) this.path = path_cells(this.maze, event.path, event.leg_ends);
+                else if (event.type === SolverEventType.REPLANNING_STARTED) this.path = [];
+                else if (this.shows_agent && event.type === SolverEventType.AGENT_MOVED)
+                    this.agent = { coord: event.coord, direction: event.direction };
+                // An agent searching a leg between waypoints has not moved yet when the leg starts
+                else if (this.shows_agent && event.type === SolverEventType.LEG_STARTED)
+                    this.agent = { coord: event.from, direction: { x: 0, y: 0 } };
+            }
+        }
+    }
+}
+
+function svg_number(value: number) {
+    return (Math.round(value * 100) / 100).toString();
+}
+
+function svg_points(points: Coordinate[]) {
+    return points.map((point) => svg_number(point.x) + "," + svg_number(point.y)).join(" ");
+}
+
+function svg_escape(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function svg_rect(x: number, y: number, width: number, height: number, fill: string) {
+    return (
+        '<rect x="' +
+        svg_number(x) +
+        '" y="' +
+        svg_number(y) +
+        '" width="' +
+        svg_number(width) +
+        '" height="' +
+        svg_number(height) +
+        '" fill="' +
+        svg_escape(fill) +
+        '"/>'
+    );
+}
+
+/**
+ * Builds the layers of a drawing out of svg elements, in the same places the canvas draws them
+ */
+class SvgLayers {
+    private readonly maze: Maze;
+    private readonly cell_width: number;
+    private readonly cell_height: number;
+    /** Whether the cells are cell_width by cell_height rectangles, which lets a row of cells of one color be a single rectangle */
+    private readonly rectangular: boolean;
+    private readonly layers: string[] = [];
+
+    constructor(maze: Maze, cell_width: number, cell_height: number) {
+        this.maze = maze;
+        this.cell_width = cell_width;
+        this.cell_height = cell_height;
+        this.rectangular = maze.topology.cell_shape({ x: 0, y: 0 }, cell_width, cell_height) === undefined;
+    }
+
+    public add_layer(id: string, elements: string[]) {
+        this.layers.push('<g id="' + id + '">\n' + elements.map((element) => "  " + element + "\n").join("") + "</g>");
+    }
+
+    /**
+     * The cells that have a color, every cell with the same color next to it in its row being merged into one rectangle where cells are rectangles
+     */
+    public cells(color: (coord: Coordinate) => string | undefined) {
+        const elements: string[] = [];
+        for (let j = 0; j < this.maze.height; j++) {
+            for (let i = 0; i < this.maze.width; i++) {
+                const fill = color({ x: i, y: j });
+                if (fill === undefined) continue;
+                let run = 1;
+                while (this.rectangular && i + run < this.maze.width && color({ x: i + run, y: j }) === fill) run++;
+                elements.push(this.cell({ x: i, y: j }, fill, run));
+                i += run - 1;
+            }
+        }
+        return elements;
+    }
+
+    /**
+     * A cell, or a run of so many cells to its right where cells are rectangles
+     */
+    public cell(coord: Coordinate, fill: string, run = 1) {
+        const shape = this.maze.topology.cell_shape(coord, this.cell_width, this.cell_height);
+        if (shape !== undefined) return '<polygon points="' + svg_points(shape) + '" fill="' + svg_escape(fill) + '"/>';
+        const position = this.position(coord);
+        return svg_rect(position.x, position.y, this.cell_width * run, this.cell_height, fill);
+    }
+
+    public position(coord: Coordinate) {
+        return this.maze.topology.cell_position(coord, this.cell_width, this.cell_height);
+    }
+
+    public center(coord: Coordinate) {
+        const position = this.position(coord);
+        return { x: position.x + this.cell_width / 2, y: position.y + this.cell_height / 2 };
+    }
+
+    public label(coord: Coordinate, text: string, fill: string) {
+        const center = this.center(coord);
+        return (
+            '<text x="' +
+            svg_number(center.x) +
+            '" y="' +
+            svg_number(center.y) +
+            '" font-family="sans-serif" font-size="' +
+            Math.floor(this.cell_height * 0.8) +
+            '" text-anchor="middle" dominant-baseline="central" fill="' +
+            svg_escape(fill) +
+            '">' +
+            svg_escape(text) +
+            "</text>"
+        );
+    }
+
+    public arrow(coord: Coordinate, direction: Coordinate, radius: number, fill: string) {
+        if (direction.x === 0 && direction.y === 0) return this.dot(this.center(coord), radius / 2, fill);
+        return (
+            '<polygon points="' + svg_points(arrow_points(this.center(coord), direction, radius)) + '" fill="' + svg_escape(fill) + '"/>'
+        );
+    }
+
+    public dot(center: Coordinate, radius: number, fill: string) {
+        return (
+            '<circle cx="' +
+            svg_number(center.x) +
+            '" cy="' +
+            svg_number(center.y) +
+            '" r="' +
+            svg_number(radius) +
+            '" fill="' +
+            svg_escape(fill) +
+            '"/>'
+        );
+    }
+
+    public document() {
+        const size = this.maze.topology.canvas_size(this.maze, this.cell_width, this.cell_height);
+        return (
+            '<?xml version="1.0" encoding="UTF-8"?>\n' +
+            '<svg xmlns="http://www.w3.org/2000/svg" width="' +
+            size.width +
+            '" height="' +
+            size.height +
+            '" viewBox="0 0 ' +
+            size.width +
+            " " +
+            size.height +
+            '"' +
+            (this.rectangular ? ' shape-rendering="crispEdges"' : "") +
+            ">\n" +
+            this.layers.join("\n") +
+            "\n</svg>\n"
+        );
+    }
+}
+
+/**
+ * The maze, the state of the search on it, the path and the agent as an svg document, each in a layer of its own so that they can be shown,
+ * hidden and restyled separately. The layers are groups with the ids maze, search, markings (the numbers, arrows, steps and floor borders
+ * drawn on top of cells), path and agent, and everything in them sits where the canvas draws it.
+ */
+function run_to_svg(maze: Maze, path: PathCell[], agent: AgentPose | undefined, palette: Palette, cell_width: number, cell_height: number) {
+    const svg = new SvgLayers(maze, cell_width, cell_height);
+    const size = Math.min(cell_width, cell_height);
+
+    const is_marker = (coord: Coordinate) =>
+        coordinate_equals(maze.start, coord) ||
+        coordinate_equals(maze.end, coord) ||
+        maze.waypoint_index(coord) !== -1 ||
+        maze.portal_index(coord) !== -1;
+    svg.add_layer(
+        "maze",
+        svg.cells((coord) => {
+            if (coordinate_equals(maze.start, coord)) return palette.start;
+            if (coordinate_equals(maze.end, coord)) return palette.end;
+            if (maze.waypoint_index(coord) !== -1) return palette.waypoint;
+            if (maze.portal_index(coord) !== -1) return palette.portal;
+            return cell_color(palette, maze.get_terrain(coord));
+        }),
+    );
+
+    // Markers keep their color whatever the search did on them
+    const search = svg.cells((coord) => {
+        const search_state = maze.get_search_state(coord);
+        return search_state === undefined || is_marker(coord) ? undefined : cell_color(palette, search_state);
+    });
+    for (let i = 0; i < maze.width; i++) {
+        for (let j = 0; j < maze.height; j++) {
+            const marks = [MazeCell.MARKED_ONCE, MazeCell.MARKED_TWICE].indexOf(maze.get_cell_type({ x: i, y: j })) + 1;
+            const position = svg.position({ x: i, y: j });
+            for (let mark = 1; mark <= marks; mark++)
+                search.push(
+                    svg.dot(
+                        { x: position.x + (cell_width * mark) / (marks + 1), y: position.y + cell_height / 2 },
+                        size / 8,
+                        palette.marks,
+                    ),
+                );
+        }
+    }
+    svg.add_layer("search", search);
+
+    const markings: string[] = [];
+    maze.waypoints.forEach((waypoint, index) => markings.push(svg.label(waypoint, (index + 1).toString(), palette.label)));
+    maze.portals.forEach((portal, index) => markings.push(svg.label(portal, (Math.floor(index / 2) + 1).toString(), palette.label)));
+    const thickness = Math.max(1, cell_height / 10);
+    for (let i = 0; i < maze.width; i++) {
+        for (let j = 0; j < maze.height; j++) {
+            const coord = { x: i, y: j };
+            const terrain = maze.get_terrain(coord);
+            const direction = conveyor_direction(terrain);
+            if (direction !== undefined) markings.push(svg.arrow(coord, direction, size * 0.3, palette.arrow));
+            if (terrain !== MazeCell.STAIRS) continue;
+            const position = svg.position(coord);
+            for (let step = 1; step <= 3; step++)
+                markings.push(
+                    svg_rect(
+                        position.x + cell_width * 0.2,
+                        position.y + (cell_height * step) / 4 - thickness / 2,
+                        cell_width * 0.6,
+                        thickness,
+                        palette.arrow,
+                    ),
+                );
+        }
+    }
+    const border_thickness = Math.max(1, cell_width / 5);
+    const height = maze.topology.canvas_size(maze, cell_width, cell_height).height;
+    for (let floor = 1; floor < maze.floors; floor++) {
+        const border = svg.position({ x: floor * maze.floor_width, y: 0 }).x;
+        markings.push(svg_rect(border - border_thickness / 2, 0, border_thickness, height, palette.arrow));
+    }
+    svg.add_layer("markings", markings);
+
+    const path_elements: string[] = [];
+    for (const cell of path) {
+        if (!stays_visible_under_path(maze, cell.coord))
+            path_elements.push(svg.cell(cell.coord, palette.legs[cell.leg % palette.legs.length]));
+    }
+    for (const cell of path) {
+        if (cell.jump_from === undefined) continue;
+        const color = svg_escape(palette.legs[cell.leg % palette.legs.length]);
+        const from = svg.center(cell.jump_from);
+        const to = svg.center(cell.coord);
+        path_elements.push(
+            '<line x1="' +
+                svg_number(from.x) +
+                '" y1="' +
+                svg_number(from.y) +
+                '" x2="' +
+                svg_number(to.x) +
+                '" y2="' +
+                svg_number(to.y) +
+                '" stroke="' +
+                color +
+                '" stroke-width="' +
+                svg_number(Math.max(1, size / 4)) +
+                '" stroke-dasharray="' +
+                svg_number(size / 2) +
+                " " +
+                svg_number(size / 4) +
+                '"/>',
+        );
+        path_elements.push(svg.dot(to, size / 4, palette.legs[cell.leg % palette.legs.length]));
+    }
+    svg.add_layer("path", path_elements);
+
+    svg.add_layer("agent", agent === undefined ? [] : [svg.arrow(agent.coord, agent.direction, size * 0.4, palette.agent)]);
+    return svg.document();
+}
@@ -0,0 +1,533 @@
+import { Coordinate, Maze, coordinate_equals } from "./maze";
+import { MazeSolvingAlgorithm, SolverEvent, SolverEventType } from "./solving_algorithm";
+export {
+    CustomSolver,
+    SandboxMazeView,
+    SandboxSearch,
+    SandboxStep,
+    SandboxWorker,
+    SandboxAction,
+    SandboxRequest,
+    SandboxReply,
+    SerializedMaze,
+    create_sandbox_worker,
+    example_step_function,
+    run_sandbox_worker,
+    serialize_maze,
+};
+
+/**
+ * What a step function sees of the maze, which it cannot change. Every coordinate it is given is a copy of its own
+ */
+type SandboxMazeView = {
+    readonly width: number;
+    readonly height: number;
+    readonly start: Coordinate;
+    readonly end: Coordinate;
+    is_in_bounds(coord: Coordinate): boolean;
+    is_passable(coord: Coordinate): boolean;
+    neighbors(coord: Coordinate): Coordinate[];
+    /** Cost of moving between two neighboring cells */
+    move_cost(from: Coordinate, to: Coordinate): number;
+    /** Straight line distance from a cell to the end, which no path between them can be cheaper than */
+    distance_to_end(coord: Coordinate): number;
+};
+/**
+ * How a step function keeps its state and reports what it does, every report being drawn like the steps of the built-in algorithms
+ */
+type SandboxSearch = {
+    /** Kept from one step to the next for the step function to remember anything it likes in */
+    readonly memory: { [key: string]: unknown };
+    /** Whether the cell has been enqueued already, start always having been */
+    is_discovered(coord: Coordinate): boolean;
+    /** Adds a passable cell that was not discovered yet to the frontier, returning whether it did */
+    enqueue(coord: Coordinate, parent?: Coordinate): boolean;
+    expand(coord: Coordinate): void;
+    /** Ends the search with the given path, or with the path back from the end through the parents it was enqueued with */
+    found(path?: Coordinate[]): void;
+    no_path(): void;
+};
+/**
+ * A function the user wrote that is called for every step of the search, such as example_step_function
+ */
+type SandboxStep = (maze: SandboxMazeView, search: SandboxSearch) => void;
+
+/**
+ * Everything a step function can learn about the maze, copied out of it so that the worker running the function never sees the maze itself.
+ * Cell x, y is number x * height + y, and the neighbors of cell i are neighbor_cells[neighbor_offsets[i]] up to neighbor_offsets[i + 1].
+ */
+type SerializedMaze = {
+    width: number;
+    height: number;
+    start: Coordinate;
+    end: Coordinate;
+    /** 1 for passable cells, 0 for walls */
+    passable: Uint8Array;
+    neighbor_offsets: Uint32Array;
+    neighbor_cells: Uint32Array;
+    /** Cost of the move to each neighbor, in the same order as neighbor_cells */
+    neighbor_costs: Float64Array;
+    distance_to_end: Float64Array;
+};
+/**
+ * Something a step function reported through search during a step, which the solver checks again before drawing it.
+ * The worker cannot share the enums of the page, so these and the messages are told apart by strings.
+ */
+type SandboxAction =
+    | { type: "enqueue"; coord: Coordinate; parent: Coordinate | undefined }
+    | { type: "expand"; coord: Coordinate }
+    | { type: "found"; path: Coordinate[] }
+    | { type: "no_path" };
+/**
+ * Messages to the worker: the maze and the source of the step function once, then requests to take a number of steps
+ */
+type SandboxRequest = { type: "start"; source: string; maze: SerializedMaze } | { type: "steps"; count: number };
+/**
+ * Messages from the worker, one for every step taken with what the step function reported, error being set if the step went wrong
+ */
+type SandboxReply = { type: "step"; actions: SandboxAction[]; error: string | undefined };
+/**
+ * The part of a Web Worker the solver uses, so that anything else running run_sandbox_worker can stand in for one
+ */
+type SandboxWorker = {
+    postMessage(message: SandboxRequest): void;
+    onmessage: ((event: MessageEvent<SandboxReply>) => void) | null;
+    terminate(): void;
+};
+
+/**
+ * Breadth first search written as a step function, what the sandbox editor starts with
+ */
+const example_step_function = `function step(maze, search) {
+    if (search.memory.queue === undefined) search.memory.queue = [maze.start];
+    const cell = search.memory.queue.shift();
+    if (cell === undefined) return search.no_path();
+    search.expand(cell);
+    for (const neighbor of maze.neighbors(cell)) {
+        if (!search.enqueue(neighbor, cell)) continue;
+        if (neighbor.x === maze.end.x && neighbor.y === maze.end.y) return search.found();
+        search.memory.queue.push(neighbor);
+    }
+}`;
+
+function error_message(error: unknown) {
+    return error instanceof Error ? error.name + ": " + error.message : String(error);
+}
+
+/**
+ * Whether a message from the worker is a reply it could have sent, its actions being checked once they are applied
+ */
+function is_sandbox_reply(message: unknown): message is SandboxReply {
+    if (typeof message !== "object" || message === null) return false;
+    const reply = message as { [key: string]: unknown };
+    return reply.type === "step" && Array.isArray(reply.actions) && (reply.error === undefined || typeof reply.error === "string");
+}
+
+/**
+ * Copies what a step function may know about the maze into arrays that can be sent to a worker
+ */
+function serialize_maze(maze: Maze, start: Coordinate, end: Coordinate): SerializedMaze {
+    const cell_count = maze.width * maze.height;
+    const passable = new Uint8Array(cell_count);
+    const neighbor_offsets = new Uint32Array(cell_count + 1);
+    const neighbor_cells: number[] = [];
+    const neighbor_costs: number[] = [];
+    const distance_to_end = new Float64Array(cell_count);
+    for (let x = 0; x < maze.width; x++) {
+        for (let y = 0; y < maze.height; y++) {
+            const coord = { x: x, y: y };
+            const cell = x * maze.height + y;
+            passable[cell] = maze.is_passable(coord) ? 1 : 0;
+            neighbor_offsets[cell] = neighbor_cells.length;
+            for (const neighbor of maze.get_neighboring_coordinates(coord)) {
+                neighbor_cells.push(neighbor.x * maze.height + neighbor.y);
+                neighbor_costs.push(maze.move_cost(coord, neighbor));
+            }
+            distance_to_end[cell] = maze.distance(coord, end);
+        }
+    }
+    neighbor_offsets[cell_count] = neighbor_cells.length;
+    return {
+        width: maze.width,
+        height: maze.height,
+        start: { x: start.x, y: start.y },
+        end: { x: end.x, y: end.y },
+        passable: passable,
+        neighbor_offsets: neighbor_offsets,
+        neighbor_cells: Uint32Array.from(neighbor_cells),
+        neighbor_costs: Float64Array.from(neighbor_costs),
+        distance_to_end: distance_to_end,
+    };
+}
+
+/**
+ * What runs inside the worker: it compiles the step function once the maze arrives and takes the steps it is asked for,
+ * keeping the search state the step function asks about and sending back what every step reported.
+ * It is turned into the source of the worker as it is, so it cannot use anything from outside its own body.
+ */
+function run_sandbox_worker(scope: {
+    onmessage: ((event: MessageEvent<SandboxRequest>) => void) | null;
+    postMessage(message: SandboxReply): void;
+}) {
+    const post = scope.postMessage.bind(scope);
+    // The step function has no business with the network, the storage of the origin of the page or workers of its own,
+    // and it reports to the page only through search, so it cannot send replies of its own either
+    for (const name of [
+        "postMessage",
+        "fetch",
+        "XMLHttpRequest",
+        "WebSocket",
+        "WebTransport",
+        "EventSource",
+        "importScripts",
+        "indexedDB",
+        "caches",
+        "Worker",
+        "SharedWorker",
+    ]) {
+        for (let owner: object | null = scope; owner !== null; owner = Object.getPrototypeOf(owner)) {
+            if (Object.prototype.hasOwnProperty.call(owner, name)) delete (owner as { [name: string]: unknown })[name];
+        }
+        Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+    }
+    let maze: SerializedMaze | undefined = undefined;
+    let step: unknown = undefined;
+    let compile_error: string | undefined = undefined;
+    let view: SandboxMazeView | undefined = undefined;
+    let search: SandboxSearch | undefined = undefined;
+    let actions: SandboxAction[] = [];
+    let ended = false;
+
+    const message_of = (error: unknown) => (error instanceof Error ? error.name + ": " + error.message : String(error));
+    const cell_of = (coord: Coordinate, in_bounds: boolean) => {
+        if (maze === undefined) throw new Error("The maze has not arrived yet");
+        if (typeof coord !== "object" || coord === null || !Number.isInteger(coord.x) || !Number.isInteger(coord.y))
+            throw new TypeError("Expected a coordinate such as { x: 0, y: 0 } but got " + JSON.stringify(coord));
+        if (coord.x >= 0 && coord.x < maze.width && coord.y >= 0 && coord.y < maze.height) return coord.x * maze.height + coord.y;
+        if (in_bounds) throw new RangeError("(" + coord.x + ", " + coord.y + ") is outside the maze");
+        return -1;
+    };
+    const coordinate_of = (cell: number, height: number) => ({ x: Math.floor(cell / height), y: cell % height });
+    const check_running = () => {
+        if (ended) throw new Error("The search already ended");
+    };
+
+    const start = (source: string, arrived: SerializedMaze) => {
+        const current = arrived;
+        maze = current;
+        const discovered = new Uint8Array(current.width * current.height);
+        const parents = new Int32Array(current.width * current.height).fill(-1);
+        discovered[current.start.x * current.height + current.start.y] = 1;
+        view = Object.freeze({
+            width: current.width,
+            height: current.height,
+            start: Object.freeze({ x: current.start.x, y: current.start.y }),
+            end: Object.freeze({ x: current.end.x, y: current.end.y }),
+            is_in_bounds: (coord: Coordinate) => cell_of(coord, false) !== -1,
+            is_passable: (coord: Coordinate) => {
+                const cell = cell_of(coord, false);
+                return cell !== -1 && current.passable[cell] === 1;
+            },
+            neighbors: (coord: Coordinate) => {
+                const cell = cell_of(coord, true);
+                const neighbors: Coordinate[] = [];
+                for (let i = current.neighbor_offsets[cell]; i < current.neighbor_offsets[cell + 1]; i++)
+                    neighbors.push(coordinate_of(current.neighbor_cells[i], current.height));
+                return neighbors;
+            },
+            move_cost: (from: Coordinate, to: Coordinate) => {
+                const from_cell = cell_of(from, true);
+                const to_cell = cell_of(to, true);
+                for (let i = current.neighbor_offsets[from_cell]; i < current.neighbor_offsets[from_cell + 1]; i++)
+                    if (current.neighbor_cells[i] === to_cell) return current.neighbor_costs[i];
+                throw new RangeError("(" + from.x + ", " + from.y + ") and (" + to.x + ", " + to.y + ") are not neighbors");
+            },
+            distance_to_end: (coord: Coordinate) => current.distance_to_end[cell_of(coord, true)],
+        });
+        search = Object.freeze({
+            memory: {},
+            is_discovered: (coord: Coordinate) => discovered[cell_of(coord, true)] === 1,
+            enqueue: (coord: Coordinate, parent?: Coordinate) => {
+                check_running();
+                const cell = cell_of(coord, true);
+                const parent_cell = parent === undefined ? -1 : cell_of(parent, true);
+                if (discovered[cell] === 1 || current.passable[cell] === 0) return false;
+                discovered[cell] = 1;
+                parents[cell] = parent_cell;
+                actions.push({
+                    type: "enqueue",
+                    coord: coordinate_of(cell, current.height),
+                    parent: parent_cell === -1 ? undefined : coordinate_of(parent_cell, current.height),
+                });
+                return true;
+            },
+            expand: (coord: Coordinate) => {
+                check_running();
+                actions.push({ type: "expand", coord: coordinate_of(cell_of(coord, true), current.height) });
+            },
+            found: (path?: Coordinate[]) => {
+                check_running();
+                let cells: number[] = [];
+                if (path === undefined) {
+                    const end_cell = current.end.x * current.height + current.end.y;
+                    if (discovered[end_cell] === 0) throw new Error("found() needs a path unless the end was enqueued");
+                    for (let cell = end_cell; cell !== -1 && cells.length <= discovered.length; cell = parents[cell]) cells.push(cell);
+                    cells.reverse();
+                } else {
+                    if (!Array.isArray(path)) throw new TypeError("The path has to be an array of coordinates");
+                    cells = path.map((coord) => cell_of(coord, true));
+                }
+                actions.push({ type: "found", path: cells.map((cell) => coordinate_of(cell, current.height)) });
+                ended = true;
+            },
+            no_path: () => {
+                check_running();
+                actions.push({ type: "no_path" });
+                ended = true;
+            },
+        });
+        try {
+            step = new Function('"use strict";\nreturn (' + source + "\n);")();
+        } catch (error) {
+            compile_error = "The code does not compile: " + message_of(error);
+            return;
+        }
+        if (typeof step !== "function") compile_error = "The code has to be a single function, such as function step(maze, search) { ... }";
+    };
+
+    const take_step = () => {
+        actions = [];
+        let error = compile_error;
+        if (error === undefined && typeof step === "function") {
+            try {
+                step.call(undefined, view, search);
+            } catch (thrown) {
+                error = message_of(thrown);
+            }
+        }
+        if (error !== undefined || actions.length === 0) ended = true;
+        post({ type: "step", actions: actions, error: error });
+    };
+
+    scope.onmessage = (event) => {
+        const request = event.data;
+        if (request.type === "start") start(request.source, request.maze);
+        else for (let i = 0; i < request.count && !ended; i++) take_step();
+    };
+}
+
+/** Url of the worker script, made from run_sandbox_worker the first time a worker is needed */
+let sandbox_worker_url: string | undefined = undefined;
+
+/**
+ * A worker running run_sandbox_worker. Its script is a blob rather than a file of its own, as pages opened from the disk may not load workers from files
+ */
+function create_sandbox_worker(): SandboxWorker {
+    if (sandbox_worker_url === undefined) {
+        const source = "(" + run_sandbox_worker.toString() + ")(self);\n";
+        sandbox_worker_url = URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+    }
+    return new Worker(sandbox_worker_url);
+}
+
+/**
+ * Runs a step function the user wrote as a solver, in a worker so that it can neither reach the page nor freeze it.
+ * The worker takes steps ahead of the solver, which hands them out one at a time once they arrived and takes no step while it waits for them.
+ * Anything the step function gets wrong, from reporting a cell outside the maze to throwing or taking longer than step_timeout
+ * for a single step, ends the search without a path and is reported through report_error rather than breaking the page.
+ */
+class CustomSolver extends MazeSolvingAlgorithm {
+    private readonly report_error: (message: string) => void;
+    private worker: SandboxWorker | undefined = undefined;
+    /** Steps the worker took that the solver has not handed out yet */
+    private readonly replies: SandboxReply[] = [];
+    /** Steps asked of the worker that it has not sent back yet */
+    private requested = 0;
+    private timeout_code: ReturnType<typeof setTimeout> | undefined = undefined;
+    /** Why the search has to end, undefined unless something went wrong outside of a step */
+    private failure: string | undefined = undefined;
+    private readonly in_frontier: boolean[][] = [];
+    private frontier_count = 1;
+    private steps_taken = 0;
+    /** Most steps taken before the step function is assumed to never end the search */
+    readonly step_limit: number;
+    /** Milliseconds a single step may take before the worker is stopped */
+    readonly step_timeout: number;
+    /** Steps the worker is asked to take ahead of the solver */
+    readonly steps_ahead = 256;
+
+    constructor(
+        maze: Maze,
+        start: Coordinate,
+        end: Coordinate,
+        source: string,
+        create_worker: () => SandboxWorker,
+        report_error: (message: string) => void,
+        step_timeout = 1000,
+    ) {
+        super(maze, start, end);
+        this.report_error = report_error;
+        this.step_limit = 100 * maze.width * maze.height;
+        this.step_timeout = step_timeout;
+        for (let i = 0; i < maze.width; i++) this.in_frontier.push(new Array<boolean>(maze.height).fill(false));
+        this.in_frontier[start.x][start.y] = true;
+        try {
+            this.worker = create_worker();
+        } catch (error) {
+            this.failure = "The step function cannot run without a worker, which the browser did not start: " + error_message(error);
+            return;
+        }
+        this.worker.onmessage = (event) => this.receive(event.data as unknown);
+        this.worker.postMessage({ type: "start", source: source, maze: serialize_maze(maze, start, end) });
+    }
+
+    public frontier_size() {
+        return this.frontier_count;
+    }
+
+    /**
+     * Stops the worker, for when the search is abandoned before it ended
+     */
+    public stop() {
+        clearTimeout(this.timeout_code);
+        this.worker?.terminate();
+        this.worker = undefined;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+        const reply = this.replies.shift();
+        if (reply === undefined) {
+            // Steps that arrived before the worker was stopped are still handed out
+            if (this.failure !== undefined) return this.fail(this.failure, []);
+            this.request_steps();
+            return [];
+        }
+        if (++this.steps_taken > this.step_limit)
+            return this.fail("The search was stopped after " + this.step_limit + " steps without ending", []);
+
+        const events: SolverEvent[] = [];
+        try {
+            for (const action of reply.actions) events.push(...this.apply(action));
+        } catch (error) {
+            return this.fail(error_message(error), events);
+        }
+        if (reply.error !== undefined) return this.fail(reply.error, events);
+        if (events.length === 0)
+            return this.fail("Every step has to enqueue or expand a cell or end the search, this one did nothing", events);
+        if (this.search_ended) this.stop();
+        else this.request_steps();
+        return events;
+    }
+
+    /**
+     * Asks the worker for more steps once fewer than half of steps_ahead are on their way or waiting to be handed out
+     */
+    private request_steps() {
+        if (this.worker === undefined || this.requested + this.replies.length >= this.steps_ahead / 2) return;
+        const count = this.steps_ahead - this.requested - this.replies.length;
+        this.worker.postMessage({ type: "steps", count: count });
+        if (this.requested === 0) this.restart_timeout();
+        this.requested += count;
+    }
+
+    private receive(reply: unknown) {
+        if (!is_sandbox_reply(reply)) {
+            this.stop();
+            this.failure = "The worker sent a message that is not a step";
+            return;
+        }
+        this.replies.push(reply);
+        this.requested = Math.max(this.requested - 1, 0);
+        // The worker takes no more steps once a step ended the search or went wrong
+        const last =
+            reply.error !== undefined ||
+            reply.actions.length === 0 ||
+            reply.actions.some((action) => action.type === "found" || action.type === "no_path");
+        if (last) this.requested = 0;
+        if (this.requested === 0) clearTimeout(this.timeout_code);
+        else this.restart_timeout();
+    }
+
+    private restart_timeout() {
+        clearTimeout(this.timeout_code);
+        this.timeout_code = setTimeout(() => {
+            this.stop();
+            this.failure = "A step took longer than " + this.step_timeout + " ms, so the step function was stopped";
+        }, this.step_timeout);
+    }
+
+    /**
+     * Ends the search without a path, keeping the events the step reported before it went wrong
+     */
+    private fail(message: string, events: SolverEvent[]): SolverEvent[] {
+        this.stop();
+        this.report_error(message);
+        // A path found before the step went wrong is kept
+        if (this.search_ended) return events;
+        return [...events, this.end_not_found()];
+    }
+
+    /**
+     * The events of something the step function reported, checked against the maze since the worker could have been made to send anything
+     */
+    private apply(action: SandboxAction): SolverEvent[] {
+        if (this.search_ended) throw new Error("The search already ended");
+        switch (action.type) {
+            case "enqueue":
+                return this.enqueue(action.coord, action.parent);
+            case "expand":
+                return this.expand(action.coord);
+            case "found":
+                return [this.found(action.path)];
+            case "no_path":
+                return [this.end_not_found()];
+        }
+        throw new Error("The worker sent something that is not a step");
+    }
+
+    /**
+     * A copy of a coordinate the step function reported, which has to be inside the maze
+     */
+    private checked_coordinate(coord: Coordinate): Coordinate {
+        if (typeof coord !== "object" || coord === null || !Number.isInteger(coord.x) || !Number.isInteger(coord.y))
+            throw new TypeError("Expected a coordinate such as { x: 0, y: 0 } but got " + JSON.stringify(coord));
+        const copy = { x: coord.x, y: coord.y };
+        if (!this.maze.is_in_bounds(copy)) throw new RangeError("(" + copy.x + ", " + copy.y + ") is outside the maze");
+        return copy;
+    }
+
+    private enqueue(coord: Coordinate, parent: Coordinate | undefined): SolverEvent[] {
+        const checked = this.checked_coordinate(coord);
+        const checked_parent = parent === undefined ? undefined : this.checked_coordinate(parent);
+        if (!this.discover(checked)) return [];
+        const prev_cell = checked_parent === undefined ? undefined : this.reached[checked_parent.x][checked_parent.y];
+        this.reach({ coord: checked, prev_cell: prev_cell });
+        this.in_frontier[checked.x][checked.y] = true;
+        this.frontier_count++;
+        return [{ type: SolverEventType.CELL_ACTIVE, coord: checked }];
+    }
+
+    private expand(coord: Coordinate): SolverEvent[] {
+        const checked = this.checked_coordinate(coord);
+        if (this.in_frontier[checked.x][checked.y]) {
+            this.in_frontier[checked.x][checked.y] = false;
+            this.frontier_count--;
+        }
+        return [{ type: SolverEventType.CELL_EXPLORED, coord: checked }];
+    }
+
+    private found(path: Coordinate[]): SolverEvent {
+        if (!Array.isArray(path)) throw new TypeError("The path has to be an array of coordinates");
+        const checked = path.map((coord) => this.checked_coordinate(coord));
+        if (!coordinate_equals(checked[0], this.start) || !coordinate_equals(checked[checked.length - 1], this.end))
+            throw new Error("The path has to lead from start to end");
+        checked.forEach((coord, index) => {
+            if (!this.maze.is_passable(coord)) throw new Error("The path goes through the wall at (" + coord.x + ", " + coord.y + ")");
+            const next = checked[index + 1];
+            if (next !== undefined && !this.maze.get_neighboring_coordinates(coord).some((neighbor) => coordinate_equals(neighbor, next)))
+                throw new Error("(" + coord.x + ", " + coord.y + ") and (" + next.x + ", " + next.y + ") on the path are not neighbors");
+        });
+        return this.path_found(checked);
+    }
+}
@@ -0,0 +1,176 @@
+import { Coordinate, Maze, MazeCell } from "./maze";
+export { SharedState, encode_state, decode_state, encode_terrain, decode_terrain };
+
+/**
+ * Everything needed to reproduce a maze and the search run on it.
+ * A generated maze is reproduced from its generator and seed, a maze edited by hand needs its cells as well.
+ */
+type SharedState = {
+    /** Width of a single floor */
+    grid_width: number;
+    grid_height: number;
+    floors: number;
+    generator: string;
+    seed: number;
+    topology: string;
+    corner_cutting: boolean;
+    /** Terrain of every cell as encoded by encode_terrain, only present once the maze has been edited */
+    cells: string | undefined;
+    start: Coordinate | undefined;
+    end: Coordinate | undefined;
+    waypoints: Coordinate[] | undefined;
+    portals: Coordinate[] | undefined;
+    /** Starts and goals of the agents of multi-agent planning in pairs */
+    agents: Coordinate[] | undefined;
+    /** Whether waypoints are visited in their numbered order or in the cheapest order */
+    waypoint_order: string;
+    algorithm: string;
+    speed: number;
+    /** Number of steps the animation takes before drawing them */
+    steps_per_frame: number;
+    depth_limit: number;
+    heuristic: string;
+    astar_weight: number;
+    grass_cost: number;
+    mud_cost: number;
+    water_cost: number;
+};
+
+const terrain_characters = new Map([
+    [MazeCell.FLOOR, "."],
+    [MazeCell.WALL, "x"],
+    [MazeCell.GRASS, "g"],
+    [MazeCell.MUD, "m"],
+    [MazeCell.WATER, "w"],
+    [MazeCell.CONVEYOR_UP, "u"],
+    [MazeCell.CONVEYOR_RIGHT, "r"],
+    [MazeCell.CONVEYOR_DOWN, "d"],
+    [MazeCell.CONVEYOR_LEFT, "l"],
+    [MazeCell.STAIRS, "s"],
+]);
+const character_terrains = new Map([...terrain_characters].map(([cell_type, character]) => [character, cell_type]));
+
+/**
+ * The terrain of every cell row by row, one character per terrain type with runs of the same terrain prefixed by their length
+ */
+function encode_terrain(maze: Maze) {
+    let encoded = "";
+    let run_character = "";
+    let run_length = 0;
+    const end_run = () => {
+        if (run_length > 1) encoded += run_length;
+        encoded += run_character;
+    };
+    for (let j = 0; j < maze.height; j++) {
+        for (let i = 0; i < maze.width; i++) {
+            const character = terrain_characters.get(maze.get_terrain({ x: i, y: j })) ?? ".";
+            if (character === run_character) {
+                run_length++;
+                continue;
+            }
+            if (run_length > 0) end_run();
+            run_character = character;
+            run_length = 1;
+        }
+    }
+    if (run_length > 0) end_run();
+    return encoded;
+}
+
+/**
+ * Sets the terrain of every cell from the output of encode_terrain, leaving the maze untouched and returning false if it does not fit the maze.
+ * Like set_cell_type it skips start and end, which should be placed afterwards.
+ */
+function decode_terrain(maze: Maze, encoded: string) {
+    const cell_types: MazeCell[] = [];
+    for (const run of encoded.match(/\d*\D/g) ?? []) {
+        const cell_type = character_terrains.get(run[run.length - 1]);
+        if (cell_type === undefined) return false;
+        const length = run.length === 1 ? 1 : Number(run.slice(0, -1));
+        for (let k = 0; k < length && cell_types.length <= maze.width * maze.height; k++) cell_types.push(cell_type);
+    }
+    if (cell_types.length !== maze.width * maze.height) return false;
+    cell_types.forEach((cell_type, index) => maze.set_cell_type({ x: index % maze.width, y: Math.floor(index / maze.width) }, cell_type));
+    return true;
+}
+
+function encode_coordinate(coord: Coordinate) {
+    return coord.x + "," + coord.y;
+}
+function decode_coordinate(encoded: string | null): Coordinate | undefined {
+    const match = encoded?.match(/^(\d+),(\d+)$/);
+    if (match === null || match === undefined) return undefined;
+    return { x: Number(match[1]), y: Number(match[2]) };
+}
+
+/**
+ * The state as the hash part of a url, without the leading #
+ */
+function encode_state(state: SharedState) {
+    const parameters = new URLSearchParams({
+        w: state.grid_width.toString(),
+        h: state.grid_height.toString(),
+        floors: state.floors.toString(),
+        gen: state.generator,
+        seed: state.seed.toString(),
+        topology: state.topology,
+        corners: state.corner_cutting ? "1" : "0",
+        order: state.waypoint_order,
+        alg: state.algorithm,
+        speed: state.speed.toString(),
+        steps: state.steps_per_frame.toString(),
+        depth: state.depth_limit.toString(),
+        heuristic: state.heuristic,
+        weight: state.astar_weight.toString(),
+        grass: state.grass_cost.toString(),
+        mud: state.mud_cost.toString(),
+        water: state.water_cost.toString(),
+    });
+    if (state.cells !== undefined) parameters.set("cells", state.cells);
+    if (state.start !== undefined) parameters.set("start", encode_coordinate(state.start));
+    if (state.end !== undefined) parameters.set("end", encode_coordinate(state.end));
+    if (state.waypoints !== undefined && state.waypoints.length > 0)
+        parameters.set("waypoints", state.waypoints.map(encode_coordinate).join(";"));
+    if (state.portals !== undefined && state.portals.length > 0) parameters.set("portals", state.portals.map(encode_coordinate).join(";"));
+    if (state.agents !== undefined && state.agents.length > 0) parameters.set("agents", state.agents.map(encode_coordinate).join(";"));
+    return parameters.toString();
+}
+
+/**
+ * Reads back what encode_state produced, leaving out anything that is missing or malformed so that the current setting is kept for it
+ */
+function decode_state(hash: string): Partial<SharedState> {
+    const parameters = new URLSearchParams(hash.replace(/^#/, ""));
+    const state: Partial<SharedState> = {};
+    const number_parameter = (name: string) => {
+        const value = parameters.get(name);
+        return value === null || value === "" || isNaN(Number(value)) ? undefined : Number(value);
+    };
+    state.grid_width = number_parameter("w");
+    state.grid_height = number_parameter("h");
+    state.floors = number_parameter("floors");
+    state.generator = parameters.get("gen") ?? undefined;
+    state.seed = number_parameter("seed");
+    state.topology = parameters.get("topology") ?? undefined;
+    state.corner_cutting = parameters.has("corners") ? parameters.get("corners") === "1" : undefined;
+    state.cells = parameters.get("cells") ?? undefined;
+    state.start = decode_coordinate(parameters.get("start"));
+    state.end = decode_coordinate(parameters.get("end"));
+    const waypoints = parameters.get("waypoints")?.split(";").map(decode_coordinate);
+    if (waypoints !== undefined && waypoints.every((waypoint) => waypoint !== undefined)) state.waypoints = waypoints as Coordinate[];
+    const portals = parameters.get("portals")?.split(";").map(decode_coordinate);
+    if (portals !== undefined && portals.every((portal) => portal !== undefined)) state.portals = portals as Coordinate[];
+    const agents = parameters.get("agents")?.split(";").map(decode_coordinate);
+    if (agents !== undefined && agents.every((agent) => agent !== undefined)) state.agents = agents as Coordinate[];
+    state.waypoint_order = parameters.get("order") ?? undefined;
+    state.algorithm = parameters.get("alg") ?? undefined;
+    state.speed = number_parameter("speed");
+    state.steps_per_frame = number_parameter("steps");
+    state.depth_limit = number_parameter("depth");
+    state.heuristic = parameters.get("heuristic") ?? undefined;
+    state.astar_weight = number_parameter("weight");
+    state.grass_cost = number_parameter("grass");
+    state.mud_cost = number_parameter("mud");
+    state.water_cost = number_parameter("water");
+    return state;
+}
@@ -1,139 +1,391 @@
-import { Coordinate, canvas_refresh, VisualizationConfig, config, Maze, maze, MazeCell, coordinate_equals, ctx, euclidean_distance, searched_cell, cell_width, cell_height, calculate_delay, coordinate_frequency, normalize_audio } from "./main";
-export { MazeSolvingAlgorithm, GBFS, BFS, ASTAR };
+import { Coordinate, Maze, MazeCell, coordinate_equals } from "./maze";
+import { DiagonalTopology, SquareTopology } from "./topology";
+import { BinaryHeap } from "./binary_heap";
+export {
+    MazeSolvingAlgorithm,
+    GBFS,
+    BFS,
+    DFS,
+    DepthLimitedDFS,
+    IDDFS,
+    UCS,
+    ASTAR,
+    JPS,
+    BidirectionalBFS,
+    BidirectionalASTAR,
+    SolverEvent,
+    SolverEventType,
+    CellInspection,
+    SearchStateTarget,
+    apply_solver_event,
+    searched_cell,
+    searched_cell_path,
+};
+
+enum SolverEventType {
+    CELL_ACTIVE,
+    CELL_EXPLORED,
+    PATH_FOUND,
+    NO_PATH,
+    ITERATION_STARTED,
+    FRONTIERS_MET,
+    AGENT_MOVED,
+    CELL_MARKED,
+    LOOP_DETECTED,
+    REPLANNING_STARTED,
+    LEG_STARTED,
+    CELL_SCANNED,
+}
+/**
+ * A single observable change made by a solver, consumers decide how (and whether) to display it
+ */
+type SolverEvent =
+    | { type: SolverEventType.CELL_ACTIVE; coord: Coordinate; from_end?: boolean }
+    | { type: SolverEventType.CELL_EXPLORED; coord: Coordinate; from_end?: boolean; jump_point?: boolean }
+    | { type: SolverEventType.PATH_FOUND; path: Coordinate[]; cost: number; leg_ends?: number[] }
+    | { type: SolverEventType.NO_PATH }
+    | { type: SolverEventType.ITERATION_STARTED; depth_limit: number }
+    | { type: SolverEventType.FRONTIERS_MET; coord: Coordinate }
+    | { type: SolverEventType.AGENT_MOVED; from: Coordinate; coord: Coordinate; direction: Coordinate }
+    | { type: SolverEventType.CELL_MARKED; coord: Coordinate; marks: number }
+    | { type: SolverEventType.LOOP_DETECTED; coord: Coordinate }
+    | { type: SolverEventType.REPLANNING_STARTED }
+    | { type: SolverEventType.LEG_STARTED; leg: number; from: Coordinate; to: Coordinate }
+    | { type: SolverEventType.CELL_SCANNED; coord: Coordinate };
+
+/**
+ * Anything search state can be drawn onto, such as a Maze or a Timeline recording the changes made to one
+ */
+type SearchStateTarget = {
+    set_cell_type(coordinate: Coordinate, cell_type: MazeCell): void;
+    fade_search_state(): void;
+};
+/**
+ * Draws the cell changes of a solver event onto a maze, events that do not change any cell are ignored
+ */
+function apply_solver_event(target: SearchStateTarget, event: SolverEvent) {
+    switch (event.type) {
+        case SolverEventType.CELL_ACTIVE:
+            target.set_cell_type(event.coord, event.from_end ? MazeCell.ACTIVE_FROM_END : MazeCell.ACTIVE);
+            break;
+        case SolverEventType.CELL_EXPLORED:
+            if (event.from_end) target.set_cell_type(event.coord, MazeCell.EXPLORED_FROM_END);
+            else target.set_cell_type(event.coord, event.jump_point ? MazeCell.JUMP_POINT : MazeCell.EXPLORED);
+            break;
+        case SolverEventType.CELL_SCANNED:
+            target.set_cell_type(event.coord, MazeCell.SCANNED);
+            break;
+        case SolverEventType.FRONTIERS_MET:
+            target.set_cell_type(event.coord, MazeCell.MEETING_POINT);
+            break;
+        case SolverEventType.ITERATION_STARTED:
+        case SolverEventType.REPLANNING_STARTED:
+        case SolverEventType.LEG_STARTED:
+            target.fade_search_state();
+            break;
+        case SolverEventType.AGENT_MOVED:
+            // The cells an agent has left behind are its trail
+            target.set_cell_type(event.from, MazeCell.EXPLORED);
+            target.set_cell_type(event.coord, MazeCell.ACTIVE);
+            break;
+        case SolverEventType.CELL_MARKED:
+            target.set_cell_type(event.coord, event.marks > 1 ? MazeCell.MARKED_TWICE : MazeCell.MARKED_ONCE);
+            break;
+    }
+}
+
+type searched_cell = {
+    coord: Coordinate;
+    prev_cell: searched_cell | undefined;
+};
+/**
+ * What a search knows about a cell it has reached: g is the cost of the way it found there from start,
+ * h its estimate of the cost that remains and f the priority these give the cell in the frontier
+ */
+type CellInspection = {
+    g: number;
+    h: number;
+    f: number;
+    parent: Coordinate | undefined;
+};
+/**
+ * Walks the prev_cell chain back to the beginning, returning the coordinates in the order they were travelled
+ */
+function searched_cell_path(cell: searched_cell) {
+    const path: Coordinate[] = [];
+    for (let current: searched_cell | undefined = cell; current !== undefined; current = current.prev_cell) path.push(current.coord);
+    return path.reverse();
+}
 
 abstract class MazeSolvingAlgorithm {
-    readonly config: VisualizationConfig;
     readonly maze: Maze;
+    readonly start: Coordinate;
+    /** Only moved by searches that can repair their path when the end moves */
+    end: Coordinate;
 
     search_ended: boolean = false;
     final_searched_cell: searched_cell | undefined = undefined;
 
-    interval_code: number | undefined = undefined;
+    /** Cells that have already been put in the search frontier, kept apart from the maze so the maze is never modified */
+    protected readonly discovered: boolean[][] = [];
+    /** The searched_cell each cell was most recently put in the frontier as, for inspecting the cell */
+    protected readonly reached: (searched_cell | undefined)[][] = [];
 
-    constructor(visualization_config: VisualizationConfig, maze: Maze) {
-        this.config = visualization_config;
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
         this.maze = maze;
+        this.start = start;
+        this.end = end;
+        for (let i = 0; i < maze.width; i++) {
+            this.discovered.push(new Array<boolean>(maze.height).fill(false));
+            this.reached.push(new Array<searched_cell | undefined>(maze.height).fill(undefined));
+        }
+        this.discovered[start.x][start.y] = true;
+        this.reach({ coord: start, prev_cell: undefined });
+    }
+    /**
+     * Progresses the algorithm solution by 1 step, returning every change it made in the order it made them
+     */
+    public abstract step(): SolverEvent[];
+
+    /**
+     * Number of elements currently waiting in the search frontier
+     */
+    public abstract frontier_size(): number;
+
+    /**
+     * Yields the events of every step until the algorithm completes execution
+     */
+    public *solve(): Generator<SolverEvent, void, undefined> {
+        while (!this.search_ended) yield* this.step();
     }
+
     /**
-     * Progresses the algorithm solution by 1 step, modifying the maze and producing sound appropriately
+     * What the search knows about a cell, undefined if it has not reached the cell
      */
-    protected abstract step(): void;
+    public inspect(coord: Coordinate): CellInspection | undefined {
+        const cell = this.reached[coord.x]?.[coord.y];
+        if (cell === undefined) return undefined;
+        return this.describe(cell);
+    }
 
     /**
-     * Begins drawing the maze solving steps until cancelled externally or the algorithm completes execution
+     * Searches without a heuristic order the frontier by nothing but the way they reached each cell
      */
-    public visualize(): void {
-        this.config.is_paused = false;
-        this.interval_code = setInterval(() => {
-            if (this.config.alg !== undefined) this.config.alg.step.call(this); // Disturbing
-        }, calculate_delay(this.config));
+    protected describe(cell: searched_cell): CellInspection {
+        const g = this.maze.path_cost(searched_cell_path(cell));
+        return { g: g, h: 0, f: g, parent: cell.prev_cell?.coord };
     }
 
     /**
-     * Makes sure that the visualization interval is set to the most recent rate supplied by the user
+     * Remembers the way a cell was reached, returning the cell for convenience
      */
-    public update_visualize_interval() {
-        clearInterval(this.interval_code);
-        this.interval_code = setInterval(() => {
-            if (this.config.alg !== undefined) this.config.alg.step.call(this);
-        }, calculate_delay(this.config));
-    }
-
-    protected playNote(frequency: number, duration: number) {
-        if (this.config.audio_config === undefined || this.config.audio_config.gain_node === undefined) return;
-        const oscillator = this.config.audio_config.audio_ctx.createOscillator();
-        oscillator.type = "square";
-        oscillator.connect(this.config.audio_config.gain_node);
-        oscillator.frequency.value = normalize_audio(frequency, this.config.audio_config);
-        oscillator.start();
-
-        setTimeout(() => {
-            oscillator.stop();
-        }, duration / 2);
-    }
-
-    public end_visualization() {
-        this.config.alg = undefined;
-        config.is_paused = true;
-    }
-
-    protected canvas_draw_path(path_cell: searched_cell) {
-        if (path_cell.prev_cell !== undefined) path_cell = path_cell.prev_cell;
-        if (ctx === null) return;
-        ctx.fillStyle = "purple";
-        const draw_step = () => {
-            if (ctx === null) return;
-            if (path_cell.prev_cell === undefined) {
-                clearInterval(interval_draw);
-                return;
-            }
-            ctx.fillRect(path_cell.coord.x * cell_width, path_cell.coord.y * cell_height, cell_width, cell_height);
-            path_cell = path_cell.prev_cell;
-            this.playNote(coordinate_frequency(path_cell.coord), this.config.draw_delay);
-        };
-        const interval_draw = setInterval(draw_step, this.config.draw_delay);
+    protected reach(cell: searched_cell) {
+        this.reached[cell.coord.x][cell.coord.y] = cell;
+        return cell;
+    }
+
+    protected is_discovered(coord: Coordinate) {
+        return this.discovered[coord.x][coord.y];
+    }
+
+    /**
+     * Whether a cell can be added to the frontier, marking it as discovered if so
+     */
+    protected discover(coord: Coordinate) {
+        if (this.is_discovered(coord) || !this.maze.is_passable(coord)) return false;
+        this.discovered[coord.x][coord.y] = true;
+        return true;
+    }
+
+    protected end_found(prev_cell: searched_cell | undefined): SolverEvent {
+        return this.path_found(searched_cell_path({ coord: this.end, prev_cell: prev_cell }));
+    }
+
+    protected path_found(path: Coordinate[]): SolverEvent {
+        this.final_searched_cell = path.reduce<searched_cell | undefined>(
+            (prev_cell, coord) => ({ coord: coord, prev_cell: prev_cell }),
+            undefined,
+        );
+        this.search_ended = true;
+        return { type: SolverEventType.PATH_FOUND, path: path, cost: this.maze.path_cost(path) };
+    }
+
+    protected end_not_found(): SolverEvent {
+        this.search_ended = true;
+        return { type: SolverEventType.NO_PATH };
     }
 }
 
 class BFS extends MazeSolvingAlgorithm {
-    next_search_frontier: Array<searched_cell> = [];
-    iterator = this.next_search_frontier.values();
+    search_frontier: Array<searched_cell> = [];
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.search_frontier = [{ coord: start, prev_cell: undefined }];
+    }
 
-    constructor(config: VisualizationConfig, maze: Maze) {
-        super(config, maze);
-        if (maze.start !== undefined) this.next_search_frontier = [{ coord: maze.start, prev_cell: undefined }];
+    public frontier_size() {
+        return this.search_frontier.length;
     }
 
-    protected step() {
-        if (this.interval_code === undefined) return;
-        if (config.is_paused) return;
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
 
-        const next = this.iterator.next();
-        let position: searched_cell = next.value;
-        let done = next.done === true;
+        const position = this.search_frontier.shift();
+        if (position === undefined) return [this.end_not_found()];
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord }];
 
-        if (done === true) {
-            if (this.next_search_frontier.length === 0) this.search_ended = true;
-            this.iterator = this.next_search_frontier.values();
-            this.next_search_frontier = [];
-            position = this.iterator.next().value;
+        const neighbors = this.maze.get_neighboring_coordinates(position.coord);
+        if (neighbors.some((adjacent_position) => coordinate_equals(this.end, adjacent_position))) {
+            events.push(this.end_found(position));
+            return events;
         }
-        if (!this.search_ended) {
-            maze.set_cell_type(position.coord, MazeCell.EXPLORED);
-            for (const adjacent_position of maze.get_neighboring_coordinates(position.coord)) {
-                if (coordinate_equals(maze.end, adjacent_position)) {
-                    this.final_searched_cell = {
-                        coord: adjacent_position,
-                        prev_cell: position,
-                    };
-                    break;
-                } else if (maze.get_cell_type(adjacent_position) === MazeCell.FLOOR) {
-                    maze.set_cell_type(adjacent_position, MazeCell.ACTIVE);
-                    this.playNote(coordinate_frequency(adjacent_position), calculate_delay(this.config));
-                    this.next_search_frontier.push({
-                        coord: adjacent_position,
-                        prev_cell: position,
-                    });
-                }
-            }
-            if (this.final_searched_cell !== undefined) {
-                for (const adjacent_position of maze.get_neighboring_coordinates(position.coord)) {
-                    if (maze.get_cell_type(adjacent_position) === MazeCell.ACTIVE) maze.set_cell_type(adjacent_position, MazeCell.FLOOR);
-                }
-            }
+        for (const adjacent_position of neighbors) {
+            if (!this.discover(adjacent_position)) continue;
+            events.push({ type: SolverEventType.CELL_ACTIVE, coord: adjacent_position });
+            this.search_frontier.push(this.reach({ coord: adjacent_position, prev_cell: position }));
+        }
+        if (this.search_frontier.length === 0) events.push(this.end_not_found());
+        return events;
+    }
+}
 
-            if (this.final_searched_cell !== undefined) this.search_ended = true;
-            canvas_refresh(this.maze);
-        } else {
-            if (this.final_searched_cell !== undefined) {
-                this.canvas_draw_path(this.final_searched_cell);
-                console.log("Found end");
-            } else {
-                console.log("Could not find end");
-            }
-            this.end_visualization();
-            clearInterval(this.interval_code);
+/**
+ * Depth first search, always expands the most recently found cell so that it follows one corridor as far as it goes before backtracking
+ */
+class DFS extends MazeSolvingAlgorithm {
+    search_frontier: Array<searched_cell> = [];
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.search_frontier = [{ coord: start, prev_cell: undefined }];
+    }
+
+    public frontier_size() {
+        return this.search_frontier.length;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        const position = this.search_frontier.pop();
+        if (position === undefined) return [this.end_not_found()];
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord }];
+
+        const neighbors = this.maze.get_neighboring_coordinates(position.coord);
+        if (neighbors.some((adjacent_position) => coordinate_equals(this.end, adjacent_position))) {
+            events.push(this.end_found(position));
+            return events;
+        }
+        // Pushed in reverse so that the first neighbor is the first one to be expanded
+        for (const adjacent_position of neighbors.reverse()) {
+            if (!this.discover(adjacent_position)) continue;
+            events.push({ type: SolverEventType.CELL_ACTIVE, coord: adjacent_position });
+            this.search_frontier.push(this.reach({ coord: adjacent_position, prev_cell: position }));
         }
+        if (this.search_frontier.length === 0) events.push(this.end_not_found());
+        return events;
+    }
+}
+
+type depth_stack_element = {
+    cell: searched_cell;
+    depth: number;
+};
+/**
+ * Depth first search that does not go further than depth_limit steps away from start.
+ * A cell is expanded again whenever it is reached in fewer steps than before, otherwise the limit could hide a path that exists.
+ */
+class DepthLimitedDFS extends MazeSolvingAlgorithm {
+    search_frontier: Array<depth_stack_element> = [];
+    depth_limit: number;
+
+    /** Fewest steps from start each cell has been reached in so far */
+    protected shallowest_depth: number[][] = [];
+    /** Whether the limit stopped any cell from being added to the frontier */
+    protected cutoff: boolean = false;
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate, depth_limit: number) {
+        super(maze, start, end);
+        this.depth_limit = depth_limit;
+        this.restart();
+    }
+
+    protected restart() {
+        this.cutoff = false;
+        this.shallowest_depth = [];
+        for (let i = 0; i < this.maze.width; i++) this.shallowest_depth.push(new Array<number>(this.maze.height).fill(Infinity));
+        this.shallowest_depth[this.start.x][this.start.y] = 0;
+        for (const column of this.reached) column.fill(undefined);
+        this.search_frontier = [{ cell: this.reach({ coord: this.start, prev_cell: undefined }), depth: 0 }];
+    }
+
+    /**
+     * Called once the frontier runs out without finding the end
+     */
+    protected frontier_exhausted(): SolverEvent[] {
+        return [this.end_not_found()];
+    }
+
+    public frontier_size() {
+        return this.search_frontier.length;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        // Skip over elements that were superseded by a shorter way to the same cell
+        let frontier_element = this.search_frontier.pop();
+        while (
+            frontier_element !== undefined &&
+            frontier_element.depth > this.shallowest_depth[frontier_element.cell.coord.x][frontier_element.cell.coord.y]
+        ) {
+            frontier_element = this.search_frontier.pop();
+        }
+        if (frontier_element === undefined) return this.frontier_exhausted();
+        const position = frontier_element.cell;
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord }];
+
+        const neighbors = this.maze.get_neighboring_coordinates(position.coord);
+        const next_depth = frontier_element.depth + 1;
+        if (next_depth > this.depth_limit) {
+            this.cutoff ||= neighbors.some(
+                (adjacent_position) =>
+                    coordinate_equals(this.end, adjacent_position) ||
+                    (this.maze.is_passable(adjacent_position) &&
+                        next_depth < this.shallowest_depth[adjacent_position.x][adjacent_position.y]),
+            );
+            return events;
+        }
+        if (neighbors.some((adjacent_position) => coordinate_equals(this.end, adjacent_position))) {
+            events.push(this.end_found(position));
+            return events;
+        }
+        for (const adjacent_position of neighbors.reverse()) {
+            if (!this.maze.is_passable(adjacent_position)) continue;
+            if (next_depth >= this.shallowest_depth[adjacent_position.x][adjacent_position.y]) continue;
+            this.shallowest_depth[adjacent_position.x][adjacent_position.y] = next_depth;
+            events.push({ type: SolverEventType.CELL_ACTIVE, coord: adjacent_position });
+            this.search_frontier.push({ cell: this.reach({ coord: adjacent_position, prev_cell: position }), depth: next_depth });
+        }
+        return events;
+    }
+}
+
+/**
+ * Iterative deepening, repeats a depth limited search with a limit that grows by 1 every time the previous limit was too small.
+ * Every restart expands the cells near start all over again, which is the price paid for only ever storing a single branch.
+ */
+class IDDFS extends DepthLimitedDFS {
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end, 1);
+    }
+
+    protected frontier_exhausted(): SolverEvent[] {
+        if (!this.cutoff) return [this.end_not_found()];
+        this.depth_limit++;
+        this.restart();
+        return [{ type: SolverEventType.ITERATION_STARTED, depth_limit: this.depth_limit }];
     }
 }
 
@@ -141,147 +393,561 @@ type priority_queue_element = {
     priority: number;
     cell: searched_cell;
 };
+/**
+ * A frontier that gives out the element of lowest priority first, elements of equal priority in the order they were added
+ */
+function priority_frontier<T extends priority_queue_element>(...elements: T[]) {
+    const frontier = new BinaryHeap<T>((element1, element2) => element1.priority < element2.priority);
+    for (const element of elements) frontier.push(element);
+    return frontier;
+}
 class GBFS extends MazeSolvingAlgorithm {
-    search_frontier: Array<priority_queue_element> = [];
-    heuristic: (arg1: any, arg2: any) => number = euclidean_distance;
+    search_frontier = priority_frontier<priority_queue_element>();
+    heuristic: (arg1: Coordinate, arg2: Coordinate) => number = (coord1, coord2) => this.maze.distance(coord1, coord2);
 
-    constructor(config: VisualizationConfig, maze: Maze) {
-        super(config, maze);
-        if (maze.start !== undefined && maze.end !== undefined)
-            this.search_frontier = [
-                { priority: this.heuristic(maze.start, maze.end), cell: { coord: maze.start, prev_cell: undefined } },
-            ];
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.search_frontier = priority_frontier<priority_queue_element>({
+            priority: this.heuristic(start, end),
+            cell: { coord: start, prev_cell: undefined },
+        });
     }
 
-    protected step() {
-        if (maze.end === undefined || this.interval_code === undefined) return;
-        if (config.is_paused) return;
+    /**
+     * Greedy search orders the frontier by the estimate alone, ignoring how costly the way there was
+     */
+    protected describe(cell: searched_cell): CellInspection {
+        const h = this.heuristic(cell.coord, this.end);
+        return { g: super.describe(cell).g, h: h, f: h, parent: cell.prev_cell?.coord };
+    }
 
-        const frontier_element = this.search_frontier.shift();
-        if (frontier_element === undefined) return;
+    public frontier_size() {
+        return this.search_frontier.size();
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        const frontier_element = this.search_frontier.pop();
+        if (frontier_element === undefined) return [this.end_not_found()];
         const position = frontier_element.cell;
-        maze.set_cell_type(position.coord, MazeCell.EXPLORED);
-
-        for (const adjacent_position of maze.get_neighboring_coordinates(position.coord)) {
-            if (coordinate_equals(maze.end, adjacent_position)) {
-                this.final_searched_cell = {
-                    coord: adjacent_position,
-                    prev_cell: position,
-                };
-                break;
-            } else if (maze.get_cell_type(adjacent_position) === MazeCell.FLOOR) {
-                maze.set_cell_type(adjacent_position, MazeCell.ACTIVE);
-                this.playNote(coordinate_frequency(adjacent_position), calculate_delay(this.config));
-                const priority = this.heuristic(adjacent_position, maze.end);
-                let index_to_insert = 0;
-                for (const element of this.search_frontier) {
-                    if (element.priority > priority) break;
-                    index_to_insert++;
-                }
-                this.search_frontier.splice(index_to_insert, 0, {
-                    priority: priority,
-                    cell: { coord: adjacent_position, prev_cell: position },
-                });
-            }
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord }];
+
+        const neighbors = this.maze.get_neighboring_coordinates(position.coord);
+        if (neighbors.some((adjacent_position) => coordinate_equals(this.end, adjacent_position))) {
+            events.push(this.end_found(position));
+            return events;
         }
-        if (this.final_searched_cell !== undefined) {
-            for (const adjacent_position of maze.get_neighboring_coordinates(position.coord)) {
-                if (maze.get_cell_type(adjacent_position) === MazeCell.ACTIVE) maze.set_cell_type(adjacent_position, MazeCell.FLOOR);
-            }
-        }
-        if (this.final_searched_cell !== undefined) this.search_ended = true;
-        if (this.search_frontier.length == 0) this.search_ended = true;
-        canvas_refresh(this.maze);
-
-        if (this.search_ended) {
-            if (this.final_searched_cell !== undefined) {
-                this.canvas_draw_path(this.final_searched_cell);
-                console.log("Found end");
-            } else {
-                console.log("Could not find end");
-            }
-            this.end_visualization();
-            clearInterval(this.interval_code);
+        for (const adjacent_position of neighbors) {
+            if (!this.discover(adjacent_position)) continue;
+            events.push({ type: SolverEventType.CELL_ACTIVE, coord: adjacent_position });
+            this.search_frontier.push({
+                priority: this.heuristic(adjacent_position, this.end),
+                cell: this.reach({ coord: adjacent_position, prev_cell: position }),
+            });
         }
+        if (this.search_frontier.size() === 0) events.push(this.end_not_found());
+        return events;
     }
 }
 
-type priority_queue_length_element = {
+type priority_queue_cost_element = {
     priority: number;
     cell: searched_cell;
-    length: number;
+    cost: number;
 };
-class ASTAR extends MazeSolvingAlgorithm {
-    search_frontier: Array<priority_queue_length_element> = [];
-    heuristic: (arg1: any, arg2: any) => number = euclidean_distance;
+/**
+ * Uniform cost search (Dijkstra), always expands the cell with the lowest accumulated cost from start.
+ * Unlike the other algorithms a cell can be put in the frontier again when a cheaper way to it is found,
+ * and the end is only accepted once it is taken out of the frontier, so that the path found is the cheapest one.
+ */
+class UCS extends MazeSolvingAlgorithm {
+    search_frontier = priority_frontier<priority_queue_cost_element>();
+
+    /** Cheapest known cost from start to each cell */
+    protected readonly best_cost: number[][] = [];
+    /** Cells that have been expanded, whose cost can no longer improve */
+    protected readonly closed: boolean[][] = [];
 
-    constructor(config: VisualizationConfig, maze: Maze) {
-        super(config, maze);
-        if (maze.start === undefined || maze.end === undefined) return;
-        this.search_frontier = [
-            {
-                priority: this.heuristic(maze.start, maze.end),
-                cell: { coord: maze.start, prev_cell: undefined },
-                length: 0,
-            },
-        ];
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        for (let i = 0; i < maze.width; i++) {
+            this.best_cost.push(new Array<number>(maze.height).fill(Infinity));
+            this.closed.push(new Array<boolean>(maze.height).fill(false));
+        }
+        this.best_cost[start.x][start.y] = 0;
+        // Being the only element its priority does not matter, which also means subclasses need not be initialized yet
+        this.search_frontier = priority_frontier<priority_queue_cost_element>({
+            priority: 0,
+            cell: { coord: start, prev_cell: undefined },
+            cost: 0,
+        });
     }
 
-    private astar_dist(current_cell: priority_queue_length_element, next_coord: Coordinate) {
-        if (maze.end === undefined) return 0;
-        return current_cell.length + this.heuristic(maze.end, next_coord);
+    /**
+     * Estimated remaining cost from a cell to the end, which uniform cost search does not make use of
+     */
+    protected estimate(coord: Coordinate) {
+        return 0;
     }
 
-    protected step() {
-        if (maze.end === undefined || this.interval_code === undefined) return;
-        if (config.is_paused) return;
+    protected describe(cell: searched_cell): CellInspection {
+        const g = this.best_cost[cell.coord.x][cell.coord.y];
+        const h = this.estimate(cell.coord);
+        return { g: g, h: h, f: g + h, parent: cell.prev_cell?.coord };
+    }
 
-        const frontier_element = this.search_frontier.shift();
-        if (frontier_element === undefined) return;
+    public frontier_size() {
+        return this.search_frontier.size();
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        // Skip over elements that were superseded by a cheaper way to the same cell
+        let frontier_element = this.search_frontier.pop();
+        while (frontier_element !== undefined && this.closed[frontier_element.cell.coord.x][frontier_element.cell.coord.y]) {
+            frontier_element = this.search_frontier.pop();
+        }
+        if (frontier_element === undefined) return [this.end_not_found()];
         const position = frontier_element.cell;
-        maze.set_cell_type(position.coord, MazeCell.EXPLORED);
-
-        for (const adjacent_position of maze.get_neighboring_coordinates(position.coord)) {
-            if (coordinate_equals(maze.end, adjacent_position)) {
-                this.final_searched_cell = {
-                    coord: adjacent_position,
-                    prev_cell: position,
-                };
-                break;
-            } else if (maze.get_cell_type(adjacent_position) === MazeCell.FLOOR) {
-                maze.set_cell_type(adjacent_position, MazeCell.ACTIVE);
-                this.playNote(coordinate_frequency(adjacent_position), calculate_delay(this.config));
-                const priority = this.astar_dist(frontier_element, adjacent_position);
-                let index_to_insert = 0;
-                for (const element of this.search_frontier) {
-                    if (element.priority > priority) break;
-                    index_to_insert++;
-                }
-                this.search_frontier.splice(index_to_insert, 0, {
-                    priority: priority,
-                    cell: { coord: adjacent_position, prev_cell: position },
-                    length: frontier_element.length + 1,
-                });
+        if (coordinate_equals(position.coord, this.end)) return [this.end_found(position.prev_cell)];
+        this.closed[position.coord.x][position.coord.y] = true;
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord }];
+
+        for (const adjacent_position of this.maze.get_neighboring_coordinates(position.coord)) {
+            if (this.closed[adjacent_position.x][adjacent_position.y]) continue;
+            if (!coordinate_equals(adjacent_position, this.end) && !this.maze.is_passable(adjacent_position)) continue;
+            const cost = frontier_element.cost + this.maze.move_cost(position.coord, adjacent_position);
+            if (cost >= this.best_cost[adjacent_position.x][adjacent_position.y]) continue;
+            this.best_cost[adjacent_position.x][adjacent_position.y] = cost;
+            events.push({ type: SolverEventType.CELL_ACTIVE, coord: adjacent_position });
+            this.search_frontier.push({
+                priority: cost + this.estimate(adjacent_position),
+                cell: this.reach({ coord: adjacent_position, prev_cell: position }),
+                cost: cost,
+            });
+        }
+        if (this.search_frontier.size() === 0) events.push(this.end_not_found());
+        return events;
+    }
+}
+
+/**
+ * A* orders the frontier by accumulated cost plus a heuristic estimate of the cost that remains.
+ * A weight above 1 makes it weighted A*, which trusts the estimate more and expands fewer cells at the risk of a more costly path.
+ */
+class ASTAR extends UCS {
+    heuristic: (arg1: Coordinate, arg2: Coordinate) => number = (coord1, coord2) => this.maze.distance(coord1, coord2);
+    weight: number = 1;
+
+    protected estimate(coord: Coordinate) {
+        return this.weight * this.heuristic(this.end, coord);
+    }
+}
+
+/** The moves of an 8-connected square grid, the first 4 of which are the moves of a 4-connected one */
+const grid_directions: Coordinate[] = [
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+    { x: 0, y: -1 },
+    { x: 1, y: 1 },
+    { x: -1, y: 1 },
+    { x: -1, y: -1 },
+    { x: 1, y: -1 },
+];
+type jump = {
+    coord: Coordinate;
+    cost: number;
+};
+/**
+ * Jump Point Search, an A* for grids where every move costs the same that skips over the many equally short paths an open area has.
+ * Rather than putting every neighbor in the frontier it scans along a line from the expanded cell and only stops at a jump point:
+ * the end, or a cell where a wall beside the line makes a turn necessary. Diagonal scans also scan straight from every cell they pass.
+ * Only jump points enter the frontier, so far fewer cells are expanded than by A* at the price of the cells scanned in between.
+ * Like breadth first search it ignores terrain, every move costing its length. Other topologies than square grids have no lines to scan along,
+ * and neither do mazes with floors, portals or conveyors, every neighbor is a jump point there and it searches like A* does.
+ */
+class JPS extends ASTAR {
+    /** Cells the search has already drawn, which a scan passing over them leaves as they are */
+    private readonly drawn: boolean[][] = [];
+    /** Whether the maze has floors, portals or conveyors, whose moves do not follow the straight lines jumps scan along */
+    private readonly has_special_moves: boolean;
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.has_special_moves = maze.has_special_moves();
+        for (let i = 0; i < maze.width; i++) this.drawn.push(new Array<boolean>(maze.height).fill(false));
+        this.drawn[start.x][start.y] = true;
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        let frontier_element = this.search_frontier.pop();
+        while (frontier_element !== undefined && this.closed[frontier_element.cell.coord.x][frontier_element.cell.coord.y]) {
+            frontier_element = this.search_frontier.pop();
+        }
+        if (frontier_element === undefined) return [this.end_not_found()];
+        const position = frontier_element.cell;
+        if (coordinate_equals(position.coord, this.end)) return [this.path_found(this.fill_in(searched_cell_path(position)))];
+        this.closed[position.coord.x][position.coord.y] = true;
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord, jump_point: true }];
+
+        for (const successor of this.successors(position, events)) {
+            const coord = successor.coord;
+            if (this.closed[coord.x][coord.y]) continue;
+            const cost = frontier_element.cost + successor.cost;
+            if (cost >= this.best_cost[coord.x][coord.y]) continue;
+            this.best_cost[coord.x][coord.y] = cost;
+            this.drawn[coord.x][coord.y] = true;
+            events.push({ type: SolverEventType.CELL_ACTIVE, coord: coord });
+            this.search_frontier.push({
+                priority: cost + this.estimate(coord),
+                cell: this.reach({ coord: coord, prev_cell: position }),
+                cost: cost,
+            });
+        }
+        if (this.search_frontier.size() === 0) events.push(this.end_not_found());
+        return events;
+    }
+
+    /**
+     * Whether jumps can scan along the lines of the grid, which needs a square grid without special moves
+     */
+    private can_jump() {
+        return this.maze.topology instanceof SquareTopology && !this.has_special_moves;
+    }
+
+    /**
+     * The jump points reached from an expanded cell, or its neighbors where there are no lines to scan along
+     */
+    private successors(cell: searched_cell, events: SolverEvent[]): jump[] {
+        if (!this.can_jump()) {
+            return this.maze
+                .get_neighboring_coordinates(cell.coord)
+                .filter((neighbor) => coordinate_equals(neighbor, this.end) || this.maze.is_passable(neighbor))
+                .map((neighbor) => ({ coord: neighbor, cost: this.maze.move_length(cell.coord, neighbor) }));
+        }
+        const jumps: jump[] = [];
+        for (const direction of this.pruned_directions(cell)) {
+            const jump = this.jump(cell.coord, direction, events);
+            if (jump !== undefined) jumps.push(jump);
+        }
+        return jumps;
+    }
+
+    private is_diagonal() {
+        return this.maze.topology instanceof DiagonalTopology;
+    }
+
+    private allows_corner_cutting() {
+        const topology = this.maze.topology;
+        return topology instanceof DiagonalTopology && topology.allow_corner_cutting;
+    }
+
+    /**
+     * Whether the cell at an offset from a cell is passable
+     */
+    private is_open(coord: Coordinate, dx: number, dy: number) {
+        return this.maze.is_passable({ x: coord.x + dx, y: coord.y + dy });
+    }
+
+    /**
+     * The directions worth scanning from a jump point, which are the direction it was reached in, the directions that continue it
+     * and those a wall beside it forces. Every other neighbor has a path at least as short that does not go through the jump point.
+     */
+    private pruned_directions(cell: searched_cell) {
+        const moves = this.is_diagonal() ? grid_directions : grid_directions.slice(0, 4);
+        const parent = cell.prev_cell?.coord;
+        if (parent === undefined) return moves;
+        const coord = cell.coord;
+        const dx = Math.sign(coord.x - parent.x);
+        const dy = Math.sign(coord.y - parent.y);
+        const directions = [{ x: dx, y: dy }];
+        if (dx !== 0 && dy !== 0) {
+            directions.push({ x: dx, y: 0 }, { x: 0, y: dy });
+            if (this.allows_corner_cutting() && !this.is_open(coord, -dx, 0)) directions.push({ x: -dx, y: dy });
+            if (this.allows_corner_cutting() && !this.is_open(coord, 0, -dy)) directions.push({ x: dx, y: -dy });
+            return directions;
+        }
+        for (const side of [
+            { x: dy, y: dx },
+            { x: -dy, y: -dx },
+        ]) {
+            const diagonal = { x: dx + side.x, y: dy + side.y };
+            if (!this.is_diagonal()) {
+                // Scans going up or down look sideways at every cell, so turning sideways is only ever forced after a vertical move
+                if (this.is_open(coord, side.x, side.y) && (dy !== 0 || !this.is_open(coord, side.x - dx, side.y - dy)))
+                    directions.push(side);
+            } else if (this.allows_corner_cutting()) {
+                if (!this.is_open(coord, side.x, side.y)) directions.push(diagonal);
+            } else if (this.is_open(coord, side.x, side.y) && !this.is_open(coord, side.x - dx, side.y - dy)) {
+                directions.push(side, diagonal);
             }
         }
-        if (this.final_searched_cell !== undefined) {
-            for (const adjacent_position of maze.get_neighboring_coordinates(position.coord)) {
-                if (maze.get_cell_type(adjacent_position) === MazeCell.ACTIVE) maze.set_cell_type(adjacent_position, MazeCell.FLOOR);
+        return directions;
+    }
+
+    /**
+     * The cell a move in a direction leads to, undefined if the move is not possible
+     */
+    private move(from: Coordinate, direction: Coordinate) {
+        const to = { x: from.x + direction.x, y: from.y + direction.y };
+        if (!this.maze.is_in_bounds(to)) return undefined;
+        if (!coordinate_equals(to, this.end) && !this.maze.is_passable(to)) return undefined;
+        const diagonal = direction.x !== 0 && direction.y !== 0;
+        if (diagonal && !this.allows_corner_cutting() && (!this.is_open(from, direction.x, 0) || !this.is_open(from, 0, direction.y)))
+            return undefined;
+        return to;
+    }
+
+    /**
+     * Scans from a cell in a direction until it reaches a jump point, undefined if it runs into a wall first
+     */
+    private jump(from: Coordinate, direction: Coordinate, events: SolverEvent[]): jump | undefined {
+        let cost = 0;
+        for (let current = from; ;) {
+            const next = this.move(current, direction);
+            if (next === undefined) return undefined;
+            cost += this.maze.topology.move_length(this.maze, current, next);
+            current = next;
+            if (this.is_jump_point(current, direction, events)) return { coord: current, cost: cost };
+            if (this.drawn[current.x][current.y]) continue;
+            this.drawn[current.x][current.y] = true;
+            events.push({ type: SolverEventType.CELL_SCANNED, coord: current });
+        }
+    }
+
+    /**
+     * Whether a scan in a direction has to stop at a cell, because it is the end or it has a neighbor only reachable through it
+     */
+    private is_jump_point(coord: Coordinate, direction: Coordinate, events: SolverEvent[]) {
+        if (coordinate_equals(coord, this.end)) return true;
+        const dx = direction.x;
+        const dy = direction.y;
+        if (dx !== 0 && dy !== 0) {
+            if (
+                this.allows_corner_cutting() &&
+                ((!this.is_open(coord, -dx, 0) && this.is_open(coord, -dx, dy)) ||
+                    (!this.is_open(coord, 0, -dy) && this.is_open(coord, dx, -dy)))
+            )
+                return true;
+            return this.jump(coord, { x: dx, y: 0 }, events) !== undefined || this.jump(coord, { x: 0, y: dy }, events) !== undefined;
+        }
+        for (const side of [
+            { x: dy, y: dx },
+            { x: -dy, y: -dx },
+        ]) {
+            if (this.allows_corner_cutting()) {
+                if (!this.is_open(coord, side.x, side.y) && this.is_open(coord, dx + side.x, dy + side.y)) return true;
+            } else if (this.is_open(coord, side.x, side.y) && !this.is_open(coord, side.x - dx, side.y - dy)) {
+                return true;
             }
         }
-        if (this.final_searched_cell !== undefined) this.search_ended = true;
-        if (this.search_frontier.length === 0) this.search_ended = true;
-        canvas_refresh(this.maze);
-
-        if (this.search_ended) {
-            if (this.final_searched_cell !== undefined) {
-                this.canvas_draw_path(this.final_searched_cell);
-                console.log("Found end");
-            } else {
-                console.log("Could not find end");
+        if (this.is_diagonal() || dy === 0) return false;
+        return this.jump(coord, { x: 1, y: 0 }, events) !== undefined || this.jump(coord, { x: -1, y: 0 }, events) !== undefined;
+    }
+
+    /**
+     * The cells between consecutive jump points, which lie on a straight or diagonal line of a square grid
+     */
+    private fill_in(jump_points: Coordinate[]) {
+        if (!this.can_jump()) return jump_points;
+        const path = jump_points.slice(0, 1);
+        for (const jump_point of jump_points.slice(1)) {
+            let current = path[path.length - 1];
+            while (!coordinate_equals(current, jump_point)) {
+                current = { x: current.x + Math.sign(jump_point.x - current.x), y: current.y + Math.sign(jump_point.y - current.y) };
+                path.push(current);
             }
-            this.end_visualization();
-            clearInterval(this.interval_code);
         }
+        return path;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * One of the two searches of a bidirectional search, going from origin towards target
+ */
+type search_side = {
+    origin: Coordinate;
+    target: Coordinate;
+    from_end: boolean;
+    search_frontier: BinaryHeap<priority_queue_cost_element>;
+    /** Cheapest known cost between origin and each cell */
+    best_cost: number[][];
+    closed: boolean[][];
+    /** The searched_cell of the cheapest known way to each cell, whose prev_cell chain leads back to origin */
+    reached: (searched_cell | undefined)[][];
+};
+function create_search_side(maze: Maze, origin: Coordinate, target: Coordinate, from_end: boolean): search_side {
+    const origin_cell = { coord: origin, prev_cell: undefined };
+    const side: search_side = {
+        origin: origin,
+        target: target,
+        from_end: from_end,
+        search_frontier: priority_frontier<priority_queue_cost_element>({ priority: 0, cell: origin_cell, cost: 0 }),
+        best_cost: [],
+        closed: [],
+        reached: [],
+    };
+    for (let i = 0; i < maze.width; i++) {
+        side.best_cost.push(new Array<number>(maze.height).fill(Infinity));
+        side.closed.push(new Array<boolean>(maze.height).fill(false));
+        side.reached.push(new Array<searched_cell | undefined>(maze.height).fill(undefined));
+    }
+    side.best_cost[origin.x][origin.y] = 0;
+    side.reached[origin.x][origin.y] = origin_cell;
+    return side;
+}
+
+/**
+ * Grows one search from start and another from end, taking turns expanding a cell of each.
+ * Whenever a side reaches a cell the other side has already reached, the two halves form a path through that meeting point.
+ * The search only ends once neither side can find anything cheaper than the best meeting point so far, so the path is still the cheapest one.
+ */
+abstract class BidirectionalSearch extends MazeSolvingAlgorithm {
+    readonly from_start: search_side;
+    readonly from_end: search_side;
+
+    /** Cost of the cheapest path through a meeting point found so far */
+    best_meeting_cost: number = Infinity;
+    meeting_point: Coordinate | undefined = undefined;
+
+    private start_turn = true;
+
+    constructor(maze: Maze, start: Coordinate, end: Coordinate) {
+        super(maze, start, end);
+        this.from_start = create_search_side(maze, start, end, false);
+        this.from_end = create_search_side(maze, end, start, true);
+    }
+
+    /**
+     * Cost of the move between two neighboring cells, in the direction going from start to end
+     */
+    protected abstract move_cost(from: Coordinate, to: Coordinate): number;
+
+    /**
+     * Estimated remaining cost from a cell to the target of the side that reached it
+     */
+    protected abstract estimate(coord: Coordinate, target: Coordinate): number;
+
+    /**
+     * Whether nothing left in the frontiers can lead to a cheaper meeting point than the best one so far,
+     * given the cheapest element of the side whose turn it is
+     */
+    protected cannot_improve(frontier_element: priority_queue_cost_element, other_side: search_side) {
+        return frontier_element.priority >= this.best_meeting_cost;
+    }
+
+    /**
+     * Inspects the cell as the side from start reached it, or as the side from end did if only that side reached it
+     */
+    public inspect(coord: Coordinate): CellInspection | undefined {
+        for (const side of [this.from_start, this.from_end]) {
+            const cell = side.reached[coord.x]?.[coord.y];
+            if (cell === undefined) continue;
+            const g = side.best_cost[coord.x][coord.y];
+            const h = this.estimate(coord, side.target);
+            return { g: g, h: h, f: g + h, parent: cell.prev_cell?.coord };
+        }
+        return undefined;
+    }
+
+    private meet(): SolverEvent[] {
+        if (this.meeting_point === undefined) return [this.end_not_found()];
+        const start_half = this.from_start.reached[this.meeting_point.x][this.meeting_point.y] as searched_cell;
+        const end_half = this.from_end.reached[this.meeting_point.x][this.meeting_point.y] as searched_cell;
+        // Both halves contain the meeting point, it only needs to appear once
+        const path = searched_cell_path(start_half).concat(searched_cell_path(end_half).reverse().slice(1));
+        return [{ type: SolverEventType.FRONTIERS_MET, coord: this.meeting_point }, this.path_found(path)];
+    }
+
+    public frontier_size() {
+        return this.from_start.search_frontier.size() + this.from_end.search_frontier.size();
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+        const side = this.start_turn ? this.from_start : this.from_end;
+        const other_side = this.start_turn ? this.from_end : this.from_start;
+        this.start_turn = !this.start_turn;
+
+        let frontier_element = side.search_frontier.pop();
+        while (frontier_element !== undefined && side.closed[frontier_element.cell.coord.x][frontier_element.cell.coord.y]) {
+            frontier_element = side.search_frontier.pop();
+        }
+        if (frontier_element === undefined || this.cannot_improve(frontier_element, other_side)) return this.meet();
+        const position = frontier_element.cell;
+        side.closed[position.coord.x][position.coord.y] = true;
+        const events: SolverEvent[] = [{ type: SolverEventType.CELL_EXPLORED, coord: position.coord, from_end: side.from_end }];
+
+        // The side from end walks moves backwards, which matters where conveyors make moves one way
+        const adjacent_positions = side.from_end
+            ? this.maze.get_predecessor_coordinates(position.coord)
+            : this.maze.get_neighboring_coordinates(position.coord);
+        for (const adjacent_position of adjacent_positions) {
+            if (side.closed[adjacent_position.x][adjacent_position.y]) continue;
+            if (!coordinate_equals(adjacent_position, side.target) && !this.maze.is_passable(adjacent_position)) continue;
+            const cost =
+                frontier_element.cost +
+                (side.from_end ? this.move_cost(adjacent_position, position.coord) : this.move_cost(position.coord, adjacent_position));
+            if (cost < side.best_cost[adjacent_position.x][adjacent_position.y]) {
+                const cell = { coord: adjacent_position, prev_cell: position };
+                side.best_cost[adjacent_position.x][adjacent_position.y] = cost;
+                side.reached[adjacent_position.x][adjacent_position.y] = cell;
+                events.push({ type: SolverEventType.CELL_ACTIVE, coord: adjacent_position, from_end: side.from_end });
+                side.search_frontier.push({
+                    priority: cost + this.estimate(adjacent_position, side.target),
+                    cell: cell,
+                    cost: cost,
+                });
+            }
+            const meeting_cost =
+                side.best_cost[adjacent_position.x][adjacent_position.y] + other_side.best_cost[adjacent_position.x][adjacent_position.y];
+            if (meeting_cost < this.best_meeting_cost) {
+                this.best_meeting_cost = meeting_cost;
+                this.meeting_point = adjacent_position;
+            }
+        }
+        return events;
+    }
+}
+
+/**
+ * Bidirectional breadth first search, every move counts as 1 regardless of terrain
+ */
+class BidirectionalBFS extends BidirectionalSearch {
+    /**
+     * Without a heuristic both frontiers are ordered by cost, so any path left to find costs at least the sum of their cheapest elements
+     */
+    protected cannot_improve(frontier_element: priority_queue_cost_element, other_side: search_side) {
+        const other_element = other_side.search_frontier.peek();
+        if (other_element !== undefined && frontier_element.cost + other_element.cost >= this.best_meeting_cost) return true;
+        return super.cannot_improve(frontier_element, other_side);
+    }
+
+    protected move_cost(from: Coordinate, to: Coordinate) {
+        return 1;
+    }
+
+    protected estimate(coord: Coordinate, target: Coordinate) {
+        return 0;
+    }
+}
+
+/**
+ * Bidirectional A*, each side uses the heuristic distance to its own target
+ */
+class BidirectionalASTAR extends BidirectionalSearch {
+    heuristic: (arg1: Coordinate, arg2: Coordinate) => number = (coord1, coord2) => this.maze.distance(coord1, coord2);
+
+    protected move_cost(from: Coordinate, to: Coordinate) {
+        return this.maze.move_cost(from, to);
+    }
+
+    protected estimate(coord: Coordinate, target: Coordinate) {
+        return this.heuristic(target, coord);
+    }
+}
@@ -0,0 +1,147 @@
+export { SoundEngine, SoundType, scales };
+
+enum SoundType {
+    /** A cell joining the frontier, a short soft tick an octave up */
+    ENQUEUE,
+    /** A cell being expanded or moved onto, in the chosen waveform */
+    EXPAND,
+    /** A cell of the found path being drawn, a longer and rounder note */
+    PATH,
+}
+
+/**
+ * Semitones above the lowest note of each octave that notes are rounded to, by the value of their option in the scale select
+ */
+const scales = new Map([
+    ["pentatonic", [0, 2, 4, 7, 9]],
+    ["major", [0, 2, 4, 5, 7, 9, 11]],
+    ["minor", [0, 2, 3, 5, 7, 8, 10]],
+    ["blues", [0, 3, 5, 6, 7, 10]],
+    ["chromatic", [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]],
+]);
+
+/** MIDI number of the lowest note played, the G below middle C */
+const lowest_note = 55;
+/** Number of octaves the pitch of a note ranges over */
+const octaves = 2;
+
+/**
+ * Frequency of a note given as its MIDI number, A above middle C being 69 and 440 Hz
+ */
+function note_frequency(note: number) {
+    return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * Plays the notes that go with a search, every note being scheduled on the clock of the audio context with a short attack and release
+ * so that notes neither click nor depend on timers firing on time.
+ * At most voice_limit notes sound at once, each one at most a voice_limit-th as loud, so that many notes together never clip.
+ */
+class SoundEngine {
+    readonly context: AudioContext;
+    private readonly output: GainNode;
+    /** Percentage of full volume, between 0 and 100, changed through set_volume */
+    volume = 25;
+    scale: number[] = scales.get("pentatonic") ?? [0];
+    waveform: OscillatorType = "square";
+    voice_limit = 4;
+    /** Notes that have been started and not stopped yet */
+    private voices: { oscillator: OscillatorNode; envelope: GainNode; end: number }[] = [];
+
+    constructor(context: AudioContext) {
+        this.context = context;
+        this.output = context.createGain();
+        this.output.gain.value = this.volume / 100;
+        this.output.connect(context.destination);
+    }
+
+    /**
+     * Browsers only let an audio context play once the page has been interacted with, so this has to be called from an input handler
+     */
+    public resume() {
+        if (this.context.state === "suspended") this.context.resume();
+    }
+
+    public set_volume(volume: number) {
+        this.volume = volume;
+        this.output.gain.setValueAtTime(volume / 100, this.context.currentTime);
+    }
+
+    /**
+     * Quickly fades out every note that is still sounding
+     */
+    public silence() {
+        const now = this.context.currentTime;
+        for (const voice of this.voices) {
+            voice.envelope.gain.cancelScheduledValues(now);
+            voice.envelope.gain.setValueAtTime(voice.envelope.gain.value, now);
+            voice.envelope.gain.linearRampToValueAtTime(0, now + 0.02);
+            voice.oscillator.stop(now + 0.03);
+        }
+        this.voices = [];
+    }
+
+    /**
+     * Plays a sound for a cell, its pitch between 0 for the lowest note and 1 for the highest rounded to the scale
+     * and its pan between -1 for the left and 1 for the right.
+     * The sound lasts for the given number of milliseconds, or less for the sounds that are meant to be short.
+     */
+    public play(type: SoundType, pitch: number, pan: number, duration: number) {
+        const note = this.scale_note(pitch);
+        const seconds = duration / 1000;
+        if (type === SoundType.ENQUEUE) this.start_note(note + 12, pan, seconds / 2, "sine", 0.5);
+        else if (type === SoundType.EXPAND) this.start_note(note, pan, seconds, this.waveform, 1);
+        else this.start_note(note, pan, seconds * 2, "triangle", 0.8);
+    }
+
+    /**
+     * Plays a rising arpeggio up the scale that ends on the octave above, for when a path is found
+     */
+    public play_path_found() {
+        const degrees = [0, 2, 4, this.scale.length];
+        degrees.forEach((degree, index) => {
+            const last = index === degrees.length - 1;
+            this.start_note(this.scale_degree(degree) + 12, 0, last ? 0.5 : 0.12, "triangle", 1, index * 0.1);
+        });
+    }
+
+    /**
+     * The note a pitch between 0 and 1 is rounded to, as a MIDI number
+     */
+    private scale_note(pitch: number) {
+        const steps = this.scale.length * octaves;
+        return this.scale_degree(Math.round(Math.min(Math.max(pitch, 0), 1) * steps));
+    }
+
+    /**
+     * The note so many steps of the scale above the lowest note, as a MIDI number
+     */
+    private scale_degree(degree: number) {
+        const octave = Math.floor(degree / this.scale.length);
+        return lowest_note + 12 * octave + this.scale[degree % this.scale.length];
+    }
+
+    private start_note(note: number, pan: number, duration: number, waveform: OscillatorType, loudness: number, delay = 0) {
+        const start = this.context.currentTime + delay;
+        this.voices = this.voices.filter((voice) => voice.end > this.context.currentTime);
+        if (this.voices.filter((voice) => voice.end > start).length >= this.voice_limit) return;
+
+        const attack = Math.min(0.01, duration / 4);
+        const release = Math.min(0.05, duration / 2);
+        const peak = loudness / this.voice_limit;
+        const oscillator = this.context.createOscillator();
+        oscillator.type = waveform;
+        oscillator.frequency.setValueAtTime(note_frequency(note), start);
+        const envelope = this.context.createGain();
+        envelope.gain.setValueAtTime(0, start);
+        envelope.gain.linearRampToValueAtTime(peak, start + attack);
+        envelope.gain.setValueAtTime(peak, start + duration - release);
+        envelope.gain.linearRampToValueAtTime(0, start + duration);
+        const panner = this.context.createStereoPanner();
+        panner.pan.setValueAtTime(Math.min(Math.max(pan, -1), 1), start);
+        oscillator.connect(envelope).connect(panner).connect(this.output);
+        oscillator.start(start);
+        oscillator.stop(start + duration);
+        this.voices.push({ oscillator: oscillator, envelope: envelope, end: start + duration });
+    }
+}
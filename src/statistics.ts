@@ -0,0 +1,105 @@
+import { Coordinate, Maze } from "./maze";
+import { MazeSolvingAlgorithm, SolverEvent, SolverEventType, UCS } from "./solving_algorithm";
+export { RunStatistics, cheapest_path_cost, count_nodes_expanded };
+
+/**
+ * The cost of the cheapest path between start and end found by uniform cost search, undefined if there is none.
+ * Used as the oracle that other algorithms' paths are compared against.
+ */
+function cheapest_path_cost(maze: Maze, start: Coordinate, end: Coordinate) {
+    for (const event of new UCS(maze, start, end).solve()) {
+        if (event.type === SolverEventType.PATH_FOUND) return event.cost;
+    }
+    return undefined;
+}
+
+/**
+ * Number of nodes an algorithm expands when run to completion, for comparing a search with another one on the same maze
+ */
+function count_nodes_expanded(alg: MazeSolvingAlgorithm) {
+    const statistics = new RunStatistics(undefined);
+    while (!statistics.finished) statistics.step(alg);
+    return statistics.nodes_expanded;
+}
+
+/**
+ * Counts what an algorithm does while it runs, every step of the algorithm has to be taken through step() to be counted
+ */
+class RunStatistics {
+    nodes_expanded = 0;
+    /** Cells looked at without being expanded, such as those jump point search passes over between two jump points */
+    cells_scanned = 0;
+    /** Nodes A* expands on the same maze, undefined unless the search is one meant to expand fewer */
+    astar_nodes_expanded: number | undefined = undefined;
+    /** Largest number of elements the search frontier held at the end of any step */
+    peak_frontier = 0;
+    path: Coordinate[] | undefined = undefined;
+    path_cost: number | undefined = undefined;
+    /** Index in the path where each of its legs ends, undefined unless the path was stitched together from legs between waypoints */
+    path_leg_ends: number[] | undefined = undefined;
+    /** Milliseconds spent inside the algorithm's steps, so that time spent waiting between animated steps is left out */
+    elapsed = 0;
+    /** Whether the algorithm has completed execution, with or without finding a path */
+    finished = false;
+    /** Whether the algorithm gave up because it would walk in circles forever */
+    looped = false;
+    /** Cost of the cheapest path, undefined if it is unknown or there is no path, updated whenever the maze changes during the search */
+    optimal_cost: number | undefined;
+    /** Number of times the search started repairing its path after the maze changed */
+    replans = 0;
+    /** Nodes expanded before the most recent repair started */
+    nodes_expanded_before_replan = 0;
+    /** Depth limit of the iteration in progress, undefined unless the search deepens iteratively */
+    depth_limit: number | undefined = undefined;
+
+    constructor(optimal_cost: number | undefined) {
+        this.optimal_cost = optimal_cost;
+    }
+
+    /**
+     * Progresses the algorithm by 1 step while timing it, returning its events
+     */
+    public step(alg: MazeSolvingAlgorithm): SolverEvent[] {
+        const step_start = performance.now();
+        const events = alg.step();
+        this.elapsed += performance.now() - step_start;
+        this.peak_frontier = Math.max(this.peak_frontier, alg.frontier_size());
+        this.finished = alg.search_ended;
+        for (const event of events) this.record(event);
+        return events;
+    }
+
+    private record(event: SolverEvent) {
+        // An agent expands the cell it moves onto, even if it has been there before
+        if (event.type === SolverEventType.CELL_EXPLORED || event.type === SolverEventType.AGENT_MOVED) this.nodes_expanded++;
+        else if (event.type === SolverEventType.CELL_SCANNED) this.cells_scanned++;
+        else if (event.type === SolverEventType.LOOP_DETECTED) this.looped = true;
+        else if (event.type === SolverEventType.ITERATION_STARTED) this.depth_limit = event.depth_limit;
+        else if (event.type === SolverEventType.REPLANNING_STARTED) {
+            this.replans++;
+            this.nodes_expanded_before_replan = this.nodes_expanded;
+            this.path = undefined;
+            this.path_cost = undefined;
+        } else if (event.type === SolverEventType.PATH_FOUND) {
+            this.path = event.path;
+            this.path_cost = event.cost;
+            this.path_leg_ends = event.leg_ends;
+        }
+    }
+
+    /**
+     * Number of moves the found path takes
+     */
+    public path_length() {
+        return this.path === undefined ? undefined : this.path.length - 1;
+    }
+
+    /**
+     * Whether the found path costs as little as the cheapest path, undefined until a path is found or if there is no oracle to compare with
+     */
+    public is_optimal() {
+        if (this.path_cost === undefined || this.optimal_cost === undefined) return undefined;
+        // Costs of diagonal moves are not whole numbers, so equally cheap paths can differ by rounding
+        return this.path_cost <= this.optimal_cost + 1e-9;
+    }
+}
@@ -0,0 +1,90 @@
+import { Coordinate, Maze, MazeCell } from "./maze";
+import { SolverEvent } from "./solving_algorithm";
+export { Timeline, TimelineStep, CellChange };
+
+/**
+ * A change of a cell's search state, undefined meaning the cell had none and only showed its terrain
+ */
+type CellChange = {
+    coord: Coordinate;
+    before: MazeCell | undefined;
+    after: MazeCell | undefined;
+};
+type TimelineStep = {
+    events: SolverEvent[];
+    changes: CellChange[];
+};
+
+/**
+ * Records every search state change a search makes to a maze, one solver step at a time, so that the search can be stepped back and forth exactly.
+ * Terrain is never recorded, only what is drawn over it.
+ */
+class Timeline {
+    readonly maze: Maze;
+    readonly steps: TimelineStep[] = [];
+    /** Number of recorded steps currently applied to the maze */
+    position = 0;
+
+    constructor(maze: Maze) {
+        this.maze = maze;
+    }
+
+    public is_at_end() {
+        return this.position === this.steps.length;
+    }
+
+    /**
+     * Starts recording a new step at the end of the timeline, which the following changes are recorded into
+     */
+    public begin_step(events: SolverEvent[]) {
+        this.seek(this.steps.length);
+        this.steps.push({ events: events, changes: [] });
+        this.position = this.steps.length;
+    }
+
+    public set_cell_type(coord: Coordinate, cell_type: MazeCell) {
+        const before = this.maze.get_search_state(coord);
+        this.maze.set_cell_type(coord, cell_type);
+        this.record(coord, before);
+    }
+
+    public fade_search_state() {
+        const befores = this.maze.search_state.map((column) => column.slice());
+        this.maze.fade_search_state();
+        befores.forEach((column, x) => column.forEach((before, y) => this.record({ x: x, y: y }, before)));
+    }
+
+    private record(coord: Coordinate, before: MazeCell | undefined) {
+        const after = this.maze.get_search_state(coord);
+        if (before === after) return;
+        this.steps[this.steps.length - 1].changes.push({ coord: coord, before: before, after: after });
+    }
+
+    /**
+     * Applies the next recorded step, returning it
+     */
+    public step_forward(): TimelineStep | undefined {
+        const step = this.steps[this.position];
+        if (step === undefined) return undefined;
+        for (const change of step.changes) this.maze.set_search_state(change.coord, change.after);
+        this.position++;
+        return step;
+    }
+
+    /**
+     * Reverts the last applied step, returning it
+     */
+    public step_back(): TimelineStep | undefined {
+        if (this.position === 0) return undefined;
+        this.position--;
+        const step = this.steps[this.position];
+        for (let i = step.changes.length - 1; i >= 0; i--) this.maze.set_search_state(step.changes[i].coord, step.changes[i].before);
+        return step;
+    }
+
+    public seek(position: number) {
+        position = Math.min(Math.max(position, 0), this.steps.length);
+        while (this.position < position) this.step_forward();
+        while (this.position > position) this.step_back();
+    }
+}
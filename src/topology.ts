@@ -0,0 +1,226 @@
+import { Coordinate, Maze, euclidean_distance } from "./maze";
+export { Topology, SquareTopology, DiagonalTopology, HexTopology, TorusTopology };
+
+/**
+ * Decides which cells neighbor each other and how the cells are laid out on a canvas.
+ * Algorithms only ever see the neighbors a topology gives them, so they work the same on every topology.
+ */
+abstract class Topology {
+    /**
+     * Every cell that can be moved to from a cell in a single move, passable or not
+     */
+    public abstract neighbors(maze: Maze, coord: Coordinate): Coordinate[];
+
+    /**
+     * How much longer a move between two neighbors is than a regular move, the terrain cost is multiplied by it
+     */
+    public move_length(maze: Maze, from: Coordinate, to: Coordinate) {
+        return 1;
+    }
+
+    /**
+     * Straight line distance between two cells, which no path between them can be cheaper than
+     */
+    public distance(maze: Maze, coord1: Coordinate, coord2: Coordinate) {
+        return euclidean_distance(coord1, coord2);
+    }
+
+    public canvas_size(maze: Maze, cell_width: number, cell_height: number) {
+        return { width: maze.width * cell_width, height: maze.height * cell_height };
+    }
+
+    /**
+     * Top left corner of the cell on the canvas
+     */
+    public cell_position(coord: Coordinate, cell_width: number, cell_height: number): Coordinate {
+        return { x: coord.x * cell_width, y: coord.y * cell_height };
+    }
+
+    /**
+     * Corners of the cell on the canvas, undefined for cells that are simply cell_width by cell_height rectangles
+     */
+    public cell_shape(coord: Coordinate, cell_width: number, cell_height: number): Coordinate[] | undefined {
+        return undefined;
+    }
+
+    /**
+     * The cell under a point of the canvas, clamped to the maze
+     */
+    public cell_at(maze: Maze, point: Coordinate, cell_width: number, cell_height: number): Coordinate {
+        return {
+            x: Math.min(Math.max(Math.floor(point.x / cell_width), 0), maze.width - 1),
+            y: Math.min(Math.max(Math.floor(point.y / cell_height), 0), maze.height - 1),
+        };
+    }
+}
+
+/**
+ * The original grid, every cell neighbors the 4 cells it shares a side with
+ */
+class SquareTopology extends Topology {
+    public neighbors(maze: Maze, coord: Coordinate) {
+        const neighbors = [];
+        if (coord.x + 1 <= maze.width - 1) neighbors.push({ x: coord.x + 1, y: coord.y });
+        if (coord.y + 1 <= maze.height - 1) neighbors.push({ x: coord.x, y: coord.y + 1 });
+        if (coord.x - 1 >= 0) neighbors.push({ x: coord.x - 1, y: coord.y });
+        if (coord.y - 1 >= 0) neighbors.push({ x: coord.x, y: coord.y - 1 });
+        return neighbors;
+    }
+}
+
+/**
+ * Square grid where cells also neighbor the 4 cells they share a corner with, diagonal moves being √2 times as long.
+ * Without corner cutting a diagonal move is only possible when both cells beside it are passable, so paths cannot squeeze past the corner of a wall.
+ */
+class DiagonalTopology extends SquareTopology {
+    readonly allow_corner_cutting: boolean;
+
+    constructor(allow_corner_cutting: boolean) {
+        super();
+        this.allow_corner_cutting = allow_corner_cutting;
+    }
+
+    public neighbors(maze: Maze, coord: Coordinate) {
+        const neighbors = super.neighbors(maze, coord);
+        for (const [dx, dy] of [
+            [1, 1],
+            [-1, 1],
+            [-1, -1],
+            [1, -1],
+        ]) {
+            const diagonal = { x: coord.x + dx, y: coord.y + dy };
+            if (!maze.is_in_bounds(diagonal)) continue;
+            if (
+                !this.allow_corner_cutting &&
+                (!maze.is_passable({ x: coord.x + dx, y: coord.y }) || !maze.is_passable({ x: coord.x, y: coord.y + dy }))
+            )
+                continue;
+            neighbors.push(diagonal);
+        }
+        return neighbors;
+    }
+
+    public move_length(maze: Maze, from: Coordinate, to: Coordinate) {
+        return from.x !== to.x && from.y !== to.y ? Math.SQRT2 : 1;
+    }
+}
+
+/**
+ * Grid of pointy topped hexagons where every odd row is shifted half a cell to the right, each cell neighbors 6 others
+ */
+class HexTopology extends Topology {
+    public neighbors(maze: Maze, coord: Coordinate) {
+        // The cells above and below a cell lean towards the side its row is shifted to
+        const shift = coord.y % 2 === 0 ? -1 : 0;
+        return [
+            { x: coord.x + 1, y: coord.y },
+            { x: coord.x + shift + 1, y: coord.y + 1 },
+            { x: coord.x + shift, y: coord.y + 1 },
+            { x: coord.x - 1, y: coord.y },
+            { x: coord.x + shift, y: coord.y - 1 },
+            { x: coord.x + shift + 1, y: coord.y - 1 },
+        ].filter((neighbor) => maze.is_in_bounds(neighbor));
+    }
+
+    /**
+     * Number of moves between two cells, measured in cube coordinates where every move changes two of the three axes by 1
+     */
+    public distance(maze: Maze, coord1: Coordinate, coord2: Coordinate) {
+        const q1 = coord1.x - (coord1.y - (coord1.y & 1)) / 2;
+        const q2 = coord2.x - (coord2.y - (coord2.y & 1)) / 2;
+        const dq = q1 - q2;
+        const dr = coord1.y - coord2.y;
+        return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+    }
+
+    private hex_height(cell_height: number) {
+        return (cell_height * 2) / Math.sqrt(3);
+    }
+
+    /** Rows overlap by a quarter of a hexagon's height */
+    private row_height(cell_height: number) {
+        return this.hex_height(cell_height) * 0.75;
+    }
+
+    private cell_center(coord: Coordinate, cell_width: number, cell_height: number) {
+        return {
+            x: (coord.x + 0.5 + (coord.y % 2) / 2) * cell_width,
+            y: this.hex_height(cell_height) / 2 + coord.y * this.row_height(cell_height),
+        };
+    }
+
+    public canvas_size(maze: Maze, cell_width: number, cell_height: number) {
+        return {
+            width: Math.ceil((maze.width + 0.5) * cell_width),
+            height: Math.ceil((maze.height - 1) * this.row_height(cell_height) + this.hex_height(cell_height)),
+        };
+    }
+
+    public cell_position(coord: Coordinate, cell_width: number, cell_height: number) {
+        const center = this.cell_center(coord, cell_width, cell_height);
+        return { x: center.x - cell_width / 2, y: center.y - cell_height / 2 };
+    }
+
+    public cell_shape(coord: Coordinate, cell_width: number, cell_height: number) {
+        const center = this.cell_center(coord, cell_width, cell_height);
+        const half_width = cell_width / 2;
+        const quarter_height = this.hex_height(cell_height) / 4;
+        return [
+            { x: center.x, y: center.y - 2 * quarter_height },
+            { x: center.x + half_width, y: center.y - quarter_height },
+            { x: center.x + half_width, y: center.y + quarter_height },
+            { x: center.x, y: center.y + 2 * quarter_height },
+            { x: center.x - half_width, y: center.y + quarter_height },
+            { x: center.x - half_width, y: center.y - quarter_height },
+        ];
+    }
+
+    /**
+     * The cell whose center is nearest to the point, which is exactly the hexagon the point lies in
+     */
+    public cell_at(maze: Maze, point: Coordinate, cell_width: number, cell_height: number) {
+        const row = Math.floor(point.y / this.row_height(cell_height));
+        let nearest = { x: 0, y: 0 };
+        let nearest_distance = Infinity;
+        for (let j = row - 1; j <= row + 1; j++) {
+            const column = Math.floor(point.x / cell_width - (j % 2) / 2);
+            for (let i = column - 1; i <= column + 1; i++) {
+                const coord = {
+                    x: Math.min(Math.max(i, 0), maze.width - 1),
+                    y: Math.min(Math.max(j, 0), maze.height - 1),
+                };
+                const distance = euclidean_distance(point, this.cell_center(coord, cell_width, cell_height));
+                if (distance >= nearest_distance) continue;
+                nearest = coord;
+                nearest_distance = distance;
+            }
+        }
+        return nearest;
+    }
+}
+
+/**
+ * Square grid whose edges wrap around, so that leaving one side of the maze enters it on the opposite side.
+ * On a maze with several floors each floor wraps around on its own.
+ */
+class TorusTopology extends Topology {
+    public neighbors(maze: Maze, coord: Coordinate) {
+        const floor_start = maze.floor_of(coord) * maze.floor_width;
+        const x = coord.x - floor_start;
+        return [
+            { x: floor_start + ((x + 1) % maze.floor_width), y: coord.y },
+            { x: coord.x, y: (coord.y + 1) % maze.height },
+            { x: floor_start + ((x - 1 + maze.floor_width) % maze.floor_width), y: coord.y },
+            { x: coord.x, y: (coord.y - 1 + maze.height) % maze.height },
+        ];
+    }
+
+    /**
+     * Straight line distance going the short way around each axis
+     */
+    public distance(maze: Maze, coord1: Coordinate, coord2: Coordinate) {
+        const dx = Math.abs(coord1.x - coord2.x);
+        const dy = Math.abs(coord1.y - coord2.y);
+        return euclidean_distance({ x: 0, y: 0 }, { x: Math.min(dx, maze.floor_width - dx), y: Math.min(dy, maze.height - dy) });
+    }
+}
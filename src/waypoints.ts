@@ -0,0 +1,173 @@
+import { Coordinate, Maze, coordinate_equals } from "./maze";
+import { CellInspection, MazeSolvingAlgorithm, SolverEvent, SolverEventType } from "./solving_algorithm";
+import { cheapest_path_cost } from "./statistics";
+export { WaypointSearch, visiting_order, route_cost };
+
+/** Up to this many waypoints every visiting order is tried, above it the order is improved from a greedy guess */
+const brute_force_limit = 8;
+
+/**
+ * Start, the waypoints and end in the order a path should visit them.
+ * Unless optimized the waypoints are visited in their numbered order, otherwise in the order that makes the cheapest route.
+ */
+function visiting_order(maze: Maze, start: Coordinate, end: Coordinate, waypoints: Coordinate[], optimize: boolean) {
+    const stops = [start, ...waypoints, end];
+    if (!optimize || waypoints.length < 2) return stops;
+    const costs = stops.map((from) =>
+        stops.map((to) => (coordinate_equals(from, to) ? 0 : (cheapest_path_cost(maze, from, to) ?? Infinity))),
+    );
+    const order = waypoints.length <= brute_force_limit ? cheapest_order(costs) : improved_greedy_order(costs);
+    return [start, ...order.map((index) => stops[index]), end];
+}
+
+/**
+ * Cost of visiting the stops with the given indices between start, index 0, and end, the last index
+ */
+function order_cost(costs: number[][], order: number[]) {
+    const end = costs.length - 1;
+    let cost = 0;
+    let previous = 0;
+    for (const index of order) {
+        cost += costs[previous][index];
+        previous = index;
+    }
+    return cost + costs[previous][end];
+}
+
+/**
+ * Tries every order of the waypoints, abandoning an order as soon as its beginning costs more than the cheapest complete one
+ */
+function cheapest_order(costs: number[][]) {
+    const waypoints = costs.slice(1, -1).map((_, index) => index + 1);
+    let cheapest = { cost: Infinity, order: waypoints };
+    const extend = (order: number[], cost: number, remaining: number[]) => {
+        if (cost >= cheapest.cost && cheapest.cost !== Infinity) return;
+        if (remaining.length === 0) {
+            const total = cost + costs[order[order.length - 1]][costs.length - 1];
+            if (total < cheapest.cost) cheapest = { cost: total, order: order };
+            return;
+        }
+        for (const next of remaining) {
+            extend(
+                [...order, next],
+                cost + costs[order.length === 0 ? 0 : order[order.length - 1]][next],
+                remaining.filter((index) => index !== next),
+            );
+        }
+    };
+    extend([], 0, waypoints);
+    return cheapest.order;
+}
+
+/**
+ * Visits the nearest unvisited waypoint each time, then reverses parts of that order for as long as doing so makes it cheaper (2-opt)
+ */
+function improved_greedy_order(costs: number[][]) {
+    const remaining = costs.slice(1, -1).map((_, index) => index + 1);
+    const order: number[] = [];
+    let previous = 0;
+    while (remaining.length > 0) {
+        const nearest = remaining.reduce((best, index) => (costs[previous][index] < costs[previous][best] ? index : best));
+        remaining.splice(remaining.indexOf(nearest), 1);
+        order.push(nearest);
+        previous = nearest;
+    }
+
+    let best_cost = order_cost(costs, order);
+    let improved = true;
+    while (improved) {
+        improved = false;
+        for (let i = 0; i < order.length - 1; i++) {
+            for (let j = i + 1; j < order.length; j++) {
+                const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+                const cost = order_cost(costs, candidate);
+                if (cost >= best_cost) continue;
+                order.splice(0, order.length, ...candidate);
+                best_cost = cost;
+                improved = true;
+            }
+        }
+    }
+    return order;
+}
+
+/**
+ * Cost of the cheapest path that visits the stops in the given order, undefined if one of its legs has no path
+ */
+function route_cost(maze: Maze, stops: Coordinate[]) {
+    let cost = 0;
+    for (let leg = 0; leg < stops.length - 1; leg++) {
+        const leg_cost = cheapest_path_cost(maze, stops[leg], stops[leg + 1]);
+        if (leg_cost === undefined) return undefined;
+        cost += leg_cost;
+    }
+    return cost;
+}
+
+/**
+ * Visits a list of stops by searching each leg between two consecutive stops with its own algorithm, one leg after the other.
+ * The path found stitches the legs together, its leg_ends being the index in the path where each leg ends.
+ */
+class WaypointSearch extends MazeSolvingAlgorithm {
+    readonly stops: Coordinate[];
+    readonly create: (maze: Maze, start: Coordinate, end: Coordinate) => MazeSolvingAlgorithm;
+    /** Index of the leg being searched, leg i going from stops[i] to stops[i + 1] */
+    leg = 0;
+    /** The algorithm searching the current leg, undefined until the leg has started */
+    leg_alg: MazeSolvingAlgorithm | undefined = undefined;
+    private readonly leg_paths: Coordinate[][] = [];
+
+    constructor(maze: Maze, stops: Coordinate[], create: (maze: Maze, start: Coordinate, end: Coordinate) => MazeSolvingAlgorithm) {
+        super(maze, stops[0], stops[stops.length - 1]);
+        this.stops = stops;
+        this.create = create;
+    }
+
+    public frontier_size() {
+        return this.leg_alg?.frontier_size() ?? 0;
+    }
+
+    public inspect(coord: Coordinate): CellInspection | undefined {
+        return this.leg_alg?.inspect(coord);
+    }
+
+    public step(): SolverEvent[] {
+        if (this.search_ended) return [];
+
+        const leg_alg = this.leg_alg;
+        if (leg_alg === undefined) {
+            const from = this.stops[this.leg];
+            const to = this.stops[this.leg + 1];
+            this.leg_alg = this.create(this.maze, from, to);
+            return [{ type: SolverEventType.LEG_STARTED, leg: this.leg, from: from, to: to }];
+        }
+
+        const events: SolverEvent[] = [];
+        for (const event of leg_alg.step()) {
+            if (event.type === SolverEventType.NO_PATH) events.push(this.end_not_found());
+            else if (event.type === SolverEventType.PATH_FOUND) events.push(...this.leg_found(event.path));
+            else events.push(event);
+        }
+        return events;
+    }
+
+    /**
+     * Moves on to the next leg, or stitches the legs together once the last one is found
+     */
+    private leg_found(path: Coordinate[]): SolverEvent[] {
+        this.leg_paths.push(path);
+        this.leg++;
+        if (this.leg < this.stops.length - 1) {
+            this.leg_alg = undefined;
+            return [];
+        }
+        const stitched = [this.stops[0]];
+        const leg_ends: number[] = [];
+        for (const leg_path of this.leg_paths) {
+            stitched.push(...leg_path.slice(1));
+            leg_ends.push(stitched.length - 1);
+        }
+        const found = this.path_found(stitched);
+        return [found.type === SolverEventType.PATH_FOUND ? { ...found, leg_ends: leg_ends } : found];
+    }
+}
@@ -0,0 +1,124 @@
+export { ZipEntry, zip_files, crc32 };
+
+type ZipEntry = {
+    /** Path of the file inside the archive, such as frames/frame_00001.png */
+    name: string;
+    data: Uint8Array;
+};
+
+/**
+ * Most files a zip archive without the zip64 extension can hold
+ */
+const max_entries = 0xffff;
+
+const crc_table: number[] = [];
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crc_table.push(c >>> 0);
+}
+
+/**
+ * The CRC-32 checksum zip archives store for every file
+ */
+function crc32(data: Uint8Array) {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crc_table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Little endian fields of the zip headers, written one after the other
+ */
+class HeaderWriter {
+    readonly bytes: Uint8Array;
+    private readonly view: DataView;
+    private offset = 0;
+
+    constructor(length: number) {
+        this.bytes = new Uint8Array(length);
+        this.view = new DataView(this.bytes.buffer);
+    }
+
+    public u16(value: number) {
+        this.view.setUint16(this.offset, value, true);
+        this.offset += 2;
+        return this;
+    }
+
+    public u32(value: number) {
+        this.view.setUint32(this.offset, value >>> 0, true);
+        this.offset += 4;
+        return this;
+    }
+
+    public raw(data: Uint8Array) {
+        this.bytes.set(data, this.offset);
+        this.offset += data.length;
+        return this;
+    }
+}
+
+/**
+ * Packs files into a zip archive without compressing them, which suits files such as png images that are compressed already.
+ * Returns undefined if there are more files than an archive can hold.
+ */
+function zip_files(entries: ZipEntry[]): Blob | undefined {
+    if (entries.length > max_entries) return undefined;
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const central_directory: Uint8Array[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        // Version 2.0, names encoded as utf-8, stored without compression, dated 1980-01-01 00:00
+        const local_header = new HeaderWriter(30 + name.length)
+            .u32(0x04034b50)
+            .u16(20)
+            .u16(0x0800)
+            .u16(0)
+            .u16(0)
+            .u16(0x21)
+            .u32(crc)
+            .u32(entry.data.length)
+            .u32(entry.data.length)
+            .u16(name.length)
+            .u16(0)
+            .raw(name);
+        central_directory.push(
+            new HeaderWriter(46 + name.length)
+                .u32(0x02014b50)
+                .u16(20)
+                .u16(20)
+                .u16(0x0800)
+                .u16(0)
+                .u16(0)
+                .u16(0x21)
+                .u32(crc)
+                .u32(entry.data.length)
+                .u32(entry.data.length)
+                .u16(name.length)
+                .u16(0)
+                .u16(0)
+                .u16(0)
+                .u16(0)
+                .u32(0)
+                .u32(offset)
+                .raw(name).bytes,
+        );
+        parts.push(local_header.bytes, entry.data);
+        offset += local_header.bytes.length + entry.data.length;
+    }
+    const directory_size = central_directory.reduce((size, header) => size + header.length, 0);
+    const end_record = new HeaderWriter(22)
+        .u32(0x06054b50)
+        .u16(0)
+        .u16(0)
+        .u16(entries.length)
+        .u16(entries.length)
+        .u32(directory_size)
+        .u32(offset)
+        .u16(0);
+    return new Blob([...parts, ...central_directory, end_record.bytes], { type: "application/zip" });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { Benchmark, benchmark, benchmark_csv, benchmark_maze_count } from "../src/benchmark";
+import { RecursiveBacktracker } from "../src/maze_generator";
+import { RaceContestant } from "../src/race";
+import { seeded_random } from "../src/random";
+import { ASTAR, BFS, DFS } from "../src/solving_algorithm";
+import { SquareTopology } from "../src/topology";
+
+const contestants: RaceContestant[] = [
+    { name: "BFS", create: (maze, start, end) => new BFS(maze, start, end) },
+    { name: "DFS", create: (maze, start, end) => new DFS(maze, start, end) },
+    { name: "A*", create: (maze, start, end) => new ASTAR(maze, start, end) },
+];
+
+function generators(seed: number) {
+    const random = seeded_random(seed);
+    return () => new RecursiveBacktracker({ grid_width: 15, grid_height: 11 }, random);
+}
+
+describe("Benchmark", () => {
+    it("runs every contestant on every maze", () => {
+        const rows = benchmark(contestants, generators(7), 4, new SquareTopology());
+        expect(rows.map((row) => row.name)).toEqual(["BFS", "DFS", "A*"]);
+        for (const row of rows) {
+            expect(row.runs).toBe(4);
+            expect(row.paths_found).toBe(4);
+        }
+        // Every maze has a single path from start to end, which every algorithm finds
+        expect(rows[0].average_path_length).toBe(rows[1].average_path_length);
+        expect(rows[0].optimal_paths).toBe(4);
+        expect(rows[2].optimal_paths).toBe(4);
+    });
+
+    it("gets as far in chunks as it gets at once", () => {
+        const chunked = new Benchmark(contestants, generators(7), 4, new SquareTopology());
+        const progress: number[] = [];
+        while (!chunked.run_for(0.05)) progress.push(chunked.runs_done());
+        expect(chunked.runs_done()).toBe(chunked.total_runs());
+        expect(progress).toEqual([...progress].sort((a, b) => a - b));
+        const at_once = benchmark(contestants, generators(7), 4, new SquareTopology());
+        const without_time = (rows: typeof at_once) => rows.map((row) => ({ ...row, average_time: 0 }));
+        expect(without_time(chunked.rows())).toEqual(without_time(at_once));
+    });
+
+    it("writes its rows as csv", () => {
+        const csv = benchmark_csv([{ ...benchmark(contestants.slice(0, 1), generators(1), 1, new SquareTopology())[0], name: 'say "hi"' }]);
+        expect(csv.split("\n")[1]).toMatch(/^"say ""hi""",1,1,1,/);
+    });
+});
+
+describe("benchmark_maze_count", () => {
+    it("turns anything into a whole number of mazes between 1 and 1000", () => {
+        expect(benchmark_maze_count(20)).toBe(20);
+        expect(benchmark_maze_count(2.7)).toBe(2);
+        expect(benchmark_maze_count(NaN)).toBe(1);
+        expect(benchmark_maze_count(0)).toBe(1);
+        expect(benchmark_maze_count(-5)).toBe(1);
+        expect(benchmark_maze_count(1e9)).toBe(1000);
+        expect(benchmark_maze_count(Infinity)).toBe(1000);
+    });
+});
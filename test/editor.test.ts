@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { Maze, MazeCell } from "../src/maze";
+import { EditHistory, MazeVersion, line_cells, rectangle_cells } from "../src/editor";
+
+function open_maze() {
+    const maze = new Maze({ grid_width: 4, grid_height: 3 });
+    maze.fill(MazeCell.FLOOR);
+    maze.start = { x: 0, y: 0 };
+    maze.end = { x: 3, y: 2 };
+    return maze;
+}
+
+function version(maze: Maze, seed = 1): MazeVersion {
+    return { maze: maze, seed: seed, edited: false };
+}
+
+describe("EditHistory", () => {
+    it("undoes and redoes a whole stroke at once", () => {
+        const maze = open_maze();
+        const history = new EditHistory(10);
+        history.begin_edit(version(maze));
+        history.set_cell_type(maze, { x: 1, y: 0 }, MazeCell.WALL);
+        history.set_cell_type(maze, { x: 1, y: 1 }, MazeCell.MUD);
+        expect(history.end_edit(maze)).toBe(true);
+
+        const undone = history.undo(version(maze));
+        expect(undone?.version.maze).toBe(maze);
+        expect(undone?.changed).toEqual(
+            expect.arrayContaining([
+                { x: 1, y: 0 },
+                { x: 1, y: 1 },
+            ]),
+        );
+        expect(maze.get_terrain({ x: 1, y: 0 })).toBe(MazeCell.FLOOR);
+        expect(maze.get_terrain({ x: 1, y: 1 })).toBe(MazeCell.FLOOR);
+        expect(history.can_undo()).toBe(false);
+
+        const redone = history.redo(version(maze));
+        expect(redone?.version.edited).toBe(true);
+        expect(maze.get_terrain({ x: 1, y: 0 })).toBe(MazeCell.WALL);
+        expect(maze.get_terrain({ x: 1, y: 1 })).toBe(MazeCell.MUD);
+    });
+
+    it("puts moved markers back", () => {
+        const maze = open_maze();
+        const history = new EditHistory(10);
+        history.begin_edit(version(maze));
+        maze.start = { x: 2, y: 1 };
+        maze.waypoints.push({ x: 1, y: 2 });
+        history.end_edit(maze);
+
+        history.undo(version(maze));
+        expect(maze.start).toEqual({ x: 0, y: 0 });
+        expect(maze.waypoints).toEqual([]);
+        history.redo(version(maze));
+        expect(maze.start).toEqual({ x: 2, y: 1 });
+        expect(maze.waypoints).toEqual([{ x: 1, y: 2 }]);
+    });
+
+    it("does not remember an edit that changed nothing", () => {
+        const maze = open_maze();
+        const history = new EditHistory(10);
+        history.begin_edit(version(maze));
+        history.set_cell_type(maze, { x: 1, y: 0 }, MazeCell.FLOOR);
+        expect(history.end_edit(maze)).toBe(false);
+        expect(history.can_undo()).toBe(false);
+    });
+
+    it("swaps whole mazes back and forth", () => {
+        const before = version(open_maze(), 1);
+        const after = version(open_maze(), 2);
+        const history = new EditHistory(10);
+        history.maze_replaced(before, after);
+        expect(history.undo(after)).toEqual({ version: before, changed: [] });
+        expect(history.redo(before)).toEqual({ version: after, changed: [] });
+    });
+
+    it("forgets the redo stack once a new edit is made", () => {
+        const maze = open_maze();
+        const history = new EditHistory(10);
+        history.begin_edit(version(maze));
+        history.set_cell_type(maze, { x: 1, y: 0 }, MazeCell.WALL);
+        history.end_edit(maze);
+        history.undo(version(maze));
+        history.begin_edit(version(maze));
+        history.set_cell_type(maze, { x: 2, y: 0 }, MazeCell.WALL);
+        history.end_edit(maze);
+        expect(history.can_redo()).toBe(false);
+    });
+
+    it("forgets the oldest edits once they keep more cells than its limit", () => {
+        const maze = open_maze();
+        const history = new EditHistory(2);
+        for (let i = 0; i < 3; i++) {
+            history.begin_edit(version(maze));
+            history.set_cell_type(maze, { x: i, y: 1 }, MazeCell.WALL);
+            history.end_edit(maze);
+        }
+        history.undo(version(maze));
+        history.undo(version(maze));
+        expect(history.undo(version(maze))).toBeUndefined();
+        expect(maze.get_terrain({ x: 0, y: 1 })).toBe(MazeCell.WALL);
+        expect(maze.get_terrain({ x: 1, y: 1 })).toBe(MazeCell.FLOOR);
+    });
+
+    it("counts every cell of a replaced maze against its limit", () => {
+        // Each replacement keeps both 4x3 mazes, 24 cells
+        const history = new EditHistory(50);
+        const versions = [1, 2, 3, 4].map((seed) => version(open_maze(), seed));
+        for (let i = 1; i < versions.length; i++) history.maze_replaced(versions[i - 1], versions[i]);
+        expect(history.undo(versions[3])?.version).toBe(versions[2]);
+        expect(history.undo(versions[2])?.version).toBe(versions[1]);
+        expect(history.undo(versions[1])).toBeUndefined();
+    });
+
+    it("remembers the most recent edit even if it keeps more cells than its limit", () => {
+        const history = new EditHistory(10);
+        const before = version(open_maze(), 1);
+        const after = version(open_maze(), 2);
+        history.maze_replaced(before, after);
+        expect(history.undo(after)?.version).toBe(before);
+    });
+});
+
+describe("shapes", () => {
+    it("draws lines without gaps", () => {
+        expect(line_cells({ x: 0, y: 0 }, { x: 3, y: 1 })).toEqual([
+            { x: 0, y: 0 },
+            { x: 1, y: 0 },
+            { x: 2, y: 1 },
+            { x: 3, y: 1 },
+        ]);
+    });
+
+    it("only draws the border of a rectangle unless it is filled", () => {
+        expect(rectangle_cells({ x: 2, y: 2 }, { x: 0, y: 0 }, false)).toHaveLength(8);
+        expect(rectangle_cells({ x: 2, y: 2 }, { x: 0, y: 0 }, true)).toHaveLength(9);
+    });
+});
@@ -0,0 +1,36 @@
+import { expect } from "vitest";
+import { Coordinate, Maze } from "../src/maze";
+import { ImportResult, maze_from_ascii } from "../src/maze_file";
+import { MazeSolvingAlgorithm, SolverEventType } from "../src/solving_algorithm";
+export { SolverClass, imported, solve, expect_valid_path };
+
+type SolverClass = new (maze: Maze, start: Coordinate, end: Coordinate) => MazeSolvingAlgorithm;
+
+/**
+ * The maze in a file, given as its text or as rows of ascii, failing the test if the file cannot be read
+ */
+function imported(text: string | string[], parse: (text: string) => ImportResult = maze_from_ascii) {
+    const result = parse(Array.isArray(text) ? text.join("\n") : text);
+    if ("error" in result) throw new Error(result.error);
+    return result.maze;
+}
+
+/**
+ * The path the solver ends with, null if it ends without one
+ */
+function solve(solver: SolverClass, maze: Maze) {
+    const events = [...new solver(maze, maze.start!, maze.end!).solve()];
+    const last = events[events.length - 1];
+    if (last.type === SolverEventType.NO_PATH) return null;
+    if (last.type !== SolverEventType.PATH_FOUND) throw new Error("The search did not end with its path");
+    return last;
+}
+
+function expect_valid_path(maze: Maze, path: Coordinate[]) {
+    expect(path[0]).toEqual(maze.start);
+    expect(path[path.length - 1]).toEqual(maze.end);
+    path.forEach((coord, index) => {
+        expect(maze.is_passable(coord)).toBe(true);
+        if (index > 0) expect(maze.get_neighboring_coordinates(path[index - 1])).toContainEqual(coord);
+    });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { Coordinate, Maze, MazeCell } from "../src/maze";
+import { DStarLite, LPASTAR } from "../src/incremental_search";
+import { SolverEventType } from "../src/solving_algorithm";
+import { cheapest_path_cost } from "../src/statistics";
+import { DiagonalTopology } from "../src/topology";
+import { imported } from "./helpers";
+
+/**
+ * Cost of the path the search ends with, undefined if it ends without one
+ */
+function run(alg: LPASTAR) {
+    let cost: number | undefined = undefined;
+    while (!alg.search_ended) {
+        for (const event of alg.step()) {
+            if (event.type === SolverEventType.PATH_FOUND) cost = event.cost;
+            else if (event.type === SolverEventType.NO_PATH) cost = undefined;
+        }
+    }
+    return cost;
+}
+
+function edit(maze: Maze, alg: LPASTAR, changes: [Coordinate, MazeCell][]) {
+    for (const [coord, cell_type] of changes) maze.set_cell_type(coord, cell_type);
+    alg.cells_changed(changes.map(([coord]) => coord));
+}
+
+describe.each([
+    ["LPA*", LPASTAR],
+    ["D* Lite", DStarLite],
+])("%s", (name, solver) => {
+    it("repairs its path after walls are added and removed", () => {
+        const maze = imported(["#######", "#S...E#", "#.....#", "#######"]);
+        const alg = new solver(maze, maze.start!, maze.end!);
+        expect(run(alg)).toBe(4);
+        edit(maze, alg, [[{ x: 3, y: 1 }, MazeCell.WALL]]);
+        expect(run(alg)).toBe(6);
+        edit(maze, alg, [[{ x: 3, y: 2 }, MazeCell.WALL]]);
+        expect(run(alg)).toBeUndefined();
+        edit(maze, alg, [[{ x: 3, y: 1 }, MazeCell.FLOOR]]);
+        expect(run(alg)).toBe(4);
+    });
+
+    it("follows the end when it moves", () => {
+        const maze = imported(["#######", "#S...E#", "#.....#", "#######"]);
+        const alg = new solver(maze, maze.start!, maze.end!);
+        run(alg);
+        alg.move_end({ x: 2, y: 2 });
+        expect(run(alg)).toBe(2);
+    });
+
+    // Diagonal moves cost the square root of 2, so estimates that are equal can differ in their last digit depending on how they were added up
+    it("repairs its path on a diagonal maze with several floors as well as a new search finds it", () => {
+        const floors = [
+            [".g.#gg", "=.#.gg", "#.#...", ".g...."],
+            ["S...#.", "....==", "=.=g.=", ".....E"],
+            [".#g#.#", ".=#g.g", "#=g=g.", "#g.==g"],
+        ];
+        const maze = imported(floors.map((rows) => rows.join("\n")).join("\n\n"));
+        maze.topology = new DiagonalTopology(false);
+        const alg = new solver(maze, maze.start!, maze.end!);
+        expect(run(alg)).toBeCloseTo(cheapest_path_cost(maze, maze.start!, maze.end!)!);
+        edit(maze, alg, [
+            [{ x: 17, y: 3 }, MazeCell.FLOOR],
+            [{ x: 7, y: 1 }, MazeCell.FLOOR],
+            [{ x: 1, y: 2 }, MazeCell.FLOOR],
+        ]);
+        expect(run(alg)).toBeCloseTo(cheapest_path_cost(maze, maze.start!, maze.end!)!);
+        edit(maze, alg, [
+            [{ x: 9, y: 1 }, MazeCell.GRASS],
+            [{ x: 14, y: 0 }, MazeCell.GRASS],
+        ]);
+        expect(run(alg)).toBeCloseTo(cheapest_path_cost(maze, maze.start!, maze.end!)!);
+    });
+});
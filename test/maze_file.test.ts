@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { MazeCell } from "../src/maze";
+import { ascii_export_warning, maze_from_ascii, maze_from_json, maze_to_ascii, maze_to_json } from "../src/maze_file";
+import { DiagonalTopology, HexTopology, SquareTopology } from "../src/topology";
+import { imported } from "./helpers";
+
+const ascii = ["#####", "#S.g#", "#=#m#", "#0.E#", "#####", "", "#####", "#..0#", "#=#.#", "#...#", "#####", ""].join("\n");
+
+describe("maze_from_ascii", () => {
+    it("reads terrain, markers, portals and floors", () => {
+        const maze = imported(ascii);
+        expect(maze.floors).toBe(2);
+        expect(maze.floor_width).toBe(5);
+        expect(maze.height).toBe(5);
+        expect(maze.start).toEqual({ x: 1, y: 1 });
+        expect(maze.end).toEqual({ x: 3, y: 3 });
+        expect(maze.portals).toEqual([
+            { x: 8, y: 1 },
+            { x: 1, y: 3 },
+        ]);
+        expect(maze.get_terrain({ x: 3, y: 1 })).toBe(MazeCell.GRASS);
+        expect(maze.get_terrain({ x: 3, y: 2 })).toBe(MazeCell.MUD);
+        expect(maze.get_terrain({ x: 6, y: 2 })).toBe(MazeCell.STAIRS);
+    });
+
+    it("writes back the text it was read from", () => {
+        expect(maze_to_ascii(imported(ascii))).toBe(ascii);
+    });
+
+    it("explains what is wrong with a maze it cannot read", () => {
+        expect(maze_from_ascii("#S.E#\n#..#\n")).toEqual({ error: "Row 2 is 4 cells wide but row 1 is 5 cells wide" });
+        expect(maze_from_ascii("#S.x#\n")).toEqual({ error: "Unknown character 'x' on row 1, column 4" });
+        expect(maze_from_ascii("#S..#\n")).toEqual({ error: "The maze has no end (E)" });
+        expect(maze_from_ascii("#SS.E#\n")).toEqual({ error: "There is a second start (S) on row 1, column 3" });
+        expect(maze_from_ascii("S0.1E\n..1..\n")).toEqual({ error: "Portal 0 has no partner" });
+    });
+});
+
+describe("maze json", () => {
+    it("keeps the maze and its terrain costs", () => {
+        const maze = imported(ascii);
+        maze.terrain_costs.set(MazeCell.MUD, 7);
+        const result = maze_from_json(maze_to_json(maze));
+        if ("error" in result) throw new Error(result.error);
+        expect(maze_to_ascii(result.maze)).toBe(ascii);
+        expect(result.terrain_costs?.get(MazeCell.MUD)).toBe(7);
+    });
+
+    it("keeps the topology", () => {
+        const maze = imported(ascii);
+        maze.topology = new DiagonalTopology(true);
+        const result = maze_from_json(maze_to_json(maze));
+        if ("error" in result) throw new Error(result.error);
+        expect(result.topology).toBeInstanceOf(DiagonalTopology);
+        expect((result.topology as DiagonalTopology).allow_corner_cutting).toBe(true);
+        expect(result.maze.topology).toBe(result.topology);
+        maze.topology = new HexTopology();
+        expect(imported(maze_to_json(maze), maze_from_json).topology).toBeInstanceOf(HexTopology);
+    });
+
+    it("reads documents without a topology as mazes on the current one", () => {
+        const document = { version: 3, width: 3, height: 1, start: { x: 0, y: 0 }, end: { x: 2, y: 0 }, rows: ["..."] };
+        const result = maze_from_json(JSON.stringify(document));
+        if ("error" in result) throw new Error(result.error);
+        expect(result.topology).toBeUndefined();
+        expect(result.maze.topology).toBeInstanceOf(SquareTopology);
+    });
+
+    it("reads version 1 documents as mazes with a single floor", () => {
+        const document = { version: 1, width: 3, height: 1, start: { x: 0, y: 0 }, end: { x: 2, y: 0 }, rows: ["..."] };
+        const maze = imported(JSON.stringify(document), maze_from_json);
+        expect(maze.floors).toBe(1);
+        expect(maze_to_ascii(maze)).toBe("S.E\n");
+    });
+
+    it("rejects documents it cannot read", () => {
+        expect(maze_from_json("{")).toMatchObject({ error: expect.stringContaining("not valid json") });
+        expect(maze_from_json('{"version": 99, "rows": []}')).toEqual({
+            error: "Version 99 mazes are not supported, only versions 1 to 4",
+        });
+        const outside = { version: 1, width: 3, height: 1, start: { x: 5, y: 0 }, end: { x: 2, y: 0 }, rows: ["..."] };
+        expect(maze_from_json(JSON.stringify(outside))).toEqual({ error: "The start is not a coordinate within the maze" });
+        const unknown = { ...outside, version: 4, start: { x: 0, y: 0 }, topology: "cube" };
+        expect(maze_from_json(JSON.stringify(unknown))).toEqual({ error: 'There is no topology called "cube"' });
+    });
+});
+
+describe("markers", () => {
+    function marked_maze() {
+        const maze = imported(ascii);
+        maze.waypoints.push({ x: 2, y: 1 }, { x: 7, y: 3 });
+        maze.agents.push({ x: 6, y: 1 }, { x: 8, y: 3 }, { x: 2, y: 3 });
+        return maze;
+    }
+
+    it("keeps waypoints and agents in json", () => {
+        const maze = imported(maze_to_json(marked_maze()), maze_from_json);
+        expect(maze.waypoints).toEqual([
+            { x: 2, y: 1 },
+            { x: 7, y: 3 },
+        ]);
+        expect(maze.agents).toEqual([
+            { x: 6, y: 1 },
+            { x: 8, y: 3 },
+            { x: 2, y: 3 },
+        ]);
+    });
+
+    it("rejects markers sharing a cell", () => {
+        const document = JSON.parse(maze_to_json(marked_maze()));
+        document.agents.push({ x: 2, y: 1 });
+        expect(maze_from_json(JSON.stringify(document))).toEqual({
+            error: "The agent at (2, 1) shares its cell with start, end or another marker",
+        });
+        document.agents = "everywhere";
+        expect(maze_from_json(JSON.stringify(document))).toEqual({ error: "The agents should be a list of coordinates" });
+    });
+
+    it("warns about what ascii leaves out", () => {
+        expect(ascii_export_warning(imported(ascii))).toBeUndefined();
+        expect(ascii_export_warning(marked_maze())).toBe(
+            "ASCII files cannot hold the waypoints and agents of this maze, export JSON to keep them",
+        );
+    });
+});
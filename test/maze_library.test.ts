@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { MazeCell } from "../src/maze";
+import { maze_from_json, maze_to_ascii } from "../src/maze_file";
+import { MazeLibrary } from "../src/maze_library";
+import { DiagonalTopology } from "../src/topology";
+import { imported } from "./helpers";
+
+/**
+ * Storage kept in a map, like the browser's but forgotten with the test
+ */
+class MemoryStorage implements Storage {
+    private readonly items = new Map<string, string>();
+
+    get length() {
+        return this.items.size;
+    }
+
+    clear() {
+        this.items.clear();
+    }
+
+    getItem(key: string) {
+        return this.items.get(key) ?? null;
+    }
+
+    key(index: number) {
+        return [...this.items.keys()][index] ?? null;
+    }
+
+    removeItem(key: string) {
+        this.items.delete(key);
+    }
+
+    setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+}
+
+describe("MazeLibrary", () => {
+    it("loads a saved maze with its markers, terrain costs and topology", () => {
+        const maze = imported(["#######", "#S.g.0#", "#.#m#.#", "#0..wE#", "#######"]);
+        maze.waypoints.push({ x: 2, y: 1 });
+        maze.agents.push({ x: 1, y: 2 }, { x: 3, y: 3 });
+        maze.terrain_costs.set(MazeCell.WATER, 9);
+        maze.topology = new DiagonalTopology(false);
+        const library = new MazeLibrary(new MemoryStorage());
+        const saved = library.save(" first ", maze, "thumbnail");
+        if ("error" in saved) throw new Error(saved.error);
+        expect(saved.mazes.map((other) => other.name)).toEqual(["first"]);
+
+        const result = maze_from_json(library.get("first")!.maze);
+        if ("error" in result) throw new Error(result.error);
+        const loaded = result.maze;
+        expect(maze_to_ascii(loaded)).toBe(maze_to_ascii(maze));
+        expect(loaded.waypoints).toEqual(maze.waypoints);
+        expect(loaded.portals).toEqual(maze.portals);
+        expect(loaded.agents).toEqual(maze.agents);
+        expect(result.terrain_costs?.get(MazeCell.WATER)).toBe(9);
+        expect(result.topology).toBeInstanceOf(DiagonalTopology);
+        expect(loaded.get_neighboring_coordinates({ x: 4, y: 2 })).toEqual(maze.get_neighboring_coordinates({ x: 4, y: 2 }));
+    });
+
+    it("renames and removes saved mazes, keeping names unique", () => {
+        const maze = imported(["S.E"]);
+        const library = new MazeLibrary(new MemoryStorage());
+        library.save("a", maze, "");
+        library.save("b", maze, "");
+        expect(library.rename("a", "b")).toEqual({ error: "There already is a maze called b" });
+        expect(library.rename("missing", "c")).toEqual({ error: "There is no maze called missing" });
+        library.rename("a", "c");
+        const removed = library.remove("b");
+        if ("error" in removed) throw new Error(removed.error);
+        expect(removed.mazes.map((saved) => saved.name)).toEqual(["c"]);
+        expect(library.save("   ", maze, "")).toEqual({ error: "Give the maze a name" });
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { Coordinate, Maze, coordinate_equals } from "../src/maze";
+import {
+    AgentGoal,
+    ConflictType,
+    PlannerType,
+    agent_goals,
+    find_conflicts,
+    makespan,
+    plan_agents,
+    position_at,
+    sum_of_costs,
+} from "../src/multi_agent";
+import { imported } from "./helpers";
+
+/** A corridor with a bay in its middle, where one of two agents swapping ends has to step aside */
+const corridor = ["#######", "#S...E#", "###.###", "#######"];
+
+function corridor_maze(): Maze {
+    const maze = imported(corridor);
+    maze.agents = [
+        { x: 1, y: 1 },
+        { x: 5, y: 1 },
+        { x: 5, y: 1 },
+        { x: 1, y: 1 },
+    ];
+    return maze;
+}
+
+function planned(maze: Maze, type: PlannerType) {
+    const result = plan_agents(maze, agent_goals(maze), type);
+    if ("error" in result) throw new Error(result.error);
+    return result;
+}
+
+function expect_valid_plans(maze: Maze, agents: AgentGoal[], plans: Coordinate[][]) {
+    plans.forEach((plan, index) => {
+        expect(plan[0]).toEqual(agents[index].start);
+        expect(plan[plan.length - 1]).toEqual(agents[index].goal);
+        plan.forEach((coord, time) => {
+            expect(maze.is_passable(coord)).toBe(true);
+            const previous = plan[time - 1];
+            if (previous !== undefined && !coordinate_equals(previous, coord))
+                expect(maze.get_neighboring_coordinates(previous)).toContainEqual(coord);
+        });
+    });
+}
+
+describe("find_conflicts", () => {
+    it("finds agents on the same cell and agents swapping cells", () => {
+        const a = [
+            { x: 0, y: 0 },
+            { x: 1, y: 0 },
+            { x: 2, y: 0 },
+        ];
+        const b = [
+            { x: 2, y: 0 },
+            { x: 1, y: 0 },
+        ];
+        const c = [
+            { x: 1, y: 0 },
+            { x: 0, y: 0 },
+        ];
+        expect(find_conflicts([a, b])).toEqual([{ type: ConflictType.VERTEX, agents: [0, 1], coord: { x: 1, y: 0 }, time: 1 }]);
+        expect(find_conflicts([a, c])).toEqual([
+            { type: ConflictType.SWAP, agents: [0, 1], from: { x: 0, y: 0 }, coord: { x: 1, y: 0 }, time: 1 },
+        ]);
+    });
+
+    it("counts an agent that reached its goal as staying there", () => {
+        const waiting = [{ x: 2, y: 0 }];
+        const arriving = [
+            { x: 0, y: 0 },
+            { x: 1, y: 0 },
+            { x: 2, y: 0 },
+        ];
+        expect(find_conflicts([waiting, arriving])).toMatchObject([{ type: ConflictType.VERTEX, time: 2 }]);
+        expect(position_at(waiting, 5)).toEqual({ x: 2, y: 0 });
+    });
+
+    it("stops at the first conflict if asked to", () => {
+        const a = [
+            { x: 0, y: 0 },
+            { x: 0, y: 0 },
+        ];
+        expect(find_conflicts([a, a, a], true)).toHaveLength(1);
+        expect(find_conflicts([a, a, a])).toHaveLength(6);
+    });
+});
+
+describe("plan_agents", () => {
+    it("lets independent plans collide", () => {
+        const maze = corridor_maze();
+        const result = planned(maze, PlannerType.INDEPENDENT);
+        expect_valid_plans(maze, agent_goals(maze), result.plans);
+        expect(sum_of_costs(result.plans)).toBe(8);
+        expect(result.conflicts.length).toBeGreaterThan(0);
+    });
+
+    it("has conflict-based search step aside into the bay", () => {
+        const maze = corridor_maze();
+        const cbs = planned(maze, PlannerType.CBS);
+        expect_valid_plans(maze, agent_goals(maze), cbs.plans);
+        expect(find_conflicts(cbs.plans)).toEqual([]);
+        expect(cbs.plans.some((plan) => plan.some((coord) => coord.y === 2))).toBe(true);
+        expect(cbs.nodes_expanded).toBeGreaterThan(1);
+        expect(sum_of_costs(cbs.plans)).toBeGreaterThan(8);
+        expect(makespan(cbs.plans)).toBeGreaterThan(4);
+    });
+
+    it("has prioritized planning fail where the first agent blocks the second one's only way", () => {
+        const maze = corridor_maze();
+        expect(plan_agents(maze, agent_goals(maze), PlannerType.PRIORITIZED)).toEqual({
+            error: "Agent 2 found no way around the agents planned before it",
+        });
+    });
+
+    it("has prioritized planning avoid the agents planned before", () => {
+        const maze = corridor_maze();
+        maze.agents = [
+            { x: 1, y: 1 },
+            { x: 5, y: 1 },
+            { x: 4, y: 1 },
+            { x: 3, y: 2 },
+        ];
+        const result = planned(maze, PlannerType.PRIORITIZED);
+        expect_valid_plans(maze, agent_goals(maze), result.plans);
+        expect(find_conflicts(result.plans)).toEqual([]);
+    });
+
+    it("reports an agent that cannot reach its goal", () => {
+        const maze = corridor_maze();
+        maze.agents.push({ x: 3, y: 2 }, { x: 0, y: 0 });
+        expect(plan_agents(maze, agent_goals(maze), PlannerType.CBS)).toEqual({ error: "Agent 3 cannot reach its goal" });
+    });
+});
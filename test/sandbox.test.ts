@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { CustomSolver, SandboxReply, SandboxRequest, SandboxWorker, example_step_function, run_sandbox_worker } from "../src/sandbox";
+import { SolverEventType } from "../src/solving_algorithm";
+import { imported } from "./helpers";
+
+type WorkerScope = Parameters<typeof run_sandbox_worker>[0] & { [name: string]: unknown };
+
+/**
+ * Runs the worker the way a browser would, from the source of run_sandbox_worker and with every message arriving later and copied
+ */
+class FakeWorker implements SandboxWorker {
+    onmessage: ((event: MessageEvent<SandboxReply>) => void) | null = null;
+    terminated = false;
+    readonly scope: WorkerScope;
+    /** How the scope sends messages to the page, which the worker takes away from the scope */
+    readonly post_to_page: (message: unknown) => void;
+
+    constructor(answers = true) {
+        this.post_to_page = (message) => {
+            if (answers) this.deliver(() => this.onmessage?.({ data: structuredClone(message) } as MessageEvent<SandboxReply>));
+        };
+        this.scope = {
+            onmessage: null,
+            postMessage: this.post_to_page,
+            fetch: () => "fetched",
+            importScripts: () => "imported",
+        };
+        new Function("return (" + run_sandbox_worker.toString() + ");")()(this.scope);
+    }
+
+    postMessage(message: SandboxRequest) {
+        this.deliver(() => this.scope.onmessage?.({ data: structuredClone(message) } as MessageEvent<SandboxRequest>));
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+
+    private deliver(receive: () => void) {
+        setTimeout(() => {
+            if (!this.terminated) receive();
+        }, 0);
+    }
+}
+
+const maze_rows = ["#######", "#S#...#", "#...#E#", "#######"];
+
+/**
+ * Steps the solver until its search ends, waiting whenever it waits for its worker, and returns the last event with the errors reported
+ */
+function run(source: string, worker: FakeWorker, step_timeout = 1000) {
+    const maze = imported(maze_rows);
+    const errors: string[] = [];
+    const alg = new CustomSolver(
+        maze,
+        maze.start!,
+        maze.end!,
+        source,
+        () => worker,
+        (message) => errors.push(message),
+        step_timeout,
+    );
+    return new Promise<{ last: ReturnType<CustomSolver["step"]>[number] | undefined; errors: string[] }>((resolve) => {
+        let last: ReturnType<CustomSolver["step"]>[number] | undefined = undefined;
+        const take_steps = () => {
+            for (const event of alg.step()) last = event;
+            if (alg.search_ended) resolve({ last: last, errors: errors });
+            else setTimeout(take_steps, 1);
+        };
+        take_steps();
+    });
+}
+
+describe("CustomSolver", () => {
+    it("finds the shortest path with the example step function", async () => {
+        const worker = new FakeWorker();
+        const { last, errors } = await run(example_step_function, worker);
+        expect(errors).toEqual([]);
+        expect(last?.type).toBe(SolverEventType.PATH_FOUND);
+        if (last?.type === SolverEventType.PATH_FOUND) expect(last.path.length - 1).toBe(7);
+        expect(worker.terminated).toBe(true);
+    });
+
+    it("reports code that does not compile", async () => {
+        const { last, errors } = await run("function step(maze, search) {", new FakeWorker());
+        expect(last?.type).toBe(SolverEventType.NO_PATH);
+        expect(errors[0]).toMatch(/^The code does not compile: SyntaxError/);
+    });
+
+    it("reports what the step function throws and paths that do not lead through the maze", async () => {
+        expect((await run("function step() { throw new Error('oops'); }", new FakeWorker())).errors).toEqual(["Error: oops"]);
+        const wall = "function step(maze, search) { search.found([maze.start, { x: 2, y: 1 }, maze.end]); }";
+        expect((await run(wall, new FakeWorker())).errors).toEqual(["Error: The path goes through the wall at (2, 1)"]);
+        const outside = "function step(maze, search) { search.expand({ x: 40, y: 1 }); }";
+        expect((await run(outside, new FakeWorker())).errors).toEqual(["RangeError: (40, 1) is outside the maze"]);
+    });
+
+    it("stops a worker that does not answer in time", async () => {
+        const worker = new FakeWorker(false);
+        const { last, errors } = await run(example_step_function, worker, 20);
+        expect(last?.type).toBe(SolverEventType.NO_PATH);
+        expect(errors).toEqual(["A step took longer than 20 ms, so the step function was stopped"]);
+        expect(worker.terminated).toBe(true);
+    });
+
+    it("reports a worker the browser would not start", async () => {
+        const maze = imported(maze_rows);
+        const errors: string[] = [];
+        const create_worker = (): SandboxWorker => {
+            throw new Error("blocked");
+        };
+        const alg = new CustomSolver(maze, maze.start!, maze.end!, example_step_function, create_worker, (message) => errors.push(message));
+        expect(alg.step().map((event) => event.type)).toEqual([SolverEventType.NO_PATH]);
+        expect(errors[0]).toMatch(/did not start: Error: blocked$/);
+    });
+
+    it("reports messages that are not steps, should a step function get to send any", async () => {
+        const worker = new FakeWorker();
+        const page = globalThis as { post_to_page?: (message: unknown) => void };
+        page.post_to_page = worker.post_to_page;
+        try {
+            const source = "function step(maze, search) { post_to_page(1); post_to_page({}); search.expand(maze.start); }";
+            const { last, errors } = await run(source, worker);
+            expect(last?.type).toBe(SolverEventType.NO_PATH);
+            expect(errors).toEqual(["The worker sent a message that is not a step"]);
+            expect(worker.terminated).toBe(true);
+        } finally {
+            delete page.post_to_page;
+        }
+    });
+
+    it("reports replies that are not well formed without throwing", async () => {
+        const worker = new FakeWorker();
+        const maze = imported(maze_rows);
+        const errors: string[] = [];
+        const alg = new CustomSolver(
+            maze,
+            maze.start!,
+            maze.end!,
+            example_step_function,
+            () => worker,
+            (message) => errors.push(message),
+        );
+        for (const bogus of [
+            null,
+            { type: "step", actions: "all", error: undefined },
+            { type: "step", actions: [], error: 1 },
+        ] as unknown[]) {
+            expect(() => worker.onmessage?.({ data: bogus } as MessageEvent<SandboxReply>)).not.toThrow();
+        }
+        expect(alg.step().map((event) => event.type)).toEqual([SolverEventType.NO_PATH]);
+        expect(errors).toEqual(["The worker sent a message that is not a step"]);
+        expect(worker.terminated).toBe(true);
+    });
+});
+
+describe("run_sandbox_worker", () => {
+    it("takes the network away from the step function", () => {
+        const worker = new FakeWorker();
+        expect(worker.scope.fetch).toBeUndefined();
+        expect(worker.scope.importScripts).toBeUndefined();
+        expect(worker.scope.postMessage).toBeUndefined();
+        expect(() => {
+            worker.scope.fetch = () => "fetched";
+        }).toThrow(TypeError);
+    });
+});
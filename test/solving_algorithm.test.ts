@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { ASTAR, BFS, BidirectionalASTAR, BidirectionalBFS, DFS, GBFS, IDDFS, JPS, UCS } from "../src/solving_algorithm";
+import { DiagonalTopology } from "../src/topology";
+import { SolverClass, expect_valid_path, imported, solve } from "./helpers";
+
+const solvers: [string, SolverClass][] = [
+    ["BFS", BFS],
+    ["DFS", DFS],
+    ["IDDFS", IDDFS],
+    ["GBFS", GBFS],
+    ["UCS", UCS],
+    ["A*", ASTAR],
+    ["JPS", JPS],
+    ["bidirectional BFS", BidirectionalBFS],
+    ["bidirectional A*", BidirectionalASTAR],
+];
+/** Algorithms that always find the cheapest path */
+const optimal = new Set(["BFS", "UCS", "A*", "JPS", "bidirectional BFS", "bidirectional A*"]);
+
+const detour = ["#########", "#S..#...#", "#.#.#.#.#", "#.#...#E#", "#########"];
+
+describe.each(solvers)("%s", (name, solver) => {
+    it("finds a path through the maze", () => {
+        const maze = imported(detour);
+        const found = solve(solver, maze);
+        expect(found).not.toBeNull();
+        expect_valid_path(maze, found!.path);
+        if (optimal.has(name)) expect(found!.cost).toBe(12);
+    });
+
+    it("ends without a path when the end is walled off", () => {
+        expect(solve(solver, imported(["#######", "#S.#.E#", "#######"]))).toBeNull();
+    });
+});
+
+describe("weighted terrain", () => {
+    it("makes uniform cost search go around the mud that breadth first search walks through", () => {
+        const maze = imported(["#######", "#SmmmE#", "#.....#", "#######"]);
+        expect(solve(UCS, maze)!.cost).toBe(6);
+        expect(solve(BFS, maze)!.path).toHaveLength(5);
+    });
+});
+
+describe("diagonal moves", () => {
+    it("cost the square root of 2 for A* and jump point search alike", () => {
+        const maze = imported(["######", "#S...#", "#....#", "#...E#", "######"]);
+        maze.topology = new DiagonalTopology(false);
+        const astar = solve(ASTAR, maze)!;
+        expect(astar.cost).toBeCloseTo(2 * Math.SQRT2 + 1);
+        expect(solve(JPS, maze)!.cost).toBeCloseTo(astar.cost);
+    });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { IDDFS } from "../src/solving_algorithm";
+import { RunStatistics, cheapest_path_cost } from "../src/statistics";
+import { imported } from "./helpers";
+
+describe("RunStatistics", () => {
+    it("follows the depth limit of iterative deepening up to the depth of the end", () => {
+        const maze = imported(["#######", "#S...E#", "#######"]);
+        const statistics = new RunStatistics(cheapest_path_cost(maze, maze.start!, maze.end!));
+        const alg = new IDDFS(maze, maze.start!, maze.end!);
+        statistics.depth_limit = alg.depth_limit;
+        const limits = [statistics.depth_limit];
+        while (!statistics.finished) {
+            statistics.step(alg);
+            if (statistics.depth_limit !== limits[limits.length - 1]) limits.push(statistics.depth_limit);
+        }
+        expect(limits).toEqual([1, 2, 3, 4]);
+        expect(statistics.path_length()).toBe(4);
+        expect(statistics.is_optimal()).toBe(true);
+    });
+});
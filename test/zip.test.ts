@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { crc32, zip_files } from "../src/zip";
+
+const encoder = new TextEncoder();
+
+describe("crc32", () => {
+    it("matches the check value of CRC-32", () => {
+        expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+    });
+
+    it("is 0 for no data", () => {
+        expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+});
+
+describe("zip_files", () => {
+    it("stores every file after a local header and lists them in the central directory", () => {
+        const blob = zip_files([
+            { name: "a.txt", data: encoder.encode("hello") },
+            { name: "frames/b.txt", data: encoder.encode("world!") },
+        ]);
+        expect(blob).toBeDefined();
+        return blob!.arrayBuffer().then((buffer) => {
+            const view = new DataView(buffer);
+            expect(view.getUint32(0, true)).toBe(0x04034b50);
+            // Stored without compression, so the data follows the header and the name as it is
+            expect(view.getUint32(14, true)).toBe(crc32(encoder.encode("hello")));
+            expect(new TextDecoder().decode(new Uint8Array(buffer, 30, 5))).toBe("a.txt");
+            expect(new TextDecoder().decode(new Uint8Array(buffer, 35, 5))).toBe("hello");
+
+            const end_record = buffer.byteLength - 22;
+            expect(view.getUint32(end_record, true)).toBe(0x06054b50);
+            expect(view.getUint16(end_record + 10, true)).toBe(2);
+            const directory_offset = view.getUint32(end_record + 16, true);
+            expect(view.getUint32(directory_offset, true)).toBe(0x02014b50);
+            expect(directory_offset).toBe(30 + 5 + 5 + 30 + 12 + 6);
+        });
+    });
+
+    it("refuses more files than an archive can hold", () => {
+        const entries = [];
+        for (let i = 0; i <= 0xffff; i++) entries.push({ name: "f", data: new Uint8Array(0) });
+        expect(zip_files(entries)).toBeUndefined();
+    });
+});